@@ -2,41 +2,65 @@
  * App matching logic for finding Homebrew casks that correspond to local applications
  */
 
+import { Console } from 'node:console'
 import { consola } from 'consola'
 import { FILE_PATTERNS } from './constants.ts'
+import { findMapping } from './mappings.ts'
+import { calculateNameSimilarity } from './string-similarity.ts'
 import type {
   AddBrewNameMatchesOptions,
   AppInfo,
   AppMatchResult,
   CaskIndex,
+  CaskMapping,
   CaskMatch,
   FindCaskNameMatchesOptions,
+  FuzzyCandidate,
   HomebrewCask,
   MatchingConfig,
   MatchingStrategy,
 } from './types.ts'
-import { normalizeAppName, normalizeBundleIdentifier } from './utils.ts'
+import {
+  getUninstallBundleIds,
+  normalizeAppName,
+  normalizeBundleIdentifier,
+} from './utils.ts'
 
 /**
  * Default matching configuration
  */
 const DEFAULT_MIN_CONFIDENCE = 0.6
 const CONSOLA_DEBUG_LEVEL = 4
+const USER_OVERRIDE_CONFIDENCE = 1
 const BUNDLE_ID_CONFIDENCE = 0.99
 const APP_BUNDLE_CONFIDENCE = 0.98
 const NAME_EXACT_CONFIDENCE = 0.9
 const NAME_NO_HYPHENS_CONFIDENCE = 0.88
+const OLD_TOKEN_CONFIDENCE = 0.86
 const BREW_NAME_CONFIDENCE = 0.85
 const BREW_NAME_NO_HYPHENS_CONFIDENCE = 0.83
+/** Fuzzy matches are scaled to stay below every exact strategy */
+const FUZZY_CONFIDENCE_SCALE = 0.8
 
 const BUNDLE_ID_SUFFIXES = ['.plist', '.binarycookies', '.sqlite', '.sqlite3']
 const BUNDLE_IDENTIFIER_PATTERN = /^[A-Za-z0-9._-]+$/
 
 const DEFAULT_MATCHING_CONFIG: MatchingConfig = {
+  enableBundleIdLookup: true,
+  enableFuzzyMatching: true,
+  mappings: [],
   maxMatches: 5,
   minConfidence: DEFAULT_MIN_CONFIDENCE,
 }
 
+/**
+ * Check whether an app's cask was only guessed from a similar name, so it must
+ * be picked by the user rather than installed automatically
+ */
+export function needsMatchConfirmation(app: Pick<AppInfo, 'matches'>): boolean {
+  return app.matches?.[0]?.matchType === 'fuzzy'
+}
+
 /**
  * App matcher class for finding cask matches
  */
@@ -58,7 +82,9 @@ export class AppMatcher {
       byAppBundle: new Map(),
       byBundleId: new Map(),
       byNormalizedName: new Map(),
+      byOldToken: new Map(),
       byToken: new Map(),
+      fuzzyCandidates: new Map(),
     }
 
     for (const cask of casks) {
@@ -66,10 +92,37 @@ export class AppMatcher {
     }
 
     this.caskIndex = index
+    this.validateMappings(index)
     consola.debug('Search index built successfully')
     return index
   }
 
+  /**
+   * Use an index that was built earlier, e.g. one loaded from the cache
+   */
+  setIndex(index: CaskIndex): CaskIndex {
+    this.caskIndex = index
+    this.validateMappings(index)
+    return index
+  }
+
+  /**
+   * Warn about mappings to casks that don't exist
+   */
+  private validateMappings(index: CaskIndex): void {
+    for (const { pattern, token } of this.config.mappings) {
+      if (
+        token !== null &&
+        !index.byToken.has(token) &&
+        !index.byOldToken.has(token)
+      ) {
+        consola.warn(
+          `Unknown cask "${token}" in mapping for "${pattern}", ignoring it`,
+        )
+      }
+    }
+  }
+
   /**
    * Index a single cask into all relevant indexes
    */
@@ -80,6 +133,12 @@ export class AppMatcher {
 
     // Index by token
     index.byToken.set(cask.token, cask)
+    this.addFuzzyCandidate(index, cask, 'fuzzy-token', cask.token)
+
+    // Index by tokens the cask was renamed from
+    for (const oldToken of cask.old_tokens ?? []) {
+      index.byOldToken.set(oldToken, cask)
+    }
 
     // Index by normalized names
     this.indexCaskNames(cask, index)
@@ -88,6 +147,26 @@ export class AppMatcher {
     this.indexCaskArtifacts(cask, index)
   }
 
+  /**
+   * Add a value to the fuzzy matching candidates, bucketed by first character
+   */
+  private addFuzzyCandidate(
+    index: CaskIndex,
+    cask: HomebrewCask,
+    source: string,
+    value: string,
+  ): void {
+    const firstCharacter = value.charAt(0)
+
+    if (firstCharacter !== '') {
+      this.addToMap(index.fuzzyCandidates, firstCharacter, {
+        cask,
+        source,
+        value,
+      })
+    }
+  }
+
   private shouldSkipCask(cask: HomebrewCask): boolean {
     return cask.disabled === true || cask.deprecated === true
   }
@@ -96,6 +175,7 @@ export class AppMatcher {
     for (const name of cask.name) {
       const normalized = normalizeAppName(name)
       this.addToMap(index.byNormalizedName, normalized, cask)
+      this.addFuzzyCandidate(index, cask, 'fuzzy-cask-name', normalized)
     }
   }
 
@@ -123,6 +203,7 @@ export class AppMatcher {
           appNameString.replace(FILE_PATTERNS.APP_PATTERN, ''),
         )
         this.addToMap(index.byAppBundle, normalized, cask)
+        this.addFuzzyCandidate(index, cask, 'fuzzy-app-bundle', normalized)
       }
     }
   }
@@ -168,11 +249,7 @@ export class AppMatcher {
         uninstallStep !== null &&
         ('quit' in uninstallStep || 'launchctl' in uninstallStep)
       ) {
-        this.indexUninstallStep(
-          uninstallStep as { quit?: string; launchctl?: string },
-          cask,
-          index,
-        )
+        this.indexUninstallStep(uninstallStep, cask, index)
       }
     }
   }
@@ -235,23 +312,26 @@ export class AppMatcher {
   }
 
   private indexUninstallStep(
-    uninstallStep: { quit?: string; launchctl?: string },
+    uninstallStep: { quit?: unknown; launchctl?: unknown },
     cask: HomebrewCask,
     index: CaskIndex,
   ): void {
-    if (typeof uninstallStep.quit === 'string') {
-      const normalized = normalizeBundleIdentifier(uninstallStep.quit)
-      if (normalized !== '') {
-        this.addToMap(index.byBundleId, normalized, cask)
-      }
+    for (const bundleId of getUninstallBundleIds(uninstallStep)) {
+      this.addToMap(index.byBundleId, bundleId, cask)
     }
+  }
 
-    if (typeof uninstallStep.launchctl === 'string') {
-      const normalized = normalizeBundleIdentifier(uninstallStep.launchctl)
-      if (normalized !== '') {
-        this.addToMap(index.byBundleId, normalized, cask)
-      }
+  /**
+   * Resolve a cask token that may have been renamed to the current token
+   */
+  resolveCurrentToken(token: string, caskIndex?: CaskIndex): string {
+    const index = caskIndex ?? this.caskIndex
+
+    if (!index || index.byToken.has(token)) {
+      return token
     }
+
+    return index.byOldToken.get(token)?.token ?? token
   }
 
   matchApp(appInfo: AppInfo, caskIndex?: CaskIndex): AppMatchResult {
@@ -261,12 +341,26 @@ export class AppMatcher {
       throw new Error('No cask index available. Call buildIndex() first.')
     }
 
+    const mapping = findMapping(this.config.mappings, appInfo)
+    const overrideResult = mapping
+      ? this.applyMapping(appInfo, mapping, index)
+      : undefined
+
+    if (overrideResult) {
+      return overrideResult
+    }
+
     const allMatches: CaskMatch[] = []
 
     // Direct app bundle matching
     const bundleMatches = this.findAppBundleMatches(appInfo, index)
     allMatches.push(...bundleMatches)
 
+    // Name similarity, only when nothing matched exactly
+    if (allMatches.length === 0 && this.config.enableFuzzyMatching) {
+      allMatches.push(...this.findFuzzyMatches(appInfo, index))
+    }
+
     // Remove duplicates and sort by confidence
     const uniqueMatches = this.deduplicateMatches(allMatches)
     const filteredMatches = uniqueMatches
@@ -285,6 +379,42 @@ export class AppMatcher {
     }
   }
 
+  /**
+   * Build the match result for an app covered by a user mapping, or undefined
+   * if the mapping names an unknown cask and automatic matching should run
+   */
+  private applyMapping(
+    appInfo: AppInfo,
+    mapping: CaskMapping,
+    index: CaskIndex,
+  ): AppMatchResult | undefined {
+    if (mapping.token === null) {
+      consola.debug(
+        `${appInfo.originalName} is mapped to no cask by "${mapping.pattern}"`,
+      )
+      return { appInfo, matches: [], strategy: 'hybrid' }
+    }
+
+    const cask =
+      index.byToken.get(mapping.token) ?? index.byOldToken.get(mapping.token)
+
+    if (!cask) {
+      return
+    }
+
+    const match: CaskMatch = {
+      cask,
+      confidence: USER_OVERRIDE_CONFIDENCE,
+      matchDetails: {
+        matchedValue: mapping.pattern,
+        source: 'user-mapping',
+      },
+      matchType: 'user-override',
+    }
+
+    return { appInfo, bestMatch: match, matches: [match], strategy: 'hybrid' }
+  }
+
   matchApps(apps: AppInfo[], caskIndex?: CaskIndex): AppMatchResult[] {
     const index = caskIndex ?? this.caskIndex
 
@@ -326,11 +456,14 @@ export class AppMatcher {
     ).length
 
     if (consola.level >= CONSOLA_DEBUG_LEVEL) {
+      // Print the tables where consola logs, which is stderr with --json
+      const tableConsole = new Console(consola.options.stdout ?? process.stdout)
+
       consola.debug('Match Results Summary:')
-      console.table(matchSummary)
+      tableConsole.table(matchSummary)
 
       consola.debug('Match Statistics:')
-      console.table({
+      tableConsole.table({
         'Matches Found': matchesFound,
         'No Matches': noMatches,
         'Total Apps': apps.length,
@@ -402,13 +535,16 @@ export class AppMatcher {
     const originalAppNameNormalizedNoHyphens =
       originalAppNameNormalized.replaceAll('-', '')
 
-    const bundleIdMatches = this.findBundleIdMatches(appInfo, index)
-    matches.push(...bundleIdMatches)
+    if (this.config.enableBundleIdLookup) {
+      matches.push(...this.findBundleIdMatches(appInfo, index))
+    }
 
     this.findAppBundleExactMatches(originalAppNameNormalized, index, matches)
 
     this.findBrewNameMatches(appInfo, originalAppNameNormalized, index, matches)
 
+    this.findOldTokenMatches(appInfo, index, matches)
+
     const nameMatches = this.findCaskNameMatches({
       appInfo,
       index,
@@ -416,13 +552,50 @@ export class AppMatcher {
       originalAppNameNormalizedNoHyphens,
     })
 
-    if (nameMatches.length === 1) {
-      matches.push(...nameMatches)
-    }
+    // Several casks with the same name are kept as alternatives to choose from
+    matches.push(...nameMatches)
 
     return matches
   }
 
+  /**
+   * Score the app name against cask names, tokens and app bundle names
+   *
+   * Casks that tie for the best score are all kept as alternatives to choose from.
+   */
+  private findFuzzyMatches(appInfo: AppInfo, index: CaskIndex): CaskMatch[] {
+    const appName = normalizeAppName(appInfo.originalName)
+    const candidates: FuzzyCandidate[] =
+      index.fuzzyCandidates.get(appName.charAt(0)) ?? []
+    const bestMatches = new Map<string, CaskMatch>()
+
+    for (const candidate of candidates) {
+      const confidence =
+        calculateNameSimilarity(appName, candidate.value) *
+        FUZZY_CONFIDENCE_SCALE
+      const existing = bestMatches.get(candidate.cask.token)
+
+      if (
+        confidence >= this.config.minConfidence &&
+        (!existing || confidence > existing.confidence)
+      ) {
+        bestMatches.set(candidate.cask.token, {
+          cask: candidate.cask,
+          confidence,
+          matchDetails: {
+            matchedValue: candidate.value,
+            source: candidate.source,
+          },
+          matchType: 'fuzzy',
+        })
+      }
+    }
+
+    return [...bestMatches.values()].sort(
+      (matchA, matchB) => matchB.confidence - matchA.confidence,
+    )
+  }
+
   private findCaskNameMatches(
     options: FindCaskNameMatchesOptions,
   ): CaskMatch[] {
@@ -577,6 +750,31 @@ export class AppMatcher {
     })
   }
 
+  /**
+   * Match apps named after the token a cask had before it was renamed
+   */
+  private findOldTokenMatches(
+    appInfo: AppInfo,
+    index: CaskIndex,
+    matches: CaskMatch[],
+  ): void {
+    const cask = index.byOldToken.get(appInfo.brewName)
+
+    if (!cask || index.byToken.has(appInfo.brewName)) {
+      return
+    }
+
+    matches.push({
+      cask,
+      confidence: OLD_TOKEN_CONFIDENCE,
+      matchDetails: {
+        matchedValue: appInfo.brewName,
+        source: 'old-token',
+      },
+      matchType: 'token-match',
+    })
+  }
+
   private addBrewNameMatches(options: AddBrewNameMatchesOptions): void {
     const { casks, brewName, source, confidence, matches } = options
 
@@ -2,32 +2,52 @@
  * App scanner module for discovering macOS applications and checking Homebrew availability
  */
 
+import type { Dirent } from 'node:fs'
 import { promises as fs } from 'node:fs'
 import path from 'node:path'
 import { consola } from 'consola'
 import { AppMatcher } from './app-matcher.ts'
 import {
   BREW_COMMANDS,
-  DEFAULT_APPLICATIONS_DIR,
+  DEFAULT_APPLICATIONS_DIRS,
+  DEFAULT_CONFIG,
   FILE_PATTERNS,
 } from './constants.ts'
-import { fetchHomebrewCasks } from './homebrew-api.ts'
-import { getMacAppStoreApps, isAppFromMacAppStore } from './mas-integration.ts'
+import { fetchHomebrewCasks, getClientOptions } from './homebrew-api.ts'
+import { loadIgnoreRules } from './ignore-file.ts'
+import { loadMappings } from './mappings.ts'
+import { getAppStoreInfo, getMacAppStoreApps } from './mas-integration.ts'
 import type {
   AppInfo,
-  HomebrewCask,
+  AppMatchResult,
+  CaskFetchResult,
+  IgnoreRule,
   MasAppInfo,
+  MatchingConfig,
   ScannerConfig,
 } from './types.ts'
 import { ConvertAppsError, ErrorType } from './types.ts'
 import {
   executeCommand,
+  expandHomeDirectory,
   extractAppName,
+  findIgnoreRule,
   normalizeAppName,
   parseCommandOutput,
-  readBundleIdentifier,
-  shouldIgnoreApp,
+  readAppBundleInfo,
+  setBundleIdCacheTtl,
 } from './utils.ts'
+import { getVersionRelation } from './version.ts'
+
+/**
+ * Progress of a recursive Applications directory scan
+ */
+interface DirectoryScanState {
+  /** Discovered app bundle paths, in scan order */
+  appPaths: string[]
+  /** Resolved paths of folders and apps already visited */
+  visitedPaths: Set<string>
+}
 
 /**
  * Main function to discover and analyze applications
@@ -35,9 +55,14 @@ import {
 export async function discoverApps(config: ScannerConfig): Promise<AppInfo[]> {
   await validateHomebrewInstallation()
 
+  if (config.bundleIdCacheTtl !== undefined) {
+    setBundleIdCacheTtl(config.bundleIdCacheTtl)
+  }
+
   const masApps = await initializeMacAppStoreIntegration()
-  const appPaths = await getApplicationPaths(config.applicationsDir)
+  const appPaths = await getApplicationPaths(config.applicationsDirs)
   const installedCaskSet = await getInstalledCaskSet()
+  const ignoreRules = await loadIgnoreRules(config.ignoredApps)
 
   const apps = await createInitialAppInfoList(
     appPaths,
@@ -46,6 +71,9 @@ export async function discoverApps(config: ScannerConfig): Promise<AppInfo[]> {
     installedCaskSet,
   )
   await processUnresolvedApps(apps, config, installedCaskSet)
+  // Cask tokens are only known after matching, and a negated rule may depend on
+  // them, so all rules are applied once matching is done
+  applyIgnoreRules(apps, ignoreRules)
 
   consola.ready(`Discovery complete: ${apps.length} apps processed`)
   return apps
@@ -88,15 +116,15 @@ async function initializeMacAppStoreIntegration(): Promise<MasAppInfo[]> {
 }
 
 /**
- * Get application paths from the Applications directory
+ * Get application paths from the Applications directories
  */
 async function getApplicationPaths(
-  applicationsDir?: string,
+  applicationsDirs: string[],
 ): Promise<string[]> {
-  const appPaths = await scanApplicationsDirectory(applicationsDir)
+  const appPaths = await scanApplicationsDirectories(applicationsDirs)
 
   if (appPaths.length === 0) {
-    consola.warn('No applications found in the Applications directory')
+    consola.warn('No applications found in the Applications directories')
     return []
   }
 
@@ -139,29 +167,26 @@ async function createAppInfo(
 ): Promise<AppInfo> {
   const originalName = extractAppName(appPath)
   const brewName = normalizeAppName(originalName)
-  const fromMacAppStore = isAppFromMacAppStore(originalName, masApps)
-  const bundleId = await readBundleIdentifier(appPath)
+  const bundleInfo = await readAppBundleInfo(appPath)
+  const appStoreInfo = await getAppStoreInfo(
+    { appPath, ...bundleInfo, originalName },
+    masApps,
+  )
 
   const baseAppInfo = {
     appPath,
-    ...(bundleId ? { bundleId } : {}),
+    ...bundleInfo,
+    ...appStoreInfo,
     brewName,
-    fromMacAppStore,
     originalName,
   }
 
-  // Check if app should be ignored
-  if (shouldIgnoreApp(originalName, brewName, config.ignoredApps)) {
-    return {
-      ...baseAppInfo,
-      alreadyInstalled: false,
-      brewType: 'unavailable' as const,
-      status: 'ignored' as const,
-    }
-  }
-
   // Check if Mac App Store app should be ignored
-  if (config.ignoreAppStore && fromMacAppStore) {
+  if (config.ignoreAppStore && appStoreInfo.fromMacAppStore) {
+    consola.debug(
+      `Ignoring ${originalName}: installed from the Mac App Store (${appStoreInfo.appStoreEvidence})`,
+    )
+
     return {
       ...baseAppInfo,
       alreadyInstalled: false,
@@ -189,6 +214,34 @@ async function createAppInfo(
   }
 }
 
+/**
+ * Mark apps matched by the ignore rules as ignored
+ */
+function applyIgnoreRules(apps: AppInfo[], ignoreRules: IgnoreRule[]): void {
+  if (ignoreRules.length === 0) {
+    return
+  }
+
+  for (const app of apps) {
+    if (app.status === 'ignored') {
+      continue
+    }
+
+    const rule = findIgnoreRule(ignoreRules, app)
+
+    if (rule === undefined) {
+      continue
+    }
+
+    consola.debug(
+      `Ignoring ${app.originalName}: matched "${rule.pattern}" from ${rule.source}`,
+    )
+    app.alreadyInstalled = false
+    app.brewType = 'unavailable'
+    app.status = 'ignored'
+  }
+}
+
 /**
  * Process apps that need Homebrew availability checking
  */
@@ -215,6 +268,11 @@ async function processUnresolvedApps(
   }
 }
 
+/**
+ * Default matching threshold
+ */
+const DEFAULT_MATCHING_THRESHOLD = 0.6
+
 /**
  * Process apps using batch matching with Homebrew API
  */
@@ -223,14 +281,36 @@ async function processBatchMatching(
   config: ScannerConfig,
   installedCaskSet: Set<string>,
 ): Promise<void> {
-  try {
-    const caskResult = await fetchHomebrewCasks(config.forceRefreshCache, true)
+  // Load mappings first so a broken mappings file isn't mistaken for an API failure
+  const matchingConfig: Partial<MatchingConfig> = {
+    enableBundleIdLookup: true,
+    enableFuzzyMatching: true,
+    mappings: await loadMappings(config.mappingsFile),
+    maxMatches: 5,
+    minConfidence: config.matchingThreshold ?? DEFAULT_MATCHING_THRESHOLD,
+  }
+
+  // The spinner writes to stdout, which belongs to the JSON report
+  const caskResult = await fetchHomebrewCasks(
+    config.forceRefreshCache,
+    config.json !== true,
+    getClientOptions(config),
+  )
+
+  // Individual brew commands would need the network too
+  if (config.offline && !caskResult.success) {
+    throw new ConvertAppsError(
+      caskResult.error?.message ?? 'No local Homebrew cask data available',
+      ErrorType.NETWORK_ERROR,
+    )
+  }
 
+  try {
     if (caskResult.success && caskResult.data) {
       performBatchMatching(
         appsToCheck,
-        config,
-        caskResult.data,
+        matchingConfig,
+        caskResult,
         installedCaskSet,
       )
     } else {
@@ -248,33 +328,30 @@ async function processBatchMatching(
   }
 }
 
-/**
- * Default matching threshold
- */
-const DEFAULT_MATCHING_THRESHOLD = 0.6
-
 /**
  * Perform batch matching using AppMatcher
  */
 function performBatchMatching(
   appsToCheck: AppInfo[],
-  config: ScannerConfig,
-  caskData: HomebrewCask[],
+  matchingConfig: Partial<MatchingConfig>,
+  caskResult: CaskFetchResult,
   installedCaskSet: Set<string>,
 ): void {
-  const matchingConfig = {
-    enableBundleIdLookup: true,
-    enableFuzzyMatching: true,
-    maxMatches: 5,
-    minConfidence: config.matchingThreshold ?? DEFAULT_MATCHING_THRESHOLD,
-  }
-
   const matcher = new AppMatcher(matchingConfig)
-  const index = matcher.buildIndex(caskData)
+  const index = caskResult.index
+    ? matcher.setIndex(caskResult.index)
+    : matcher.buildIndex(caskResult.data ?? [])
   const matchResults = matcher.matchApps(appsToCheck, index)
 
+  // Casks installed under a token they've since been renamed from are the same cask
+  const installedCasks = new Set(installedCaskSet)
+
+  for (const token of installedCaskSet) {
+    installedCasks.add(matcher.resolveCurrentToken(token, index))
+  }
+
   for (const matchResult of matchResults) {
-    updateAppWithMatchResult(matchResult, installedCaskSet)
+    updateAppWithMatchResult(matchResult, installedCasks)
   }
 }
 
@@ -282,18 +359,29 @@ function performBatchMatching(
  * Update app info based on match result
  */
 function updateAppWithMatchResult(
-  matchResult: {
-    appInfo: AppInfo
-    bestMatch?: { cask: { token: string; desc: string; homepage: string } }
-  },
+  matchResult: AppMatchResult,
   installedCaskSet: Set<string>,
 ): void {
   const app = matchResult.appInfo
+  app.matches = matchResult.matches
 
   if (matchResult.bestMatch) {
-    const matchedCaskName = matchResult.bestMatch.cask.token
-    const matchedCaskDescription = matchResult.bestMatch.cask.desc
-    const matchedCaskHomepage = matchResult.bestMatch.cask.homepage
+    const { confidence } = matchResult.bestMatch
+    // Among equally good matches, prefer the one that's already installed
+    const bestMatch =
+      matchResult.matches.find(
+        (match) =>
+          match.confidence === confidence &&
+          installedCaskSet.has(match.cask.token),
+      ) ?? matchResult.bestMatch
+    app.matches = [
+      bestMatch,
+      ...matchResult.matches.filter((match) => match !== bestMatch),
+    ]
+    const matchedCaskName = bestMatch.cask.token
+    const matchedCaskDescription = bestMatch.cask.desc
+    const matchedCaskHomepage = bestMatch.cask.homepage
+    app.versionRelation = getVersionRelation(app, bestMatch.cask.version)
 
     if (installedCaskSet.has(matchedCaskName)) {
       app.alreadyInstalled = true
@@ -397,44 +485,163 @@ async function procesAppsIndividually(apps: AppInfo[]): Promise<void> {
 }
 
 /**
- * Scan the Applications directory for .app bundles
+ * Scan the Applications directories for .app bundles
+ *
+ * Missing directories are skipped as long as at least one exists. Folders are
+ * searched a few levels deep without descending into app bundles, and each
+ * symlinked folder or app is followed only once.
  */
-async function scanApplicationsDirectory(
-  applicationsDirectory: string = DEFAULT_APPLICATIONS_DIR,
+export async function scanApplicationsDirectories(
+  applicationsDirectories: string[],
 ): Promise<string[]> {
-  try {
-    const entries = await fs.readdir(applicationsDirectory, {
-      withFileTypes: true,
-    })
-
-    return entries
-      .filter(
-        (entry) =>
-          entry.isDirectory() && FILE_PATTERNS.APP_PATTERN.test(entry.name),
-      )
-      .map((entry) => path.join(applicationsDirectory, entry.name))
-  } catch (error: unknown) {
-    const typedError = error as { code?: string; message?: string }
+  const directories =
+    applicationsDirectories.length > 0
+      ? applicationsDirectories
+      : [...DEFAULT_APPLICATIONS_DIRS]
+  const state: DirectoryScanState = { appPaths: [], visitedPaths: new Set() }
+  const missingDirectories: string[] = []
+
+  for (const directory of directories) {
+    const applicationsDirectory = expandHomeDirectory(directory)
+
+    try {
+      await scanDirectory(applicationsDirectory, 0, state)
+    } catch (error: unknown) {
+      if ((error as { code?: string }).code !== 'ENOENT') {
+        throw createScanError(applicationsDirectory, error)
+      }
 
-    if (typedError.code === 'ENOENT') {
-      throw new ConvertAppsError(
-        `Applications directory not found: ${applicationsDirectory}`,
-        ErrorType.FILE_NOT_FOUND,
-        error instanceof Error ? error : undefined,
+      consola.debug(
+        `Skipping missing applications directory: ${applicationsDirectory}`,
       )
+      missingDirectories.push(applicationsDirectory)
     }
+  }
 
-    if (typedError.code === 'EACCES') {
-      throw new ConvertAppsError(
-        `Permission denied accessing: ${applicationsDirectory}`,
-        ErrorType.PERMISSION_DENIED,
-        error instanceof Error ? error : undefined,
-      )
-    }
+  if (missingDirectories.length === directories.length) {
     throw new ConvertAppsError(
-      `Failed to scan applications directory: ${typedError.message ?? 'Unknown error'}`,
-      ErrorType.UNKNOWN_ERROR,
+      `Applications directory not found: ${missingDirectories.join(', ')}`,
+      ErrorType.FILE_NOT_FOUND,
+    )
+  }
+
+  return state.appPaths
+}
+
+/**
+ * Recursively collect .app bundles from a directory
+ */
+async function scanDirectory(
+  directory: string,
+  depth: number,
+  state: DirectoryScanState,
+): Promise<void> {
+  const realDirectory = await fs.realpath(directory)
+
+  if (state.visitedPaths.has(realDirectory)) {
+    return
+  }
+
+  state.visitedPaths.add(realDirectory)
+
+  const entries = await fs.readdir(directory, { withFileTypes: true })
+
+  for (const entry of entries) {
+    const entryPath = path.join(directory, entry.name)
+
+    if (
+      entry.name.startsWith('.') ||
+      !(await isDirectoryEntry(entry, entryPath))
+    ) {
+      continue
+    }
+
+    if (FILE_PATTERNS.APP_PATTERN.test(entry.name)) {
+      await addAppPath(entryPath, state)
+    } else if (depth < DEFAULT_CONFIG.MAX_SCAN_DEPTH) {
+      await scanSubdirectory(entryPath, depth + 1, state)
+    }
+  }
+}
+
+/**
+ * Scan a nested folder, skipping it if it can't be read
+ */
+async function scanSubdirectory(
+  directory: string,
+  depth: number,
+  state: DirectoryScanState,
+): Promise<void> {
+  try {
+    await scanDirectory(directory, depth, state)
+  } catch (error: unknown) {
+    consola.debug(
+      `Skipping unreadable folder ${directory}: ${error instanceof Error ? error.message : String(error)}`,
+    )
+  }
+}
+
+/**
+ * Record an app bundle unless its target was already found via another path
+ */
+async function addAppPath(
+  appPath: string,
+  state: DirectoryScanState,
+): Promise<void> {
+  try {
+    const realAppPath = await fs.realpath(appPath)
+
+    if (!state.visitedPaths.has(realAppPath)) {
+      state.visitedPaths.add(realAppPath)
+      state.appPaths.push(appPath)
+    }
+  } catch {
+    consola.debug(`Skipping broken app link: ${appPath}`)
+  }
+}
+
+/**
+ * Check whether a directory entry is a folder, following symlinks
+ */
+async function isDirectoryEntry(
+  entry: Dirent,
+  entryPath: string,
+): Promise<boolean> {
+  if (entry.isDirectory()) {
+    return true
+  }
+
+  if (!entry.isSymbolicLink()) {
+    return false
+  }
+
+  try {
+    return (await fs.stat(entryPath)).isDirectory()
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Convert a filesystem error for an Applications directory into a ConvertAppsError
+ */
+function createScanError(
+  applicationsDirectory: string,
+  error: unknown,
+): ConvertAppsError {
+  const typedError = error as { code?: string; message?: string }
+
+  if (typedError.code === 'EACCES') {
+    return new ConvertAppsError(
+      `Permission denied accessing: ${applicationsDirectory}`,
+      ErrorType.PERMISSION_DENIED,
       error instanceof Error ? error : undefined,
     )
   }
+
+  return new ConvertAppsError(
+    `Failed to scan applications directory: ${typedError.message ?? 'Unknown error'}`,
+    ErrorType.UNKNOWN_ERROR,
+    error instanceof Error ? error : undefined,
+  )
 }
@@ -0,0 +1,228 @@
+/**
+ * App selection logic for interactive and non-interactive runs
+ */
+
+import { consola } from 'consola'
+import { needsMatchConfirmation } from './app-matcher.ts'
+import {
+  displayAppSummary,
+  promptAppSelection,
+  promptCaskChoice,
+} from './prompts.ts'
+import type { AppInfo, CaskMatch, SelectionConfig } from './types.ts'
+import { ConvertAppsError, ErrorType } from './types.ts'
+import {
+  createWildcardPattern,
+  hasWildcard,
+  normalizeAppName,
+  pluralize,
+} from './utils.ts'
+import { getVersionRelation } from './version.ts'
+
+/**
+ * Matches this close to the best match's confidence make an app ambiguous
+ */
+const AMBIGUITY_MARGIN = 0.02
+
+/**
+ * Choose which apps to install, prompting only when the selection isn't
+ * fully determined by the configuration
+ */
+export async function selectApps(
+  apps: AppInfo[],
+  config: SelectionConfig,
+  isInteractive: boolean = process.stdin.isTTY === true,
+): Promise<AppInfo[]> {
+  const availableApps = getAvailableApps(apps)
+
+  if (isNonInteractiveSelection(config)) {
+    displayAppSummary(apps)
+    const selectedApps = resolveNonInteractiveSelection(availableApps, config)
+
+    consola.info(
+      `Selected ${selectedApps.length} ${pluralize('app', selectedApps.length)} non-interactively`,
+    )
+    warnAboutAmbiguousApps(selectedApps)
+
+    return selectedApps
+  }
+
+  if (availableApps.length > 0 && config.json) {
+    throw new ConvertAppsError(
+      'Cannot prompt for app selection with --json, as the prompts would mix with the report. Use --yes or --select to choose apps non-interactively.',
+      ErrorType.INVALID_INPUT,
+    )
+  }
+
+  if (availableApps.length > 0 && !isInteractive) {
+    throw new ConvertAppsError(
+      'Cannot prompt for app selection because stdin is not a TTY. Use --yes or --select to choose apps non-interactively.',
+      ErrorType.INVALID_INPUT,
+    )
+  }
+
+  const initialSelection = availableApps.filter(
+    (app) =>
+      !(needsMatchConfirmation(app) || matchesAnyPattern(app, config.deselect)),
+  )
+
+  const selectedApps = await promptAppSelection(apps, initialSelection)
+
+  for (const app of selectedApps) {
+    const candidates = getAmbiguousCandidates(app)
+
+    if (candidates.length > 0) {
+      const choice = await promptCaskChoice(app, candidates)
+
+      if (choice) {
+        applyCaskChoice(app, choice)
+      }
+    }
+  }
+
+  return selectedApps
+}
+
+/**
+ * Get the casks an app could reasonably be, or an empty list if the best match is clear
+ */
+export function getAmbiguousCandidates(app: AppInfo): CaskMatch[] {
+  const [bestMatch] = app.matches ?? []
+
+  if (!bestMatch) {
+    return []
+  }
+
+  const candidates = (app.matches ?? []).filter(
+    (match) => bestMatch.confidence - match.confidence <= AMBIGUITY_MARGIN,
+  )
+
+  return candidates.length > 1 ? candidates : []
+}
+
+/**
+ * Point an app at the cask the user picked, keeping the others as alternatives
+ */
+export function applyCaskChoice(app: AppInfo, choice: CaskMatch): void {
+  app.brewName = choice.cask.token
+  app.matches = [
+    choice,
+    ...(app.matches ?? []).filter((match) => match !== choice),
+  ]
+
+  app.description = choice.cask.desc
+  app.homepage = choice.cask.homepage
+  app.versionRelation = getVersionRelation(app, choice.cask.version)
+}
+
+/**
+ * Check whether the configuration selects apps without prompting
+ */
+export function isNonInteractiveSelection(config: SelectionConfig): boolean {
+  return config.yes || config.select.length > 0
+}
+
+/**
+ * Resolve the selected apps from --yes, --select and --deselect
+ *
+ * Apps matched only by a similar name are left out unless --select names
+ * their cask token, so a guessed cask is never installed by accident.
+ */
+export function resolveNonInteractiveSelection(
+  availableApps: AppInfo[],
+  config: SelectionConfig,
+): AppInfo[] {
+  const requestedApps = config.yes
+    ? availableApps
+    : availableApps.filter((app) => matchesAnyPattern(app, config.select))
+
+  if (!config.yes) {
+    warnAboutUnmatchedPatterns(availableApps, config.select)
+  }
+
+  const candidates = requestedApps.filter((app) => {
+    if (!needsMatchConfirmation(app)) {
+      return true
+    }
+
+    if (config.select.some((pattern) => pattern.trim() === app.brewName)) {
+      return true
+    }
+
+    consola.warn(
+      `${app.originalName} was only matched by a similar name to ${app.brewName}, so it isn't selected. Use --select ${app.brewName} if that's the right cask.`,
+    )
+    return false
+  })
+
+  return candidates.filter((app) => !matchesAnyPattern(app, config.deselect))
+}
+
+/**
+ * Check whether an app matches a name, cask token or wildcard pattern
+ */
+export function matchesAppPattern(app: AppInfo, pattern: string): boolean {
+  const trimmedPattern = pattern.trim()
+
+  if (trimmedPattern === '') {
+    return false
+  }
+
+  if (hasWildcard(trimmedPattern)) {
+    const regex = createWildcardPattern(trimmedPattern)
+
+    return regex.test(app.originalName) || regex.test(app.brewName)
+  }
+
+  const normalizedPattern = normalizeAppName(trimmedPattern)
+
+  return (
+    normalizedPattern === normalizeAppName(app.originalName) ||
+    normalizedPattern === app.brewName
+  )
+}
+
+/**
+ * Get available apps sorted by name
+ */
+function getAvailableApps(apps: AppInfo[]): AppInfo[] {
+  return apps
+    .filter((app) => app.status === 'available')
+    .sort((a, b) => a.originalName.localeCompare(b.originalName))
+}
+
+/**
+ * Check whether an app matches any of the given patterns
+ */
+function matchesAnyPattern(app: AppInfo, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesAppPattern(app, pattern))
+}
+
+/**
+ * Tell the user which cask was picked for apps that match several
+ */
+function warnAboutAmbiguousApps(selectedApps: AppInfo[]): void {
+  for (const app of selectedApps) {
+    const candidates = getAmbiguousCandidates(app)
+
+    if (candidates.length > 0) {
+      consola.warn(
+        `${app.originalName} matches several casks (${candidates.map((match) => match.cask.token).join(', ')}), using ${app.brewName}. Run interactively to choose another.`,
+      )
+    }
+  }
+}
+
+/**
+ * Warn about --select entries that don't match any available app
+ */
+function warnAboutUnmatchedPatterns(
+  availableApps: AppInfo[],
+  patterns: string[],
+): void {
+  for (const pattern of patterns) {
+    if (!availableApps.some((app) => matchesAppPattern(app, pattern))) {
+      consola.warn(`No available app matches "${pattern}"`)
+    }
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Migration of Mac App Store apps to the Homebrew casks that match them
+ */
+
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { consola } from 'consola'
+import packageJson from '../package.json' with { type: 'json' }
+import { needsMatchConfirmation } from './app-matcher.ts'
+import type { AppInfo, AppStoreMigration, HomebrewCask } from './types.ts'
+import { ConvertAppsError, ErrorType } from './types.ts'
+import {
+  escapeShellArgument,
+  getUninstallBundleIds,
+  normalizeBundleIdentifier,
+  pluralize,
+} from './utils.ts'
+
+/**
+ * Permissions for the migration script: readable by everyone, runnable by the owner
+ */
+const MIGRATION_SCRIPT_MODE = 0o744
+
+/**
+ * Find the Mac App Store apps that have a matching cask to move to
+ *
+ * Casks guessed from a similar name are left out, as the script would
+ * uninstall the app for the wrong cask.
+ */
+export function getAppStoreMigrations(apps: AppInfo[]): AppStoreMigration[] {
+  const migrations: AppStoreMigration[] = []
+
+  for (const app of apps) {
+    const bestMatch = app.matches?.[0]
+
+    if (
+      app.fromMacAppStore !== true ||
+      app.status !== 'available' ||
+      bestMatch === undefined ||
+      needsMatchConfirmation(app)
+    ) {
+      continue
+    }
+
+    const caskBundleIds = getCaskBundleIds(bestMatch.cask, app)
+
+    migrations.push({
+      app,
+      build: getMigrationBuild(app.bundleId, caskBundleIds),
+      caskBundleIds,
+      caskToken: bestMatch.cask.token,
+    })
+  }
+
+  return migrations.sort((a, b) =>
+    a.app.originalName.localeCompare(b.app.originalName),
+  )
+}
+
+/**
+ * Explain what moving an app to its cask means, e.g.
+ * "Slack → slack: same vendor build (com.tinyspeck.slackmacgap)"
+ */
+export function describeAppStoreMigration(
+  migration: AppStoreMigration,
+): string {
+  const { app, build, caskBundleIds, caskToken } = migration
+  const prefix = `${app.originalName} → ${caskToken}`
+
+  if (build === 'same') {
+    return `${prefix}: same vendor build (${app.bundleId})`
+  }
+
+  if (build === 'different') {
+    return `${prefix}: different build, the App Store app is ${app.bundleId} but the cask installs ${caskBundleIds.join(', ')}`
+  }
+
+  const reason =
+    app.bundleId === undefined
+      ? 'the app has no bundle ID'
+      : "the cask doesn't list its bundle IDs"
+
+  return `${prefix}: can't tell whether it's the same build, ${reason}`
+}
+
+/**
+ * Show the Mac App Store apps that can move to a cask
+ */
+export function displayAppStoreMigrations(
+  migrations: AppStoreMigration[],
+): void {
+  if (migrations.length === 0) {
+    consola.info('No Mac App Store apps with a matching cask were found.')
+    return
+  }
+
+  consola.info(
+    `Found ${migrations.length} Mac App Store ${pluralize('app', migrations.length)} with a matching cask:`,
+  )
+
+  for (const migration of migrations) {
+    consola.log(`  • ${describeAppStoreMigration(migration)}`)
+  }
+
+  if (migrations.some((migration) => migration.build !== 'same')) {
+    consola.warn(
+      'A different build may not accept your App Store purchase or find its existing settings.',
+    )
+  }
+}
+
+/**
+ * Generate a shell script that uninstalls each app with mas and installs its cask
+ *
+ * Apps that mas doesn't know the App Store ID of are left commented out, as
+ * they have to be removed by hand before their cask can be installed.
+ */
+export function generateMigrationScript(
+  migrations: AppStoreMigration[],
+): string {
+  const lines = [
+    '#!/bin/bash',
+    `# Mac App Store migration generated by ${packageJson.name} v${packageJson.version} on ${new Date().toISOString().split('T')[0]}`,
+    '# Review every step before running: apps are uninstalled from the App Store, then installed from their cask',
+    'set -euo pipefail',
+  ]
+
+  for (const migration of migrations) {
+    const { app, caskToken } = migration
+    const installCommand = `brew install --cask ${escapeShellArgument(caskToken)}`
+
+    lines.push('', `# ${describeAppStoreMigration(migration)}`)
+
+    if (app.appStoreId === undefined) {
+      lines.push(
+        `# No App Store ID from mas: remove ${app.appPath} by hand, then run`,
+        `# ${installCommand}`,
+      )
+      continue
+    }
+
+    lines.push(`mas uninstall ${app.appStoreId}`, installCommand)
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Write the migration script to disk, without running it
+ */
+export async function writeMigrationScript(
+  scriptPath: string,
+  contents: string,
+): Promise<void> {
+  try {
+    await fs.mkdir(path.dirname(scriptPath), { recursive: true })
+    await fs.writeFile(scriptPath, contents, {
+      encoding: 'utf-8',
+      mode: MIGRATION_SCRIPT_MODE,
+    })
+  } catch (error) {
+    throw new ConvertAppsError(
+      `Failed to write migration script: ${scriptPath}`,
+      ErrorType.UNKNOWN_ERROR,
+      error instanceof Error ? error : undefined,
+    )
+  }
+
+  consola.success(
+    `Migration script written to ${scriptPath}, review it before running it`,
+  )
+}
+
+/**
+ * Collect the bundle IDs a cask quits or unloads when uninstalled
+ *
+ * Bundle IDs from zap paths aren't kept in the cask cache, so a bundle ID
+ * match for the same cask counts as well.
+ */
+function getCaskBundleIds(cask: HomebrewCask, app: AppInfo): string[] {
+  const bundleIds = new Set<string>()
+
+  for (const artifact of cask.artifacts) {
+    for (const step of artifact.uninstall ?? []) {
+      for (const bundleId of getUninstallBundleIds(step)) {
+        bundleIds.add(bundleId)
+      }
+    }
+  }
+
+  const bundleIdMatch = app.matches?.find(
+    (match) =>
+      match.matchType === 'bundle-id' && match.cask.token === cask.token,
+  )
+
+  if (bundleIdMatch !== undefined) {
+    bundleIds.add(
+      normalizeBundleIdentifier(bundleIdMatch.matchDetails.matchedValue),
+    )
+  }
+
+  return [...bundleIds].sort()
+}
+
+/**
+ * Compare the app's bundle ID with the cask's to tell whether it's the same build
+ */
+function getMigrationBuild(
+  bundleId: string | undefined,
+  caskBundleIds: string[],
+): AppStoreMigration['build'] {
+  if (bundleId === undefined || caskBundleIds.length === 0) {
+    return 'unknown'
+  }
+
+  return caskBundleIds.includes(normalizeBundleIdentifier(bundleId))
+    ? 'same'
+    : 'different'
+}
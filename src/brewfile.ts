@@ -0,0 +1,119 @@
+/**
+ * Homebrew Bundle Brewfile export of the conversion plan
+ */
+
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { consola } from 'consola'
+import packageJson from '../package.json' with { type: 'json' }
+import { USER_APPLICATIONS_DIR } from './constants.ts'
+import type { AppInfo } from './types.ts'
+import { ConvertAppsError, ErrorType } from './types.ts'
+import { isInUserApplicationsDirectory } from './utils.ts'
+
+/**
+ * Generate Brewfile contents for the selected, already installed and Mac App Store apps
+ */
+export function generateBrewfile(
+  apps: AppInfo[],
+  selectedApps: AppInfo[],
+): string {
+  const caskApps = uniqueByBrewName([
+    ...selectedApps,
+    ...apps.filter((app) => app.status === 'already-installed'),
+  ]).sort((a, b) => a.brewName.localeCompare(b.brewName))
+  const caskAppPaths = new Set(caskApps.map((app) => app.appPath))
+  const masApps = apps
+    .filter(
+      (app) =>
+        app.appStoreId !== undefined &&
+        app.fromMacAppStore === true &&
+        !caskAppPaths.has(app.appPath),
+    )
+    .sort((a, b) => a.originalName.localeCompare(b.originalName))
+
+  const lines = [
+    `# Brewfile generated by ${packageJson.name} v${packageJson.version} on ${new Date().toISOString().split('T')[0]}`,
+    '# Restore with: brew bundle install --file=<path to this file>',
+    '',
+  ]
+
+  if (masApps.length > 0) {
+    lines.push('brew "mas"')
+  }
+
+  for (const app of caskApps) {
+    const args = isInUserApplicationsDirectory(app.appPath)
+      ? `, args: { appdir: ${quote(USER_APPLICATIONS_DIR)} }`
+      : ''
+
+    lines.push(`cask ${quote(app.brewName)}${args} # ${describeSource(app)}`)
+  }
+
+  for (const app of masApps) {
+    lines.push(
+      `mas ${quote(app.originalName)}, id: ${app.appStoreId} # ${app.appPath}`,
+    )
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Write Brewfile contents to disk
+ */
+export async function writeBrewfile(
+  brewfilePath: string,
+  contents: string,
+): Promise<void> {
+  try {
+    await fs.mkdir(path.dirname(brewfilePath), { recursive: true })
+    await fs.writeFile(brewfilePath, contents, 'utf-8')
+  } catch (error) {
+    throw new ConvertAppsError(
+      `Failed to write Brewfile: ${brewfilePath}`,
+      ErrorType.UNKNOWN_ERROR,
+      error instanceof Error ? error : undefined,
+    )
+  }
+
+  consola.success(`Brewfile written to ${brewfilePath}`)
+}
+
+/**
+ * Describe where a cask entry came from and how confident the match is
+ */
+function describeSource(app: AppInfo): string {
+  const bestMatch = app.matches?.[0]
+
+  if (bestMatch) {
+    return `${app.appPath} (${bestMatch.matchType}, confidence ${bestMatch.confidence.toFixed(2)})`
+  }
+
+  return app.status === 'already-installed'
+    ? `${app.appPath} (already installed)`
+    : app.appPath
+}
+
+/**
+ * Quote a value for use in a Brewfile
+ */
+function quote(value: string): string {
+  return `"${value.replaceAll('\\', '\\\\').replaceAll('"', '\\"')}"`
+}
+
+/**
+ * Remove apps that map to the same cask
+ */
+function uniqueByBrewName(apps: AppInfo[]): AppInfo[] {
+  const seen = new Set<string>()
+
+  return apps.filter((app) => {
+    if (seen.has(app.brewName)) {
+      return false
+    }
+
+    seen.add(app.brewName)
+    return true
+  })
+}
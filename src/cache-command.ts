@@ -0,0 +1,162 @@
+/**
+ * The cache command: show, clear or refresh the local caches
+ */
+
+import { consola } from 'consola'
+import {
+  clearHomebrewCache,
+  getClientOptions,
+  HomebrewApiClient,
+} from './homebrew-api.ts'
+import type { CacheCommand, CacheInfo, CommandOptions } from './types.ts'
+import { ConvertAppsError, ErrorType } from './types.ts'
+import {
+  clearBundleIdCache,
+  getBundleIdCacheInfo,
+  pluralize,
+  setBundleIdCacheTtl,
+} from './utils.ts'
+
+const MS_PER_MINUTE = 60_000
+const MINUTES_PER_HOUR = 60
+const HOURS_PER_DAY = 24
+const BYTES_PER_KB = 1024
+
+/**
+ * Run a cache command with the resolved configuration
+ */
+export async function runCacheCommand(
+  command: CacheCommand,
+  options: CommandOptions,
+): Promise<void> {
+  const clientOptions = getClientOptions(options)
+
+  if (options.bundleIdCacheTtl !== undefined) {
+    setBundleIdCacheTtl(options.bundleIdCacheTtl)
+  }
+
+  if (command.action === 'info') {
+    const client = new HomebrewApiClient(clientOptions)
+
+    consola.log(
+      [
+        formatCacheInfo('Cask database', await client.getCacheInfo(), 'Casks'),
+        formatCacheInfo(
+          'Bundle IDs',
+          await getBundleIdCacheInfo(),
+          'Bundle IDs',
+        ),
+      ].join('\n\n'),
+    )
+    return
+  }
+
+  if (command.action === 'clear') {
+    if (command.casks) {
+      await clearHomebrewCache(clientOptions)
+      consola.success('Cleared the cask database cache')
+    }
+
+    if (command.bundleIds) {
+      await clearBundleIdCache()
+      consola.success('Cleared the bundle ID cache')
+    }
+
+    return
+  }
+
+  const client = new HomebrewApiClient({ ...clientOptions, offline: false })
+  const showSpinner = !options.json && process.stdout.isTTY === true
+  const result = await client.fetchAllCasks(true, showSpinner)
+
+  // A forced refresh only comes from the cache when the API couldn't be reached
+  if (!result.success || result.fromCache === true) {
+    throw new ConvertAppsError(
+      `Failed to refresh the cask database: ${result.error?.message ?? 'the Homebrew API could not be reached'}`,
+      ErrorType.NETWORK_ERROR,
+    )
+  }
+
+  const caskCount = result.data?.length ?? 0
+  consola.success(
+    `Refreshed the cask database cache with ${caskCount} ${pluralize('cask', caskCount)}`,
+  )
+}
+
+/**
+ * Format cache information for display
+ *
+ * @param title - Name of the cache
+ * @param info - Cache information
+ * @param entriesLabel - What the cache entries are, e.g. "Casks"
+ * @param now - Current time, for the age of the cache
+ */
+export function formatCacheInfo(
+  title: string,
+  info: CacheInfo,
+  entriesLabel: string,
+  now: number = Date.now(),
+): string {
+  const lines = [`${title} cache`, `  Path: ${info.path}`]
+
+  if (!info.exists) {
+    return [...lines, '  Not cached yet'].join('\n')
+  }
+
+  if (info.lastModified !== undefined) {
+    const freshness = info.isFresh ? 'fresh' : 'expired'
+    lines.push(
+      `  Age: ${formatAge(now - info.lastModified.getTime())} (${freshness})`,
+    )
+  }
+
+  if (info.size !== undefined) {
+    lines.push(`  Size: ${formatSize(info.size)}`)
+  }
+
+  if (info.entries !== undefined) {
+    lines.push(`  ${entriesLabel}: ${info.entries}`)
+  }
+
+  if (info.etag !== undefined) {
+    lines.push(`  ETag: ${info.etag}`)
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Format a duration as a rough age, e.g. "3 hours"
+ */
+function formatAge(milliseconds: number): string {
+  const minutes = Math.floor(milliseconds / MS_PER_MINUTE)
+  const hours = Math.floor(minutes / MINUTES_PER_HOUR)
+  const days = Math.floor(hours / HOURS_PER_DAY)
+
+  if (days > 0) {
+    return `${days} ${pluralize('day', days)}`
+  }
+
+  if (hours > 0) {
+    return `${hours} ${pluralize('hour', hours)}`
+  }
+
+  return `${minutes} ${pluralize('minute', minutes)}`
+}
+
+/**
+ * Format a file size in bytes, KB or MB
+ */
+function formatSize(bytes: number): string {
+  if (bytes < BYTES_PER_KB) {
+    return `${bytes} bytes`
+  }
+
+  const kilobytes = bytes / BYTES_PER_KB
+
+  if (kilobytes < BYTES_PER_KB) {
+    return `${kilobytes.toFixed(1)} KB`
+  }
+
+  return `${(kilobytes / BYTES_PER_KB).toFixed(1)} MB`
+}
@@ -0,0 +1,168 @@
+/**
+ * Compact on-disk form of the cask database with its prebuilt search index
+ */
+
+import { AppMatcher } from './app-matcher.ts'
+import type {
+  CaskIndex,
+  FuzzyCandidate,
+  HomebrewCask,
+  SerializedCaskIndex,
+} from './types.ts'
+
+/**
+ * Slim casks with the index of the full casks they came from
+ */
+interface SlimCaskData {
+  /** Casks with only the fields used for matching and display */
+  data: HomebrewCask[]
+  /** Search index, referring to casks by their position in the data */
+  index: SerializedCaskIndex
+}
+
+/**
+ * Check whether an uninstall value is a bundle ID or a list of them
+ */
+function isBundleIdValue(value: unknown): value is string | string[] {
+  return (
+    typeof value === 'string' ||
+    (Array.isArray(value) && value.every((item) => typeof item === 'string'))
+  )
+}
+
+/**
+ * Keep only the cask fields the matcher and the UI use
+ *
+ * Artifacts are reduced to app bundles and the bundle IDs of uninstall steps.
+ * Bundle IDs that are only found in zap paths are kept in the stored index.
+ */
+export function slimCask(cask: HomebrewCask): HomebrewCask {
+  const artifacts: HomebrewCask['artifacts'] = []
+
+  for (const artifact of cask.artifacts) {
+    const uninstall = artifact.uninstall
+      ?.map((step) => ({
+        ...(isBundleIdValue(step.launchctl) && { launchctl: step.launchctl }),
+        ...(isBundleIdValue(step.quit) && { quit: step.quit }),
+      }))
+      .filter((step) => Object.keys(step).length > 0)
+
+    if (artifact.app !== undefined || (uninstall && uninstall.length > 0)) {
+      artifacts.push({
+        ...(artifact.app !== undefined && { app: artifact.app }),
+        ...(uninstall && uninstall.length > 0 && { uninstall }),
+      })
+    }
+  }
+
+  return {
+    artifacts,
+    ...(cask.deprecated !== undefined && { deprecated: cask.deprecated }),
+    desc: cask.desc,
+    ...(cask.disabled !== undefined && { disabled: cask.disabled }),
+    full_token: cask.full_token,
+    homepage: cask.homepage,
+    name: cask.name,
+    ...(cask.old_tokens !== undefined && { old_tokens: cask.old_tokens }),
+    tap: cask.tap,
+    token: cask.token,
+    ...(cask.version !== undefined && { version: cask.version }),
+  }
+}
+
+/**
+ * Slim down casks and index them for the on-disk cache
+ */
+export function createSlimCaskData(casks: HomebrewCask[]): SlimCaskData {
+  // Index the full casks so that bundle IDs from zap paths are kept
+  const index = new AppMatcher().buildIndex(casks)
+
+  return {
+    data: casks.map((cask) => slimCask(cask)),
+    index: serializeCaskIndex(index, casks),
+  }
+}
+
+/**
+ * Turn a search index into plain JSON, referring to casks by position
+ */
+export function serializeCaskIndex(
+  index: CaskIndex,
+  casks: HomebrewCask[],
+): SerializedCaskIndex {
+  const positions = new Map(casks.map((cask, position) => [cask, position]))
+  const toPosition = (cask: HomebrewCask) => positions.get(cask) ?? -1
+  const serializeList = (map: Map<string, HomebrewCask[]>) =>
+    [...map].map(([key, list]): [string, number[]] => [
+      key,
+      list.map(toPosition),
+    ])
+  const serializeSingle = (map: Map<string, HomebrewCask>) =>
+    [...map].map(([key, cask]): [string, number] => [key, toPosition(cask)])
+
+  return {
+    byAppBundle: serializeList(index.byAppBundle),
+    byBundleId: serializeList(index.byBundleId),
+    byNormalizedName: serializeList(index.byNormalizedName),
+    byOldToken: serializeSingle(index.byOldToken),
+    byToken: serializeSingle(index.byToken),
+    fuzzyCandidates: [...index.fuzzyCandidates].map(
+      ([key, candidates]): [string, [number, string, string][]] => [
+        key,
+        candidates.map((candidate) => [
+          toPosition(candidate.cask),
+          candidate.source,
+          candidate.value,
+        ]),
+      ],
+    ),
+  }
+}
+
+/**
+ * Rebuild a search index from its plain JSON form
+ *
+ * Returns undefined if the index refers to casks that aren't there.
+ */
+export function deserializeCaskIndex(
+  serialized: SerializedCaskIndex,
+  casks: HomebrewCask[],
+): CaskIndex | undefined {
+  const toCask = (position: number) => {
+    const cask = casks[position]
+
+    if (cask === undefined) {
+      throw new RangeError(`No cask at position ${position}`)
+    }
+
+    return cask
+  }
+  const deserializeList = (entries: [string, number[]][]) =>
+    new Map(entries.map(([key, list]) => [key, list.map(toCask)]))
+  const deserializeSingle = (entries: [string, number][]) =>
+    new Map(entries.map(([key, position]) => [key, toCask(position)]))
+
+  try {
+    return {
+      byAppBundle: deserializeList(serialized.byAppBundle),
+      byBundleId: deserializeList(serialized.byBundleId),
+      byNormalizedName: deserializeList(serialized.byNormalizedName),
+      byOldToken: deserializeSingle(serialized.byOldToken),
+      byToken: deserializeSingle(serialized.byToken),
+      fuzzyCandidates: new Map(
+        serialized.fuzzyCandidates.map(([key, candidates]) => [
+          key,
+          candidates.map(
+            ([position, source, value]): FuzzyCandidate => ({
+              cask: toCask(position),
+              source,
+              value,
+            }),
+          ),
+        ]),
+      ),
+    }
+  } catch {
+    return
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Runtime validation of cask data from the Homebrew API and the cache
+ */
+
+import { consola } from 'consola'
+import type { CaskCacheEntry, HomebrewCask } from './types.ts'
+import { ConvertAppsError, ErrorType } from './types.ts'
+import { pluralize } from './utils.ts'
+
+/**
+ * Check for a single field and what it should hold, for error messages
+ */
+interface FieldRule {
+  /** What a valid value is, e.g. "a string" */
+  expected: string
+  /** Whether a value is valid */
+  isValid: (value: unknown) => boolean
+}
+
+const isString = (value: unknown) => typeof value === 'string'
+const isBoolean = (value: unknown) => typeof value === 'boolean'
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+const isStringList = (value: unknown) =>
+  Array.isArray(value) && value.every(isString)
+const isList = (value: unknown) => Array.isArray(value)
+const optional = (isValid: (value: unknown) => boolean) => (value: unknown) =>
+  value === undefined || isValid(value)
+
+/**
+ * Artifacts the matcher reads must be lists; the entries themselves are checked when indexing
+ */
+const ARTIFACT_RULES: Record<string, FieldRule> = {
+  app: { expected: 'a list', isValid: optional(isList) },
+  uninstall: { expected: 'a list', isValid: optional(isList) },
+  zap: { expected: 'a list', isValid: optional(isList) },
+}
+
+const CASK_RULES: Record<string, FieldRule> = {
+  artifacts: {
+    expected: 'a list of artifacts',
+    isValid: (value) =>
+      Array.isArray(value) &&
+      value.every(
+        (artifact) =>
+          isRecord(artifact) && findProblem(artifact, ARTIFACT_RULES) === null,
+      ),
+  },
+  deprecated: { expected: 'a boolean', isValid: optional(isBoolean) },
+  // The API sends null for casks without a description, see normalizeCask
+  desc: {
+    expected: 'a string',
+    isValid: (value) => value === null || isString(value),
+  },
+  disabled: { expected: 'a boolean', isValid: optional(isBoolean) },
+  full_token: { expected: 'a string', isValid: isString },
+  homepage: { expected: 'a string', isValid: isString },
+  name: { expected: 'a list of strings', isValid: isStringList },
+  old_tokens: {
+    expected: 'a list of strings',
+    isValid: optional(isStringList),
+  },
+  tap: { expected: 'a string', isValid: isString },
+  token: {
+    expected: 'a non-empty string',
+    isValid: (value) => isString(value) && value !== '',
+  },
+  version: { expected: 'a string', isValid: optional(isString) },
+}
+
+const SERIALIZED_INDEX_RULES: Record<string, FieldRule> = {
+  byAppBundle: { expected: 'a list', isValid: isList },
+  byBundleId: { expected: 'a list', isValid: isList },
+  byNormalizedName: { expected: 'a list', isValid: isList },
+  byOldToken: { expected: 'a list', isValid: isList },
+  byToken: { expected: 'a list', isValid: isList },
+  fuzzyCandidates: { expected: 'a list', isValid: isList },
+}
+
+const CACHE_ENTRY_RULES: Record<string, FieldRule> = {
+  data: {
+    expected: 'a list of valid casks',
+    isValid: (value) =>
+      Array.isArray(value) &&
+      value.every((cask) => getCaskProblem(cask) === null),
+  },
+  etag: { expected: 'a string', isValid: optional(isString) },
+  index: {
+    expected: 'a serialized search index',
+    isValid: optional(
+      (value) =>
+        isRecord(value) && findProblem(value, SERIALIZED_INDEX_RULES) === null,
+    ),
+  },
+  jws: {
+    expected: 'a JWS document',
+    isValid: optional(
+      (value) =>
+        isRecord(value) &&
+        isString(value['payload']) &&
+        isList(value['signatures']),
+    ),
+  },
+  lastModified: { expected: 'a string', isValid: optional(isString) },
+  timestamp: { expected: 'a number', isValid: Number.isFinite },
+  version: { expected: 'a string', isValid: isString },
+}
+
+/**
+ * Describe the first field of a record that breaks its rules, or null if none does
+ */
+function findProblem(
+  record: Record<string, unknown>,
+  rules: Record<string, FieldRule>,
+): null | string {
+  for (const [field, rule] of Object.entries(rules)) {
+    if (!rule.isValid(record[field])) {
+      return `${field} must be ${rule.expected}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Describe what's wrong with a cask, or return null if it's valid
+ */
+function getCaskProblem(value: unknown): null | string {
+  if (!isRecord(value)) {
+    return 'cask must be an object'
+  }
+
+  return findProblem(value, CASK_RULES)
+}
+
+/**
+ * Keep the valid casks of a cask list, warning about the ones that are dropped
+ *
+ * @param data - Parsed cask list
+ * @param source - Where the data came from, for messages
+ * @throws {ConvertAppsError} If the data isn't a list at all
+ */
+export function validateCasks(data: unknown, source: string): HomebrewCask[] {
+  if (!Array.isArray(data)) {
+    throw new ConvertAppsError(
+      `Cask data from ${source} must be a list of casks`,
+      ErrorType.INVALID_INPUT,
+    )
+  }
+
+  const casks: HomebrewCask[] = []
+  let droppedCount = 0
+
+  for (const [position, cask] of data.entries()) {
+    const problem = getCaskProblem(cask)
+
+    if (problem === null) {
+      casks.push(normalizeCask(cask as HomebrewCask))
+      continue
+    }
+
+    droppedCount++
+    const token = isRecord(cask) && isString(cask['token']) ? cask['token'] : ''
+    consola.debug(
+      `Dropped malformed cask ${token === '' ? `at position ${position}` : token}: ${problem}`,
+    )
+  }
+
+  if (droppedCount > 0) {
+    consola.warn(
+      `Dropped ${droppedCount} malformed ${pluralize('cask', droppedCount)} from ${source}`,
+    )
+  }
+
+  return casks
+}
+
+/**
+ * Check the structure of a parsed cache entry
+ *
+ * @throws {ConvertAppsError} If the entry is invalid, so that it gets fetched again
+ */
+export function validateCacheEntry(data: unknown): CaskCacheEntry {
+  const problem = isRecord(data)
+    ? findProblem(data, CACHE_ENTRY_RULES)
+    : 'cache entry must be an object'
+
+  if (problem !== null) {
+    throw new ConvertAppsError(
+      `Invalid cask cache: ${problem}`,
+      ErrorType.INVALID_INPUT,
+    )
+  }
+
+  const cacheEntry = data as CaskCacheEntry
+
+  return { ...cacheEntry, data: cacheEntry.data.map(normalizeCask) }
+}
+
+/**
+ * Turn a null description into an empty one, so that the cask matches its type
+ */
+function normalizeCask(cask: HomebrewCask): HomebrewCask {
+  return (cask.desc as null | string) === null ? { ...cask, desc: '' } : cask
+}
@@ -7,8 +7,18 @@ import { consola } from 'consola'
 import { box, colors } from 'consola/utils'
 import terminalLink from 'terminal-link'
 import packageJson from '../package.json' with { type: 'json' }
-import { MESSAGES } from './constants.ts'
-import type { CommandOptions } from './types.ts'
+import { formatResolvedConfig, resolveConfig } from './config.ts'
+import {
+  DEFAULT_APPLICATIONS_DIRS,
+  MESSAGES,
+  SIGNATURE_VERIFICATION_MODES,
+} from './constants.ts'
+import type {
+  CacheCommand,
+  CommandOptions,
+  SignatureVerificationMode,
+} from './types.ts'
+import { ConvertAppsError } from './types.ts'
 import { generateLogo, inlineCode } from './utils.ts'
 
 /**
@@ -20,6 +30,18 @@ const VERSION_REGEX = /(\d+)/
  * Default matching threshold for fuzzy matching
  */
 const DEFAULT_MATCHING_THRESHOLD = 0.6
+const DEFAULT_API_RETRIES = 3
+
+/**
+ * Default cache TTLs in hours
+ */
+const DEFAULT_CACHE_TTL_HOURS = 24
+const DEFAULT_BUNDLE_ID_CACHE_TTL_HOURS = 168
+
+/**
+ * Actions of the cache command
+ */
+const CACHE_ACTIONS = ['clear', 'info', 'refresh'] as const
 
 /**
  * Standard exit codes
@@ -42,7 +64,7 @@ export function createProgram(): Command {
   program
     .option(
       '-i, --ignore <apps...>',
-      'ignore specific applications (can be used multiple times)',
+      'ignore apps by name, cask token, bundle ID, wildcard or /regex/ pattern',
       [],
     )
     .option(
@@ -53,8 +75,8 @@ export function createProgram(): Command {
     .option('-V, --verbose', 'enable verbose output', false)
     .option(
       '--applications-dir <path>',
-      'specify custom Applications directory path',
-      '/Applications',
+      `scan a custom Applications directory, repeat to scan several (default: ${DEFAULT_APPLICATIONS_DIRS.join(', ')})`,
+      collectValues,
     )
     .option(
       '--force-refresh-cache',
@@ -66,6 +88,63 @@ export function createProgram(): Command {
       'use individual brew commands instead of the Homebrew API (much slower)',
       false,
     )
+    .option(
+      '--offline',
+      "only use locally cached cask data, including Homebrew's own cache",
+      false,
+    )
+    .option(
+      '--api-url <url>',
+      'Homebrew API base URL, e.g. a mirror (default: $HOMEBREW_API_DOMAIN or https://formulae.brew.sh/api)',
+      (value) => {
+        if (!URL.canParse(value)) {
+          throw new Error('API URL must be a valid URL')
+        }
+
+        return value
+      },
+    )
+    .option(
+      '--api-retries <count>',
+      'number of times to retry a failed cask database download',
+      (value) => parseWholeNumber(value, 'API retries'),
+      DEFAULT_API_RETRIES,
+    )
+    .option(
+      '--cache-ttl <hours>',
+      'hours the cask database cache stays fresh',
+      (value) => parseWholeNumber(value, 'Cache TTL'),
+      DEFAULT_CACHE_TTL_HOURS,
+    )
+    .option(
+      '--bundle-id-cache-ttl <hours>',
+      'hours cached app bundle IDs stay valid',
+      (value) => parseWholeNumber(value, 'Bundle ID cache TTL'),
+      DEFAULT_BUNDLE_ID_CACHE_TTL_HOURS,
+    )
+    .option(
+      '--stale-while-revalidate',
+      'use an expired cask cache right away and refresh it in the background',
+      false,
+    )
+    .option(
+      '--verify-signatures <mode>',
+      `verify the signature of Homebrew API data: ${SIGNATURE_VERIFICATION_MODES.join(', ')}`,
+      (value) => {
+        const mode = SIGNATURE_VERIFICATION_MODES.find(
+          (candidate) => candidate === value,
+        )
+
+        if (mode === undefined) {
+          throw new Error(
+            `Signature verification mode must be one of: ${SIGNATURE_VERIFICATION_MODES.join(', ')}`,
+          )
+        }
+
+        return mode
+      },
+      'off',
+    )
     .option(
       '--matching-threshold <threshold>',
       'confidence threshold for fuzzy matching (0.0-1.0)',
@@ -80,11 +159,60 @@ export function createProgram(): Command {
       },
       DEFAULT_MATCHING_THRESHOLD,
     )
+    .option(
+      '--mappings <file>',
+      'JSON file mapping app names, bundle IDs or patterns to cask tokens',
+    )
     .option(
       '--ignore-app-store',
-      'ignore apps installed via Mac App Store (requires mas)',
+      'ignore apps installed via Mac App Store',
+      false,
+    )
+    .option('-y, --yes', 'select all available apps without prompting', false)
+    .option(
+      '--select <apps...>',
+      'select specific apps by name or cask token without prompting',
+      [],
+    )
+    .option(
+      '--deselect <patterns...>',
+      'leave apps matching these names or wildcard patterns unselected',
+      [],
+    )
+    .option(
+      '--json',
+      'print a machine-readable JSON report of the run to stdout',
       false,
     )
+    .option('--report-file <path>', 'write a JSON report of the run to a file')
+    .option(
+      '--brewfile <path>',
+      'export the conversion plan as a Brewfile instead of installing',
+    )
+    .option(
+      '--migrate-app-store',
+      'list Mac App Store apps that a cask can replace instead of installing',
+      false,
+    )
+    .option(
+      '--migration-script <path>',
+      'with --migrate-app-store, write the migration commands to a shell script for review',
+    )
+
+  program
+    .command('config')
+    .description(
+      'print the effective configuration and where each value comes from',
+    )
+    .action(() => {
+      // Handled in parseArguments once the configuration has been resolved
+    })
+
+  addCacheCommand(program)
+
+  program.action(() => {
+    // Run the conversion; the options are read by parseArguments
+  })
 
   program.addHelpText(
     'after',
@@ -96,18 +224,32 @@ Examples:
   $ npx ${packageJson.name}@latest --ignore "Adobe Photoshop" "Microsoft Word" google-chrome
   $ npx ${packageJson.name}@latest --ignore-app-store
   $ npx ${packageJson.name}@latest --applications-dir "custom/path/to/Applications"
+  $ npx ${packageJson.name}@latest --applications-dir /Applications --applications-dir /Volumes/Apps
   $ npx ${packageJson.name}@latest --force-refresh-cache
   $ npx ${packageJson.name}@latest --matching-threshold 0.8
   $ npx ${packageJson.name}@latest --fallback-to-cli
+  $ npx ${packageJson.name}@latest --offline
+  $ npx ${packageJson.name}@latest --verify-signatures strict
+  $ npx ${packageJson.name}@latest --api-url https://homebrew-mirror.example.com/api
+  $ npx ${packageJson.name}@latest --mappings ~/my-mappings.json
+  $ npx ${packageJson.name}@latest --yes --deselect "Microsoft *"
+  $ npx ${packageJson.name}@latest --select google-chrome "Visual Studio Code"
+  $ npx ${packageJson.name}@latest --dry-run --yes --json > report.json
+  $ npx ${packageJson.name}@latest --yes --brewfile ~/Brewfile
+  $ npx ${packageJson.name}@latest --migrate-app-store --migration-script ~/migrate.sh
+  $ npx ${packageJson.name}@latest config
+  $ npx ${packageJson.name}@latest cache info
+  $ npx ${packageJson.name}@latest cache clear --bundle-ids
+  $ npx ${packageJson.name}@latest --stale-while-revalidate --cache-ttl 72
 
 Notes:
   • The tool will scan your Applications directory for .app bundles
-  • It fetches the Homebrew cask database for fast batch matching
+  • It fetches the Homebrew cask database for fast batch matching, reusing Homebrew's own cache when it's recent
   • You can interactively select which apps to install via Homebrew
   • Original .app files are taken over by Homebrew's ${inlineCode('--adopt')} flag
 
 Requirements:
-  • Mac App Store detection requires 'mas' CLI tool: ${terminalLink(colors.blue('https://github.com/mas-cli/mas'), 'https://github.com/mas-cli/mas')}
+  • Mac App Store IDs require the 'mas' CLI tool: ${terminalLink(colors.blue('https://github.com/mas-cli/mas'), 'https://github.com/mas-cli/mas')}
   • Install with: brew install mas
 `,
   )
@@ -180,25 +322,138 @@ export function parseArguments(argv: string[] = process.argv): CommandOptions {
     validateApplicationsDirectory(options)
     const ignore = processIgnoreList(options)
     const parsedOptions = buildCommandOptions(options, ignore)
+    const config = resolveConfig(parsedOptions, getCliOptionKeys(program))
+
+    if (program.args[0] === 'config') {
+      consola.log(formatResolvedConfig(config))
+      process.exit(0)
+    }
+
+    const cacheCommand = getCacheCommand(program)
 
-    return parsedOptions
+    return cacheCommand ? { ...config.options, cacheCommand } : config.options
   } catch (error: unknown) {
     handleParsingError(error)
   }
 }
 
+/**
+ * Add the cache command and its actions
+ */
+function addCacheCommand(program: Command): void {
+  const cache = program
+    .command('cache')
+    .description('inspect, clear or refresh the local caches')
+
+  cache
+    .command('info')
+    .description('show the location, age and size of the caches')
+    .action(() => {
+      // Run by index.ts with the resolved configuration
+    })
+
+  cache
+    .command('clear')
+    .description('delete the caches, or only the one given')
+    .option('--casks', 'only clear the cask database cache', false)
+    .option('--bundle-ids', 'only clear the bundle ID cache', false)
+    .action(() => {
+      // Run by index.ts with the resolved configuration
+    })
+
+  cache
+    .command('refresh')
+    .description('download the cask database again')
+    .action(() => {
+      // Run by index.ts with the resolved configuration
+    })
+}
+
+/**
+ * Get the cache command to run, if one was given
+ */
+function getCacheCommand(program: Command): CacheCommand | undefined {
+  const cache = program.commands.find((command) => command.name() === 'cache')
+  const action = CACHE_ACTIONS.find((name) => name === cache?.args[0])
+
+  if (
+    program.args[0] !== 'cache' ||
+    cache === undefined ||
+    action === undefined
+  ) {
+    return
+  }
+
+  const actionOptions =
+    cache.commands.find((command) => command.name() === action)?.opts() ?? {}
+  const casks = Boolean(actionOptions['casks'])
+  const bundleIds = Boolean(actionOptions['bundleIds'])
+
+  // Without a choice, clear applies to both caches
+  return {
+    action,
+    bundleIds: bundleIds || !casks,
+    casks: casks || !bundleIds,
+  }
+}
+
+/**
+ * Parse a non-negative whole number option
+ */
+function parseWholeNumber(value: string, name: string): number {
+  const number = Number(value)
+
+  if (!Number.isInteger(number) || number < 0) {
+    throw new Error(`${name} must be a non-negative whole number`)
+  }
+
+  return number
+}
+
 /**
  * Validate applications directory option
  */
 function validateApplicationsDirectory(options: Record<string, unknown>): void {
+  const directories = options['applicationsDir']
+
+  if (directories === undefined) {
+    return
+  }
+
   if (
-    options['applicationsDir'] !== undefined &&
-    typeof options['applicationsDir'] !== 'string'
+    !Array.isArray(directories) ||
+    directories.some(
+      (directory) => typeof directory !== 'string' || directory.trim() === '',
+    )
   ) {
     throw new Error('Applications directory must be a valid path')
   }
 }
 
+/**
+ * Get the CommandOptions keys of the options given on the command line
+ */
+function getCliOptionKeys(program: Command): Set<string> {
+  const keys = new Set<string>()
+
+  for (const option of program.options) {
+    const name = option.attributeName()
+
+    if (program.getOptionValueSource(name) === 'cli') {
+      keys.add(name === 'applicationsDir' ? 'applicationsDirs' : name)
+    }
+  }
+
+  return keys
+}
+
+/**
+ * Collect the values of an option that can be given multiple times
+ */
+function collectValues(value: string, previous: string[] = []): string[] {
+  return [...previous, value]
+}
+
 /**
  * Process and validate ignore list
  */
@@ -223,6 +478,23 @@ function processIgnoreList(options: Record<string, unknown>): string[] {
   return ignore.map((app: string) => app.trim())
 }
 
+/**
+ * Process and validate a list of app names or patterns
+ */
+function processNameList(value: unknown, optionName: string): string[] {
+  const names = Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : []
+
+  for (const name of names) {
+    if (name.trim().length === 0) {
+      throw new Error(`Invalid app name in --${optionName} list: "${name}"`)
+    }
+  }
+
+  return names.map((name) => name.trim())
+}
+
 /**
  * Build CommandOptions object from parsed options
  */
@@ -231,16 +503,23 @@ function buildCommandOptions(
   ignore: string[],
 ): CommandOptions {
   const parsedOptions: CommandOptions = {
-    applicationsDir:
-      typeof options['applicationsDir'] === 'string'
-        ? options['applicationsDir']
-        : '/Applications',
+    applicationsDirs: Array.isArray(options['applicationsDir'])
+      ? (options['applicationsDir'] as string[])
+      : [...DEFAULT_APPLICATIONS_DIRS],
+    deselect: processNameList(options['deselect'], 'deselect'),
     dryRun: Boolean(options['dryRun']),
     fallbackToCli: Boolean(options['fallbackToCli']),
     forceRefreshCache: Boolean(options['forceRefreshCache']),
     ignore,
     ignoreAppStore: Boolean(options['ignoreAppStore']),
+    json: Boolean(options['json']),
+    migrateAppStore: Boolean(options['migrateAppStore']),
+    offline: Boolean(options['offline']),
+    select: processNameList(options['select'], 'select'),
+    staleWhileRevalidate: Boolean(options['staleWhileRevalidate']),
     verbose: Boolean(options['verbose']),
+    verifySignatures: options['verifySignatures'] as SignatureVerificationMode,
+    yes: Boolean(options['yes']),
   }
 
   // Add optional properties only if they exist
@@ -248,6 +527,38 @@ function buildCommandOptions(
     parsedOptions.matchingThreshold = options['matchingThreshold']
   }
 
+  if (typeof options['apiRetries'] === 'number') {
+    parsedOptions.apiRetries = options['apiRetries']
+  }
+
+  if (typeof options['cacheTtl'] === 'number') {
+    parsedOptions.cacheTtl = options['cacheTtl']
+  }
+
+  if (typeof options['bundleIdCacheTtl'] === 'number') {
+    parsedOptions.bundleIdCacheTtl = options['bundleIdCacheTtl']
+  }
+
+  if (typeof options['apiUrl'] === 'string') {
+    parsedOptions.apiUrl = options['apiUrl']
+  }
+
+  if (typeof options['mappings'] === 'string') {
+    parsedOptions.mappings = options['mappings']
+  }
+
+  if (typeof options['reportFile'] === 'string') {
+    parsedOptions.reportFile = options['reportFile']
+  }
+
+  if (typeof options['brewfile'] === 'string') {
+    parsedOptions.brewfile = options['brewfile']
+  }
+
+  if (typeof options['migrationScript'] === 'string') {
+    parsedOptions.migrationScript = options['migrationScript']
+  }
+
   return parsedOptions
 }
 
@@ -265,6 +576,11 @@ function handleParsingError(error: unknown): never {
     process.exit(0)
   }
 
+  if (error instanceof ConvertAppsError) {
+    consola.error(`Configuration error: ${error.message}`)
+    process.exit(1)
+  }
+
   // Handle parsing errors
   const errorMessage = typedError.message ?? 'Unknown error'
   consola.error(`Command line parsing error: ${errorMessage}`)
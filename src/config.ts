@@ -0,0 +1,348 @@
+/**
+ * Layered configuration: argv > environment > project config > user config > defaults
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { SIGNATURE_VERIFICATION_MODES } from './constants.ts'
+import type { CommandOptions } from './types.ts'
+import { ConvertAppsError, ErrorType } from './types.ts'
+import { findFileInParentDirectories, getUserConfigDirectory } from './utils.ts'
+
+/**
+ * Name of the project config file, looked up from the working directory upwards
+ */
+const PROJECT_CONFIG_FILE_NAME = '.convertappsrc'
+
+/**
+ * Name of the user config file in the user config directory
+ */
+const USER_CONFIG_FILE_NAME = 'config.json'
+
+/**
+ * Prefix of environment variables that set options
+ */
+const ENV_PREFIX = 'CONVERT_APPS_'
+
+const CAMEL_CASE_BOUNDARY_REGEX = /([A-Z])/g
+const TRUE_VALUES = new Set(['1', 'true', 'yes'])
+const FALSE_VALUES = new Set(['0', 'false', 'no'])
+
+/**
+ * Kind of value each option holds, used to validate config files and env vars
+ */
+type ConfigValueKind =
+  | 'boolean'
+  | 'count'
+  | 'list'
+  | 'path'
+  | 'threshold'
+  | 'url'
+  | 'verification-mode'
+
+/**
+ * Options that can be configured, leaving out the subcommand to run
+ */
+type ConfigKey = Exclude<keyof CommandOptions, 'cacheCommand'>
+
+const CONFIG_SCHEMA: Record<ConfigKey, ConfigValueKind> = {
+  apiRetries: 'count',
+  apiUrl: 'url',
+  applicationsDirs: 'list',
+  brewfile: 'path',
+  bundleIdCacheTtl: 'count',
+  cacheTtl: 'count',
+  deselect: 'list',
+  dryRun: 'boolean',
+  fallbackToCli: 'boolean',
+  forceRefreshCache: 'boolean',
+  ignore: 'list',
+  ignoreAppStore: 'boolean',
+  json: 'boolean',
+  mappings: 'path',
+  matchingThreshold: 'threshold',
+  migrateAppStore: 'boolean',
+  migrationScript: 'path',
+  offline: 'boolean',
+  reportFile: 'path',
+  select: 'list',
+  staleWhileRevalidate: 'boolean',
+  verbose: 'boolean',
+  verifySignatures: 'verification-mode',
+  yes: 'boolean',
+}
+
+/**
+ * Effective options together with where each value came from
+ */
+interface ResolvedConfig {
+  /** Merged options */
+  options: CommandOptions
+  /** Human-readable source of each option value */
+  sources: Partial<Record<ConfigKey, string>>
+}
+
+/**
+ * Where config files and environment variables are read from
+ */
+interface ConfigContext {
+  /** Directory to start looking for a project config file */
+  cwd: string
+  /** Environment variables */
+  env: NodeJS.ProcessEnv
+}
+
+/**
+ * Set of option values from a single source
+ */
+interface ConfigLayer {
+  /** Human-readable source of the values */
+  source: string
+  /** Option values set by this source */
+  values: Partial<CommandOptions>
+}
+
+/**
+ * Merge command line options over environment variables, config files and defaults
+ *
+ * @param argvOptions - Options from the command line, with defaults filled in
+ * @param cliKeys - Options that were actually given on the command line
+ * @param context - Working directory and environment to read config from
+ */
+export function resolveConfig(
+  argvOptions: CommandOptions,
+  cliKeys: Set<string>,
+  context: ConfigContext = { cwd: process.cwd(), env: process.env },
+): ResolvedConfig {
+  const options = { ...argvOptions }
+  const sources: Partial<Record<ConfigKey, string>> = {}
+
+  for (const key of Object.keys(argvOptions) as ConfigKey[]) {
+    sources[key] = 'default'
+  }
+
+  const argvValues = Object.fromEntries(
+    Object.entries(argvOptions).filter(([key]) => cliKeys.has(key)),
+  ) as Partial<CommandOptions>
+  const layers: ConfigLayer[] = [
+    ...readConfigFileLayers(context),
+    ...readEnvironmentLayers(context.env),
+    { source: 'command line', values: argvValues },
+  ]
+
+  for (const layer of layers) {
+    Object.assign(options, layer.values)
+
+    for (const key of Object.keys(layer.values) as ConfigKey[]) {
+      sources[key] = layer.source
+    }
+  }
+
+  return { options, sources }
+}
+
+/**
+ * Format the effective configuration for display, one option per line
+ */
+export function formatResolvedConfig(config: ResolvedConfig): string {
+  return (Object.keys(CONFIG_SCHEMA) as ConfigKey[])
+    .filter((key) => config.options[key] !== undefined)
+    .map(
+      (key) =>
+        `${key}: ${JSON.stringify(config.options[key])} (${config.sources[key] ?? 'default'})`,
+    )
+    .join('\n')
+}
+
+/**
+ * Find the project config file by walking up from a directory
+ */
+export function findProjectConfigFile(
+  startDirectory: string,
+): string | undefined {
+  return findFileInParentDirectories(PROJECT_CONFIG_FILE_NAME, startDirectory)
+}
+
+/**
+ * Validate option values from a config file or the environment
+ */
+export function validateConfigValues(
+  data: unknown,
+  origin: string,
+): Partial<CommandOptions> {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new ConvertAppsError(
+      `Configuration in ${origin} must be a JSON object`,
+      ErrorType.INVALID_INPUT,
+    )
+  }
+
+  const values: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(data)) {
+    if (!Object.hasOwn(CONFIG_SCHEMA, key)) {
+      throw new ConvertAppsError(
+        `Unknown configuration key "${key}" in ${origin}`,
+        ErrorType.INVALID_INPUT,
+      )
+    }
+
+    if (!isValidValue(CONFIG_SCHEMA[key as ConfigKey], value)) {
+      throw new ConvertAppsError(
+        `Invalid value for "${key}" in ${origin}: ${JSON.stringify(value)}`,
+        ErrorType.INVALID_INPUT,
+      )
+    }
+
+    values[key] = value
+  }
+
+  return values as Partial<CommandOptions>
+}
+
+/**
+ * Read the user and project config files, lowest precedence first
+ */
+function readConfigFileLayers(context: ConfigContext): ConfigLayer[] {
+  const userConfigFile = path.join(
+    getUserConfigDirectory(context.env),
+    USER_CONFIG_FILE_NAME,
+  )
+  const projectConfigFile = findProjectConfigFile(context.cwd)
+  const layers: ConfigLayer[] = []
+
+  if (fs.existsSync(userConfigFile)) {
+    layers.push({
+      source: `user config ${userConfigFile}`,
+      values: readConfigFile(userConfigFile),
+    })
+  }
+
+  if (projectConfigFile !== undefined) {
+    layers.push({
+      source: `project config ${projectConfigFile}`,
+      values: readConfigFile(projectConfigFile),
+    })
+  }
+
+  return layers
+}
+
+/**
+ * Read and validate a JSON config file
+ */
+function readConfigFile(filePath: string): Partial<CommandOptions> {
+  let data: unknown
+
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+  } catch (error) {
+    throw new ConvertAppsError(
+      `Failed to read configuration file: ${filePath}`,
+      ErrorType.INVALID_INPUT,
+      error instanceof Error ? error : undefined,
+    )
+  }
+
+  return validateConfigValues(data, filePath)
+}
+
+/**
+ * Read options from CONVERT_APPS_* environment variables, one layer per variable
+ */
+function readEnvironmentLayers(env: NodeJS.ProcessEnv): ConfigLayer[] {
+  const keysByVariable = new Map(
+    (Object.keys(CONFIG_SCHEMA) as ConfigKey[]).map((key) => [
+      getEnvironmentVariableName(key),
+      key,
+    ]),
+  )
+  const layers: ConfigLayer[] = []
+
+  for (const [variable, rawValue] of Object.entries(env)) {
+    if (!variable.startsWith(ENV_PREFIX) || rawValue === undefined) {
+      continue
+    }
+
+    const key = keysByVariable.get(variable)
+
+    if (key === undefined) {
+      throw new ConvertAppsError(
+        `Unknown configuration environment variable ${variable}`,
+        ErrorType.INVALID_INPUT,
+      )
+    }
+
+    layers.push({
+      source: `environment ${variable}`,
+      values: validateConfigValues(
+        { [key]: parseEnvironmentValue(CONFIG_SCHEMA[key], rawValue) },
+        `environment variable ${variable}`,
+      ),
+    })
+  }
+
+  return layers
+}
+
+/**
+ * Name of the environment variable for an option, e.g. CONVERT_APPS_DRY_RUN
+ */
+function getEnvironmentVariableName(key: ConfigKey): string {
+  return `${ENV_PREFIX}${key.replaceAll(CAMEL_CASE_BOUNDARY_REGEX, '_$1').toUpperCase()}`
+}
+
+/**
+ * Convert an environment variable string to an option value
+ *
+ * Values that can't be converted are returned as-is so validation reports them.
+ */
+function parseEnvironmentValue(kind: ConfigValueKind, value: string): unknown {
+  const normalizedValue = value.trim().toLowerCase()
+
+  if (kind === 'boolean') {
+    if (TRUE_VALUES.has(normalizedValue)) return true
+    if (FALSE_VALUES.has(normalizedValue)) return false
+    return value
+  }
+
+  if (kind === 'list') {
+    return value
+      .split(',')
+      .map((item) => item.trim())
+      .filter((item) => item !== '')
+  }
+
+  if (kind === 'count' || kind === 'threshold') {
+    const number = Number(value)
+    return value.trim() === '' || Number.isNaN(number) ? value : number
+  }
+
+  return value
+}
+
+/**
+ * Check that a value fits the kind of option it's for
+ */
+function isValidValue(kind: ConfigValueKind, value: unknown): boolean {
+  const validators: Record<ConfigValueKind, (candidate: unknown) => boolean> = {
+    boolean: (candidate) => typeof candidate === 'boolean',
+    count: (candidate) =>
+      typeof candidate === 'number' &&
+      Number.isInteger(candidate) &&
+      candidate >= 0,
+    list: (candidate) =>
+      Array.isArray(candidate) &&
+      candidate.every((item) => typeof item === 'string' && item.trim() !== ''),
+    path: (candidate) =>
+      typeof candidate === 'string' && candidate.trim() !== '',
+    threshold: (candidate) =>
+      typeof candidate === 'number' && candidate >= 0 && candidate <= 1,
+    url: (candidate) =>
+      typeof candidate === 'string' && URL.canParse(candidate),
+    'verification-mode': (candidate) =>
+      SIGNATURE_VERIFICATION_MODES.some((mode) => mode === candidate),
+  }
+
+  return validators[kind](value)
+}
@@ -7,6 +7,19 @@
  */
 export const DEFAULT_APPLICATIONS_DIR = '/Applications'
 
+/**
+ * Per-user Applications directory, relative to the home directory
+ */
+export const USER_APPLICATIONS_DIR = '~/Applications'
+
+/**
+ * Directories scanned for applications when none are given
+ */
+export const DEFAULT_APPLICATIONS_DIRS = [
+  DEFAULT_APPLICATIONS_DIR,
+  USER_APPLICATIONS_DIR,
+] as const
+
 /**
  * Homebrew commands
  */
@@ -14,14 +27,19 @@ export const BREW_COMMANDS = {
   /** Check if a cask exists */
   INFO_CASK: (name: string): string => `brew info --cask "${name}"`,
   /** Install casks with adopt flag to manage existing applications */
-  INSTALL_CASK: (names: string[]): string =>
-    `brew install --cask --adopt ${names.map((name) => `"${name}"`).join(' ')}`,
+  INSTALL_CASK: (names: string[], appdir?: string): string =>
+    `brew install --cask --adopt ${appdir === undefined ? '' : `--appdir="${appdir}" `}${names.map((name) => `"${name}"`).join(' ')}`,
   /** List installed casks (one per line) */
   LIST_CASKS: 'brew ls -1 --cask',
   /** Check if Homebrew is installed */
   VERSION: 'brew --version',
 } as const
 
+/**
+ * Signature verification modes for Homebrew API data
+ */
+export const SIGNATURE_VERIFICATION_MODES = ['off', 'warn', 'strict'] as const
+
 /**
  * File extensions and patterns
  */
@@ -54,6 +72,8 @@ export const DEFAULT_CONFIG = {
   DRY_RUN: false,
   /** Maximum number of concurrent operations */
   MAX_CONCURRENT_OPERATIONS: 5,
+  /** How many folder levels below an Applications directory are scanned for apps */
+  MAX_SCAN_DEPTH: 3,
   /** Whether to show verbose output by default */
   VERBOSE: false,
 } as const
@@ -3,6 +3,7 @@
  */
 
 import { Buffer } from 'node:buffer'
+import { createHash } from 'node:crypto'
 import { promises as fs } from 'node:fs'
 import os from 'node:os'
 import path from 'node:path'
@@ -11,13 +12,31 @@ import { gunzip, gzip } from 'node:zlib'
 import { spinner } from '@clack/prompts'
 import { consola } from 'consola'
 import packageJson from '../package.json' with { type: 'json' }
+import { createSlimCaskData, deserializeCaskIndex } from './cask-cache.ts'
+import { validateCacheEntry, validateCasks } from './cask-validation.ts'
+import { HomebrewSignatureVerifier } from './homebrew-signature.ts'
+import type { PartialDownload } from './http-retry.ts'
+import {
+  calculateRetryDelay,
+  createPartialDownload,
+  getResumeHeaders,
+  isRetryableStatus,
+  readResponseBody,
+  sleep,
+} from './http-retry.ts'
+import { parseJwsDocument } from './jws.ts'
 import type {
+  CacheInfo,
   CaskCacheEntry,
+  CaskFetchResult,
   HomebrewApiResult,
   HomebrewCask,
+  HomebrewConfig,
+  SignatureVerificationMode,
 } from './types.ts'
 
 import { ConvertAppsError, ErrorType } from './types.ts'
+import { executeCommand } from './utils.ts'
 
 const gunzipAsync = promisify(gunzip)
 const gzipAsync = promisify(gzip)
@@ -26,17 +45,27 @@ const gzipAsync = promisify(gzip)
  * Homebrew cask API endpoints
  */
 const HOMEBREW_API = {
-  /** Individual cask endpoint template */
-  CASK: (token: string) => `https://formulae.brew.sh/api/cask/${token}.json`,
-  /** All casks JSON endpoint */
-  CASKS: 'https://formulae.brew.sh/api/cask.json',
+  /** Default API base URL, overridden by HOMEBREW_API_DOMAIN like brew itself */
+  BASE_URL: 'https://formulae.brew.sh/api',
+  /** All casks JSON endpoint, relative to the base URL */
+  CASKS_PATH: 'cask.json',
+  /** Signed all-casks endpoint, relative to the base URL */
+  SIGNED_CASKS_PATH: 'cask.jws.json',
 } as const
 
+const TRAILING_SLASHES_REGEX = /\/+$/
+
+/**
+ * Homebrew's own copy of the cask API, relative to its cache directory
+ */
+const BREW_CACHE_CASKS_PATH = path.join('api', 'cask.jws.json')
+const BREW_CACHE_COMMAND = 'brew --cache'
+
 /**
  * Time conversion constants
  */
 const MS_TO_SECONDS = 1000
-const MS_TO_HOURS = 60 * MS_TO_SECONDS
+const MS_TO_HOURS = 60 * 60 * MS_TO_SECONDS
 const BYTES_TO_KB = 1024
 const BYTES_TO_KB_ALT = 100
 
@@ -46,25 +75,123 @@ const BYTES_TO_KB_ALT = 100
 const CACHE_CONFIG = {
   /** Cache directory name */
   DIR_NAME: `.cache/${packageJson.name}`,
-  /** Cache file name */
-  FILE_NAME: 'casks.json.gz',
+  /** Length of the URL hash in the cache file name */
+  FILE_HASH_LENGTH: 16,
+  /** Cache file name prefix, followed by a hash of the API URL */
+  FILE_PREFIX: 'casks-',
+  /** Cache file name suffix */
+  FILE_SUFFIX: '.json.gz',
+  /** Time to wait for background refreshes before exiting, in milliseconds */
+  REFRESH_WAIT_TIMEOUT: 3000,
   /** Request timeout in milliseconds */
   REQUEST_TIMEOUT: 30_000,
-  /** Cache TTL in milliseconds (24 hours) */
+  /** Number of retries after a failed request */
+  RETRIES: 3,
+  /** Delay before the first retry in milliseconds, doubled for each further retry */
+  RETRY_BASE_DELAY: 1000,
+  /** Default cache TTL in milliseconds (24 hours) */
   TTL: 24 * MS_TO_HOURS,
   /** Cache version for invalidation */
-  VERSION: '1.0.0',
+  VERSION: '2.2.0',
 } as const
 
+/**
+ * HTTP status of a conditional request whose cached copy is still current
+ */
+const HTTP_NOT_MODIFIED = 304
+
+/**
+ * HTTP validators and signed document stored with the cached data
+ */
+type CacheMetadata = Pick<CaskCacheEntry, 'etag' | 'jws' | 'lastModified'>
+
+/**
+ * Result of an API request, which may report that the cached copy is current
+ */
+type ApiFetchResult = HomebrewApiResult<HomebrewCask[]> & {
+  /** Metadata of the fetched data */
+  metadata?: CacheMetadata
+  /** Whether the server answered 304 Not Modified */
+  notModified?: boolean
+}
+
+/**
+ * Background refreshes of expired caches that haven't finished yet
+ */
+const pendingRefreshes = new Set<Promise<void>>()
+
+/**
+ * Outcome of a single request attempt
+ */
+interface ApiAttempt {
+  /** Result of the attempt */
+  result: ApiFetchResult
+  /** Delay before retrying, if the failure is worth retrying */
+  retryDelay?: number
+}
+
+/**
+ * Options for the Homebrew API client
+ */
+interface HomebrewApiClientOptions {
+  /** API base URL (default HOMEBREW_API_DOMAIN or formulae.brew.sh) */
+  apiUrl?: string
+  /** Homebrew's cache directory (default HOMEBREW_CACHE or `brew --cache`) */
+  brewCacheDirectory?: string
+  /** Directory for the cache file (default ~/.cache/<package name>) */
+  cacheDirectory?: string
+  /** Milliseconds the cache stays fresh (default 24 hours) */
+  cacheTtl?: number
+  /** Never make network requests, only use local data */
+  offline?: boolean
+  /** PEM public key to verify signatures with (default Homebrew's own key) */
+  publicKey?: string
+  /** Number of retries after a failed request */
+  retries?: number
+  /** Delay before the first retry in milliseconds */
+  retryDelay?: number
+  /** Use an expired cache right away and refresh it in the background */
+  staleWhileRevalidate?: boolean
+  /** Whether to verify signatures, and whether to reject unverified data */
+  verifySignatures?: SignatureVerificationMode
+}
+
 /**
  * Homebrew API client with intelligent caching
  * @internal
  */
-class HomebrewApiClient {
+export class HomebrewApiClient {
+  private readonly brewCacheDirectory: string | undefined
   private readonly cachePath: string
-
-  constructor() {
-    this.cachePath = this.getCachePath()
+  private readonly cacheTtl: number
+  private readonly casksUrl: string
+  private readonly offline: boolean
+  private readonly retries: number
+  private readonly retryDelay: number
+  private readonly signatureVerifier: HomebrewSignatureVerifier
+  private readonly staleWhileRevalidate: boolean
+  private readonly usesDefaultApi: boolean
+
+  constructor(options: HomebrewApiClientOptions = {}) {
+    this.signatureVerifier = new HomebrewSignatureVerifier(
+      options.verifySignatures ?? 'off',
+      options.publicKey,
+    )
+    this.brewCacheDirectory = options.brewCacheDirectory
+    this.casksUrl = getCasksUrl(
+      options.apiUrl,
+      process.env,
+      this.signatureVerifier.enabled,
+    )
+    this.usesDefaultApi =
+      this.casksUrl ===
+      getCasksUrl(undefined, {}, this.signatureVerifier.enabled)
+    this.cachePath = this.getCachePath(options.cacheDirectory)
+    this.offline = options.offline ?? false
+    this.retries = options.retries ?? CACHE_CONFIG.RETRIES
+    this.retryDelay = options.retryDelay ?? CACHE_CONFIG.RETRY_BASE_DELAY
+    this.cacheTtl = options.cacheTtl ?? CACHE_CONFIG.TTL
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? false
   }
 
   /**
@@ -92,38 +219,169 @@ class HomebrewApiClient {
   async fetchAllCasks(
     forceRefresh = false,
     showSpinner = true,
-  ): Promise<HomebrewApiResult<HomebrewCask[]>> {
+  ): Promise<CaskFetchResult> {
     try {
-      // Try to load from cache first unless force refresh
-      if (!forceRefresh) {
-        const cached = await this.tryLoadFromCache()
-        if (cached) {
-          return cached
-        }
+      await this.signatureVerifier.validatePublicKey()
+
+      if (this.offline) {
+        return await this.loadOfflineData()
+      }
+
+      const cacheEntry = forceRefresh ? null : await this.loadCacheEntry()
+
+      // Homebrew's own cache saves a download when there's no cache of ours yet
+      const brewCasks =
+        forceRefresh || cacheEntry ? null : await this.loadBrewCache(true)
+
+      if (brewCasks) {
+        return { data: brewCasks, fromCache: true, success: true }
+      }
+
+      if (cacheEntry && this.isCacheFresh(cacheEntry)) {
+        consola.debug(`Using ${cacheEntry.data.length} cached casks`)
+        return this.createCacheResult(cacheEntry)
+      }
+
+      if (cacheEntry && this.staleWhileRevalidate) {
+        consola.debug(
+          `Using ${cacheEntry.data.length} expired cached casks, refreshing them in the background`,
+        )
+        this.refreshInBackground(cacheEntry)
+        return this.createCacheResult(cacheEntry)
       }
 
-      // Fetch from API with spinner
-      return await this.fetchWithSpinner(forceRefresh, showSpinner)
+      consola.debug('Cache not found or expired, fetching from API...')
+
+      // Fetch from API with spinner, revalidating an expired cache if there is one
+      return await this.fetchWithSpinner(forceRefresh, showSpinner, cacheEntry)
     } catch (error) {
       return this.createErrorResult(error)
     }
   }
 
   /**
-   * Try to load data from cache
+   * Load cask data without using the network, whatever its age
    */
-  private async tryLoadFromCache(): Promise<HomebrewApiResult<
-    HomebrewCask[]
-  > | null> {
-    const cached = await this.loadFromCache()
+  private async loadOfflineData(): Promise<CaskFetchResult> {
+    const cacheEntry = await this.loadCacheEntry()
 
-    if (cached.success && cached.data) {
-      consola.debug('Using cached cask data')
-      return { ...cached, fromCache: true }
+    if (cacheEntry) {
+      consola.debug(
+        `Using ${cacheEntry.data.length} locally cached casks (offline)`,
+      )
+      return this.createCacheResult(cacheEntry)
     }
 
-    consola.debug('Cache not found or invalid, fetching from API...')
-    return null
+    const brewCasks = await this.loadBrewCache(false)
+
+    if (brewCasks === null) {
+      return {
+        error: {
+          code: ErrorType.NETWORK_ERROR,
+          message:
+            'No local Homebrew cask data available in offline mode. Run `brew update` or run once without --offline.',
+        },
+        success: false,
+      }
+    }
+
+    consola.debug(`Using ${brewCasks.length} locally cached casks (offline)`)
+    return { data: brewCasks, fromCache: true, success: true }
+  }
+
+  /**
+   * Create the result for cached data, with its prebuilt search index if any
+   */
+  private createCacheResult(cacheEntry: CaskCacheEntry): CaskFetchResult {
+    const index =
+      cacheEntry.index === undefined
+        ? undefined
+        : deserializeCaskIndex(cacheEntry.index, cacheEntry.data)
+
+    return {
+      data: cacheEntry.data,
+      fromCache: true,
+      ...(index !== undefined && { index }),
+      success: true,
+    }
+  }
+
+  /**
+   * Load casks from Homebrew's own API cache
+   *
+   * Homebrew's cache holds the default API's data, so it isn't used with
+   * another API URL.
+   *
+   * @param requireFresh - Skip the cache when it's older than the cache TTL
+   */
+  private async loadBrewCache(
+    requireFresh: boolean,
+  ): Promise<HomebrewCask[] | null> {
+    if (!this.usesDefaultApi) {
+      return null
+    }
+
+    const brewCacheDirectory = await this.getBrewCacheDirectory()
+
+    if (brewCacheDirectory === undefined) {
+      return null
+    }
+
+    const filePath = path.join(brewCacheDirectory, BREW_CACHE_CASKS_PATH)
+
+    try {
+      const stats = await fs.stat(filePath)
+
+      if (requireFresh && Date.now() - stats.mtimeMs > this.cacheTtl) {
+        consola.debug(`Homebrew's cask cache is outdated: ${filePath}`)
+        return null
+      }
+
+      const document = parseJwsDocument(await fs.readFile(filePath, 'utf-8'))
+      const payload = await this.signatureVerifier.readPayload(
+        document,
+        filePath,
+      )
+
+      if (payload === undefined) {
+        return null
+      }
+
+      const casks = validateCasks(JSON.parse(payload), filePath)
+
+      if (casks.length === 0) {
+        consola.debug(`Homebrew's cask cache has no casks: ${filePath}`)
+        return null
+      }
+
+      consola.debug(`Loaded ${casks.length} casks from Homebrew's cache`)
+      return casks
+    } catch (error) {
+      consola.debug(
+        `Homebrew's cask cache is not usable (${filePath}): ${error instanceof Error ? error.message : 'Unknown error'}`,
+      )
+      return null
+    }
+  }
+
+  /**
+   * Find Homebrew's cache directory from HOMEBREW_CACHE or `brew --cache`
+   */
+  private async getBrewCacheDirectory(): Promise<string | undefined> {
+    if (this.brewCacheDirectory !== undefined) {
+      return this.brewCacheDirectory
+    }
+
+    const homebrewCache = process.env['HOMEBREW_CACHE']?.trim()
+
+    if (homebrewCache !== undefined && homebrewCache !== '') {
+      return homebrewCache
+    }
+
+    const result = await executeCommand(BREW_CACHE_COMMAND)
+    const brewCache = result.stdout.trim()
+
+    return result.success && brewCache !== '' ? brewCache : undefined
   }
 
   /**
@@ -132,22 +390,80 @@ class HomebrewApiClient {
   private async fetchWithSpinner(
     forceRefresh: boolean,
     showSpinner: boolean,
-  ): Promise<HomebrewApiResult<HomebrewCask[]>> {
+    staleEntry: CaskCacheEntry | null,
+  ): Promise<CaskFetchResult> {
     const spinnerIndicator = this.createSpinner(forceRefresh, showSpinner)
 
     consola.debug('Fetching cask data from Homebrew API...')
 
-    const result = await this.fetchFromApi(spinnerIndicator)
+    const result = await this.fetchFromApi(spinnerIndicator, staleEntry)
+
+    if (result.notModified && staleEntry) {
+      await this.handleNotModified(staleEntry, spinnerIndicator)
+
+      return this.createCacheResult(staleEntry)
+    }
 
     if (result.success && result.data) {
-      await this.handleSuccessfulFetch(result.data, spinnerIndicator)
-    } else {
-      this.handleFailedFetch(spinnerIndicator)
+      await this.handleSuccessfulFetch(
+        result.data,
+        result.metadata ?? {},
+        spinnerIndicator,
+      )
+
+      return result
+    }
+
+    this.handleFailedFetch(spinnerIndicator)
+
+    // An outdated cache beats checking every app with individual brew commands
+    const fallbackEntry = staleEntry ?? (await this.loadCacheEntry())
+
+    if (fallbackEntry) {
+      consola.warn(
+        `Using outdated cached cask data because the Homebrew API could not be reached (${result.error?.message ?? 'unknown error'})`,
+      )
+
+      return this.createCacheResult(fallbackEntry)
     }
 
     return result
   }
 
+  /**
+   * Revalidate an expired cache without holding up the caller
+   */
+  private refreshInBackground(staleEntry: CaskCacheEntry): void {
+    const refresh = this.revalidateCache(staleEntry)
+      .catch((error: unknown) => {
+        consola.debug(
+          `Background refresh of the cask cache failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        )
+      })
+      .finally(() => {
+        pendingRefreshes.delete(refresh)
+      })
+
+    pendingRefreshes.add(refresh)
+  }
+
+  /**
+   * Fetch fresh data for an expired cache and store it for next time
+   */
+  private async revalidateCache(staleEntry: CaskCacheEntry): Promise<void> {
+    const result = await this.fetchFromApi(null, staleEntry)
+
+    if (result.notModified) {
+      await this.handleNotModified(staleEntry, null)
+    } else if (result.success && result.data) {
+      await this.handleSuccessfulFetch(result.data, result.metadata ?? {}, null)
+    } else {
+      consola.debug(
+        `Background refresh of the cask cache failed: ${result.error?.message ?? 'unknown error'}`,
+      )
+    }
+  }
+
   /**
    * Create and start spinner if needed
    */
@@ -170,13 +486,14 @@ class HomebrewApiClient {
    */
   private async handleSuccessfulFetch(
     data: HomebrewCask[],
+    metadata: CacheMetadata,
     spinnerIndicator: ReturnType<typeof spinner> | null,
   ): Promise<void> {
     if (spinnerIndicator) {
       spinnerIndicator.message('Caching cask database...')
     }
 
-    await this.saveToCache(data)
+    await this.saveToCache(data, metadata)
     consola.debug('Cask data cached successfully')
 
     if (spinnerIndicator) {
@@ -184,6 +501,28 @@ class HomebrewApiClient {
     }
   }
 
+  /**
+   * Keep using the cached data after the server confirmed it's unchanged
+   */
+  private async handleNotModified(
+    cacheEntry: CaskCacheEntry,
+    spinnerIndicator: ReturnType<typeof spinner> | null,
+  ): Promise<void> {
+    consola.debug('Cask data not modified, refreshing cache timestamp')
+    await this.writeCacheEntry({
+      ...cacheEntry,
+      // Signed entries keep the data only in the signed document
+      data: cacheEntry.jws === undefined ? cacheEntry.data : [],
+      timestamp: Date.now(),
+    })
+
+    if (spinnerIndicator) {
+      spinnerIndicator.stop(
+        `Cask database is up to date (${cacheEntry.data.length} casks)`,
+      )
+    }
+  }
+
   /**
    * Handle failed API fetch
    */
@@ -214,24 +553,22 @@ class HomebrewApiClient {
   /**
    * Get cache information
    */
-  async getCacheInfo(): Promise<{
-    exists: boolean
-    isValid?: boolean
-    lastModified?: Date
-    size?: number
-  }> {
+  async getCacheInfo(): Promise<CacheInfo> {
     try {
       const stats = await fs.stat(this.cachePath)
       const cacheEntry = await this.loadCacheEntry()
 
       return {
         exists: true,
-        isValid: cacheEntry !== null,
-        lastModified: stats.mtime,
+        isFresh: cacheEntry !== null && this.isCacheFresh(cacheEntry),
+        ...(cacheEntry && { entries: cacheEntry.data.length }),
+        ...(cacheEntry?.etag !== undefined && { etag: cacheEntry.etag }),
+        lastModified: new Date(cacheEntry?.timestamp ?? stats.mtimeMs),
+        path: this.cachePath,
         size: stats.size,
       }
     } catch {
-      return { exists: false }
+      return { exists: false, path: this.cachePath }
     }
   }
 
@@ -244,25 +581,102 @@ class HomebrewApiClient {
   }
 
   /**
-   * Fetch cask data from Homebrew API
+   * Fetch cask data from Homebrew API, retrying failed attempts
    */
   private async fetchFromApi(
-    spinnerIndicator?: null | ReturnType<typeof spinner>,
-  ): Promise<HomebrewApiResult<HomebrewCask[]>> {
+    spinnerIndicator: null | ReturnType<typeof spinner>,
+    staleEntry: CaskCacheEntry | null,
+  ): Promise<ApiFetchResult> {
+    const download = createPartialDownload()
+    let attempt = 1
+    let outcome = await this.attemptFetch(
+      spinnerIndicator,
+      staleEntry,
+      download,
+      attempt,
+    )
+
+    while (outcome.retryDelay !== undefined && attempt <= this.retries) {
+      consola.debug(
+        `Attempt ${attempt} failed (${outcome.result.error?.message ?? 'unknown error'}), retrying in ${outcome.retryDelay}ms`,
+      )
+      await sleep(outcome.retryDelay)
+      attempt++
+      outcome = await this.attemptFetch(
+        spinnerIndicator,
+        staleEntry,
+        download,
+        attempt,
+      )
+    }
+
+    return outcome.result
+  }
+
+  /**
+   * Describe the attempt number for retries, e.g. " (attempt 2 of 4)"
+   */
+  private getAttemptText(attempt: number): string {
+    return attempt > 1 ? ` (attempt ${attempt} of ${this.retries + 1})` : ''
+  }
+
+  /**
+   * Make a single request, resuming a partial download if there is one
+   */
+  private async attemptFetch(
+    spinnerIndicator: null | ReturnType<typeof spinner>,
+    staleEntry: CaskCacheEntry | null,
+    download: PartialDownload,
+    attempt: number,
+  ): Promise<ApiAttempt> {
+    if (spinnerIndicator) {
+      spinnerIndicator.message(
+        `Connecting to Homebrew API${this.getAttemptText(attempt)}...`,
+      )
+    }
+
     const { controller, timeoutId } = this.setupRequestTimeout(spinnerIndicator)
 
     try {
-      const response = await this.makeApiRequest(controller, spinnerIndicator)
+      const response = await this.makeApiRequest(
+        controller,
+        staleEntry,
+        download,
+      )
       clearTimeout(timeoutId)
 
+      if (response.status === HTTP_NOT_MODIFIED && staleEntry) {
+        return { result: { notModified: true, success: true } }
+      }
+
       if (!response.ok) {
-        return this.handleHttpError(response, spinnerIndicator)
+        return {
+          result: this.handleHttpError(response),
+          ...(isRetryableStatus(response.status) && {
+            retryDelay: calculateRetryDelay(
+              attempt,
+              this.retryDelay,
+              response.headers.get('retry-after'),
+            ),
+          }),
+        }
       }
 
-      return await this.processSuccessfulResponse(response, spinnerIndicator)
+      return {
+        result: await this.processSuccessfulResponse(
+          response,
+          download,
+          spinnerIndicator,
+        ),
+      }
     } catch (error) {
       clearTimeout(timeoutId)
-      return this.handleRequestError(error)
+
+      // Timeouts, connection resets and interrupted downloads are all worth retrying
+      return {
+        result: this.handleRequestError(error),
+        retryDelay: calculateRetryDelay(attempt, this.retryDelay),
+      }
     }
   }
 
@@ -277,9 +691,8 @@ class HomebrewApiClient {
       controller.abort()
 
       if (spinnerIndicator) {
-        spinnerIndicator.stop(
+        spinnerIndicator.message(
           `Request timed out after ${CACHE_CONFIG.REQUEST_TIMEOUT / MS_TO_SECONDS} seconds`,
-          1,
         )
       }
     }, CACHE_CONFIG.REQUEST_TIMEOUT)
@@ -292,16 +705,26 @@ class HomebrewApiClient {
    */
   private async makeApiRequest(
     controller: AbortController,
-    spinnerIndicator?: null | ReturnType<typeof spinner>,
+    staleEntry: CaskCacheEntry | null,
+    download: PartialDownload,
   ): Promise<Response> {
-    if (spinnerIndicator) {
-      spinnerIndicator.message('Connecting to Homebrew API...')
-    }
+    const resumeHeaders = getResumeHeaders(download)
+    // A resumed download is already known to differ from the stale cache
+    const isResuming = Object.keys(resumeHeaders).length > 0
 
-    return await fetch(HOMEBREW_API.CASKS, {
+    return await fetch(this.casksUrl, {
       headers: {
         Accept: 'application/json',
         'User-Agent': packageJson.name,
+        ...resumeHeaders,
+        ...(!isResuming &&
+          staleEntry?.etag !== undefined && {
+            'If-None-Match': staleEntry.etag,
+          }),
+        ...(!isResuming &&
+          staleEntry?.lastModified !== undefined && {
+            'If-Modified-Since': staleEntry.lastModified,
+          }),
       },
       signal: controller.signal,
     })
@@ -312,15 +735,7 @@ class HomebrewApiClient {
    */
   private handleHttpError(
     response: Response,
-    spinnerIndicator?: null | ReturnType<typeof spinner>,
   ): HomebrewApiResult<HomebrewCask[]> {
-    if (spinnerIndicator) {
-      spinnerIndicator.stop(
-        `HTTP ${response.status}: ${response.statusText}`,
-        1,
-      )
-    }
-
     return {
       error: {
         code: response.status.toString(),
@@ -335,18 +750,64 @@ class HomebrewApiClient {
    */
   private async processSuccessfulResponse(
     response: Response,
-    spinnerIndicator?: null | ReturnType<typeof spinner>,
-  ): Promise<HomebrewApiResult<HomebrewCask[]>> {
+    download: PartialDownload,
+    spinnerIndicator: null | ReturnType<typeof spinner>,
+  ): Promise<ApiFetchResult> {
     const sizeText = this.getResponseSizeText(response)
 
     if (spinnerIndicator) {
       spinnerIndicator.message(`Downloading cask database${sizeText}...`)
     }
 
-    const casks = (await response.json()) as HomebrewCask[]
+    const etag = response.headers.get('etag')
+    const lastModified = response.headers.get('last-modified')
+    const metadata: CacheMetadata = {
+      ...(etag !== null && { etag }),
+      ...(lastModified !== null && { lastModified }),
+    }
+    const body = await readResponseBody(response, download)
+    let data: unknown
+
+    if (this.signatureVerifier.enabled) {
+      const document = parseJwsDocument(body)
+      const payload = await this.signatureVerifier.readPayload(
+        document,
+        this.casksUrl,
+      )
+
+      if (payload === undefined) {
+        return {
+          error: {
+            code: 'SIGNATURE_MISMATCH',
+            message: `Signature verification failed for ${this.casksUrl}`,
+          },
+          success: false,
+        }
+      }
+
+      data = JSON.parse(payload)
+      metadata.jws = document
+    } else {
+      data = JSON.parse(body)
+    }
+
+    let casks: HomebrewCask[]
+
+    try {
+      casks = validateCasks(data, this.casksUrl)
+    } catch (error) {
+      return {
+        error: {
+          code: 'INVALID_DATA',
+          message: error instanceof Error ? error.message : 'Invalid cask data',
+        },
+        success: false,
+      }
+    }
+
     consola.debug(`Fetched ${casks.length} casks from Homebrew API`)
 
-    return { data: casks, success: true }
+    return { data: casks, metadata, success: true }
   }
 
   /**
@@ -392,17 +853,33 @@ class HomebrewApiClient {
   }
 
   /**
-   * Get the cache file path
+   * Get the cache file path, keyed by the API URL so mirrors get their own cache
    */
-  private getCachePath(): string {
-    const homeDirectory = os.homedir()
-    const cacheDirectory = path.join(homeDirectory, CACHE_CONFIG.DIR_NAME)
+  private getCachePath(cacheDirectory?: string): string {
+    const directory =
+      cacheDirectory ?? path.join(os.homedir(), CACHE_CONFIG.DIR_NAME)
+    const urlHash = createHash('sha256')
+      .update(this.casksUrl)
+      .digest('hex')
+      .slice(0, CACHE_CONFIG.FILE_HASH_LENGTH)
+
+    return path.join(
+      directory,
+      `${CACHE_CONFIG.FILE_PREFIX}${urlHash}${CACHE_CONFIG.FILE_SUFFIX}`,
+    )
+  }
 
-    return path.join(cacheDirectory, CACHE_CONFIG.FILE_NAME)
+  /**
+   * Check if cache entry is younger than the cache TTL
+   */
+  private isCacheFresh(cacheEntry: CaskCacheEntry): boolean {
+    return Date.now() - cacheEntry.timestamp <= this.cacheTtl
   }
 
   /**
-   * Check if cache entry is valid
+   * Check if cache entry is valid, regardless of its age
+   *
+   * Expired entries are still useful for conditional requests.
    */
   private isCacheValid(cacheEntry: CaskCacheEntry): boolean {
     // Check version
@@ -410,14 +887,6 @@ class HomebrewApiClient {
       return false
     }
 
-    // Check TTL
-    const now = Date.now()
-    const age = now - cacheEntry.timestamp
-
-    if (age > CACHE_CONFIG.TTL) {
-      return false
-    }
-
     // Check data structure
     if (!Array.isArray(cacheEntry.data) || cacheEntry.data.length === 0) {
       return false
@@ -433,7 +902,25 @@ class HomebrewApiClient {
     try {
       const compressedData = await fs.readFile(this.cachePath)
       const jsonData = await gunzipAsync(compressedData)
-      const cacheEntry = JSON.parse(jsonData.toString()) as CaskCacheEntry
+      const cacheEntry = validateCacheEntry(JSON.parse(jsonData.toString()))
+
+      // Signed entries keep the data only in the signed document
+      if (cacheEntry.jws === undefined) {
+        if (!this.signatureVerifier.allowUnsigned(this.cachePath)) {
+          return null
+        }
+      } else {
+        const payload = await this.signatureVerifier.readPayload(
+          cacheEntry.jws,
+          this.cachePath,
+        )
+
+        if (payload === undefined) {
+          return null
+        }
+
+        cacheEntry.data = validateCasks(JSON.parse(payload), this.cachePath)
+      }
 
       // Validate cache entry
       if (!this.isCacheValid(cacheEntry)) {
@@ -441,58 +928,54 @@ class HomebrewApiClient {
       }
 
       return cacheEntry
-    } catch {
+    } catch (error) {
+      if (error instanceof ConvertAppsError) {
+        consola.debug(`Ignoring the cask cache: ${error.message}`)
+      }
+
       return null
     }
   }
 
   /**
-   * Load data from cache if valid
+   * Save cask data to cache
    */
-  private async loadFromCache(): Promise<HomebrewApiResult<HomebrewCask[]>> {
-    try {
-      const cacheEntry = await this.loadCacheEntry()
-
-      if (!cacheEntry) {
-        return { error: { message: 'No valid cache found' }, success: false }
-      }
-
-      consola.debug(`Loaded ${cacheEntry.data.length} casks from cache`)
-
-      return { data: cacheEntry.data, success: true }
-    } catch (error) {
-      consola.debug('Failed to load cache, will fetch from API')
-
-      return {
-        error: {
-          message: 'Cache load failed',
-          ...(error instanceof Error && { originalError: error }),
-        },
-        success: false,
-      }
-    }
+  private async saveToCache(
+    casks: HomebrewCask[],
+    metadata: CacheMetadata,
+  ): Promise<void> {
+    // The signed document has to be kept whole to verify it again
+    const slimData =
+      metadata.jws === undefined
+        ? createSlimCaskData(casks)
+        : { data: [] as HomebrewCask[] }
+
+    await this.writeCacheEntry({
+      ...slimData,
+      ...(metadata.etag !== undefined && { etag: metadata.etag }),
+      ...(metadata.jws !== undefined && { jws: metadata.jws }),
+      ...(metadata.lastModified !== undefined && {
+        lastModified: metadata.lastModified,
+      }),
+      timestamp: Date.now(),
+      version: CACHE_CONFIG.VERSION,
+    })
   }
 
   /**
-   * Save cask data to cache
+   * Write a cache entry to the cache file
    */
-  private async saveToCache(casks: HomebrewCask[]): Promise<void> {
+  private async writeCacheEntry(cacheEntry: CaskCacheEntry): Promise<void> {
     try {
       await this.ensureCacheDir()
 
-      const cacheEntry: CaskCacheEntry = {
-        data: casks,
-        timestamp: Date.now(),
-        version: CACHE_CONFIG.VERSION,
-      }
-
       const jsonData = JSON.stringify(cacheEntry)
       const compressedData = await gzipAsync(Buffer.from(jsonData))
 
       await fs.writeFile(this.cachePath, compressedData)
 
       consola.debug(
-        `Cached ${casks.length} casks (${Math.round(compressedData.length / BYTES_TO_KB)}KB compressed)`,
+        `Cached cask data (${Math.round(compressedData.length / BYTES_TO_KB)}KB compressed)`,
       )
     } catch (error) {
       // Don't throw on cache save failures, just log
@@ -503,22 +986,97 @@ class HomebrewApiClient {
   }
 }
 
+/**
+ * Get the all-casks endpoint from an API base URL
+ *
+ * Without an explicit URL, HOMEBREW_API_DOMAIN is honoured so that the same
+ * mirror brew uses is used here.
+ */
+export function getCasksUrl(
+  apiUrl?: string,
+  env: NodeJS.ProcessEnv = process.env,
+  signed = false,
+): string {
+  const apiDomain = env['HOMEBREW_API_DOMAIN']?.trim()
+  const baseUrl =
+    apiUrl ??
+    (apiDomain === undefined || apiDomain === ''
+      ? HOMEBREW_API.BASE_URL
+      : apiDomain)
+
+  const casksPath = signed
+    ? HOMEBREW_API.SIGNED_CASKS_PATH
+    : HOMEBREW_API.CASKS_PATH
+
+  return `${baseUrl.replace(TRAILING_SLASHES_REGEX, '')}/${casksPath}`
+}
+
+/**
+ * Build API client options from the Homebrew configuration
+ */
+export function getClientOptions(
+  config: HomebrewConfig,
+): HomebrewApiClientOptions {
+  return {
+    ...(config.apiRetries !== undefined && { retries: config.apiRetries }),
+    ...(config.apiUrl !== undefined && { apiUrl: config.apiUrl }),
+    ...(config.cacheTtl !== undefined && {
+      cacheTtl: config.cacheTtl * MS_TO_HOURS,
+    }),
+    ...(config.offline !== undefined && { offline: config.offline }),
+    ...(config.staleWhileRevalidate !== undefined && {
+      staleWhileRevalidate: config.staleWhileRevalidate,
+    }),
+    ...(config.verifySignatures !== undefined && {
+      verifySignatures: config.verifySignatures,
+    }),
+  }
+}
+
 /**
  * Clear the Homebrew cask cache
  */
-export async function clearHomebrewCache(): Promise<void> {
-  const client = new HomebrewApiClient()
+export async function clearHomebrewCache(
+  clientOptions: HomebrewApiClientOptions = {},
+): Promise<void> {
+  const client = new HomebrewApiClient(clientOptions)
   await client.clearCache()
 }
 
+/**
+ * Wait for background cache refreshes to finish, so exiting doesn't cut them off
+ *
+ * @param timeout - Time to wait in milliseconds, so a hanging request can't keep the process alive
+ * @returns Whether the refreshes finished in time
+ */
+export async function waitForBackgroundRefreshes(
+  timeout: number = CACHE_CONFIG.REFRESH_WAIT_TIMEOUT,
+): Promise<boolean> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined
+
+  const timedOut = new Promise<false>((resolve) => {
+    timeoutId = setTimeout(() => resolve(false), timeout)
+  })
+
+  try {
+    return await Promise.race([
+      Promise.all(pendingRefreshes).then(() => true),
+      timedOut,
+    ])
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
 /**
  * Fetch all Homebrew casks with caching
  */
 export async function fetchHomebrewCasks(
   forceRefresh = false,
   showSpinner = true,
-): Promise<HomebrewApiResult<HomebrewCask[]>> {
-  const client = new HomebrewApiClient()
+  clientOptions: HomebrewApiClientOptions = {},
+): Promise<CaskFetchResult> {
+  const client = new HomebrewApiClient(clientOptions)
 
   return await client.fetchAllCasks(forceRefresh, showSpinner)
 }
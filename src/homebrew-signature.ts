@@ -0,0 +1,174 @@
+/**
+ * Verification of Homebrew's signed API files against Homebrew's public key
+ */
+
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { consola } from 'consola'
+import { decodeJwsPayload, findVerifiedSignature } from './jws.ts'
+import type { JwsDocument, SignatureVerificationMode } from './types.ts'
+import { ConvertAppsError, ErrorType } from './types.ts'
+import { executeCommand } from './utils.ts'
+
+/**
+ * Key ID of Homebrew's API signing key
+ */
+const HOMEBREW_KEY_ID = 'homebrew-1'
+
+/**
+ * Location of Homebrew's public key, relative to the Homebrew repository
+ */
+const HOMEBREW_PUBLIC_KEY_PATH = path.join(
+  'Library',
+  'Homebrew',
+  'api',
+  `${HOMEBREW_KEY_ID}.pem`,
+)
+const BREW_REPOSITORY_COMMAND = 'brew --repository'
+
+/**
+ * Checks signed Homebrew API documents according to the verification mode
+ */
+export class HomebrewSignatureVerifier {
+  private readonly mode: SignatureVerificationMode
+  private publicKey: Promise<string | undefined> | undefined
+
+  /**
+   * @param mode - Whether to skip, warn about or reject unverified data
+   * @param publicKey - PEM public key, read from the Homebrew installation if not given
+   */
+  constructor(mode: SignatureVerificationMode, publicKey?: string) {
+    this.mode = mode
+
+    if (publicKey !== undefined) {
+      this.publicKey = Promise.resolve(publicKey)
+    }
+  }
+
+  /**
+   * Whether signatures are checked at all
+   */
+  get enabled(): boolean {
+    return this.mode !== 'off'
+  }
+
+  /**
+   * Whether data that can't be verified must not be used
+   */
+  get strict(): boolean {
+    return this.mode === 'strict'
+  }
+
+  /**
+   * Fail when signatures must be verified but Homebrew's public key is missing
+   */
+  async validatePublicKey(): Promise<void> {
+    if (this.strict && (await this.getPublicKey()) === undefined) {
+      throw new ConvertAppsError(
+        "Homebrew's public key was not found, so signatures can't be verified. Install Homebrew, or use --verify-signatures warn.",
+        ErrorType.FILE_NOT_FOUND,
+      )
+    }
+  }
+
+  /**
+   * Check a signed document and get its payload, if its data may be used
+   *
+   * The payload is decoded as the verified signature's header says, as the
+   * headers of other signatures can't be trusted.
+   *
+   * @param document - Signed document
+   * @param source - Where the data came from, for messages
+   */
+  async readPayload(
+    document: JwsDocument,
+    source: string,
+  ): Promise<string | undefined> {
+    if (!this.enabled) {
+      return decodeJwsPayload(document)
+    }
+
+    const publicKey = await this.getPublicKey()
+
+    if (publicKey === undefined) {
+      return this.allowUnverified(source, "Homebrew's public key was not found")
+        ? decodeJwsPayload(document)
+        : undefined
+    }
+
+    const signature = findVerifiedSignature(
+      document,
+      publicKey,
+      HOMEBREW_KEY_ID,
+    )
+
+    if (signature !== undefined) {
+      consola.debug(`Verified signature of ${source}`)
+      return decodeJwsPayload(document, signature)
+    }
+
+    return this.allowUnverified(
+      source,
+      "the signature does not match Homebrew's public key",
+    )
+      ? decodeJwsPayload(document)
+      : undefined
+  }
+
+  /**
+   * Report whether data without a signature may be used
+   *
+   * @param source - Where the data came from, for messages
+   */
+  allowUnsigned(source: string): boolean {
+    return (
+      !this.enabled || this.allowUnverified(source, 'the data is not signed')
+    )
+  }
+
+  /**
+   * Report whether data that couldn't be verified may be used, and warn about it
+   */
+  private allowUnverified(source: string, problem: string): boolean {
+    if (this.strict) {
+      consola.warn(`Not using ${source}: ${problem}`)
+      return false
+    }
+
+    consola.warn(`Using ${source} without verification: ${problem}`)
+    return true
+  }
+
+  /**
+   * Read Homebrew's public key from the Homebrew installation, once
+   */
+  private getPublicKey(): Promise<string | undefined> {
+    this.publicKey ??= readHomebrewPublicKey()
+
+    return this.publicKey
+  }
+}
+
+/**
+ * Read Homebrew's public key from the repository of the installed brew
+ *
+ * HOMEBREW_REPOSITORY isn't trusted, as it could point at any key; brew sets
+ * it from its own location when asked for `brew --repository`.
+ */
+async function readHomebrewPublicKey(): Promise<string | undefined> {
+  const result = await executeCommand(BREW_REPOSITORY_COMMAND)
+  const repository = result.success ? result.stdout.trim() : ''
+
+  if (repository === '') {
+    return
+  }
+
+  const keyPath = path.join(repository, HOMEBREW_PUBLIC_KEY_PATH)
+
+  try {
+    return await fs.readFile(keyPath, 'utf-8')
+  } catch {
+    consola.debug(`Homebrew public key not found at ${keyPath}`)
+    return
+  }
+}
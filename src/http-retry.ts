@@ -0,0 +1,162 @@
+/**
+ * Retry and resume helpers for HTTP downloads
+ */
+
+import { Buffer } from 'node:buffer'
+
+const MS_PER_SECOND = 1000
+const HTTP_PARTIAL_CONTENT = 206
+const HTTP_TOO_MANY_REQUESTS = 429
+const HTTP_SERVER_ERROR_MIN = 500
+const HTTP_SERVER_ERROR_MAX = 599
+const BACKOFF_FACTOR = 2
+
+/**
+ * Share of the backoff delay that is randomized, so clients don't retry in step
+ */
+const JITTER_RATIO = 0.5
+
+/**
+ * Longest delay between attempts, including delays asked for by Retry-After
+ */
+export const MAX_RETRY_DELAY = 30_000
+
+const DIGITS_REGEX = /^\d+$/
+
+/**
+ * Body of a download received so far, kept across attempts to resume it
+ */
+export interface PartialDownload {
+  /** Chunks received so far */
+  chunks: Uint8Array[]
+  /** ETag of the response the chunks belong to, needed to resume it */
+  etag: string | undefined
+  /** Number of bytes received so far */
+  receivedBytes: number
+}
+
+/**
+ * Check whether an HTTP status is worth retrying
+ */
+export function isRetryableStatus(status: number): boolean {
+  return (
+    status === HTTP_TOO_MANY_REQUESTS ||
+    (status >= HTTP_SERVER_ERROR_MIN && status <= HTTP_SERVER_ERROR_MAX)
+  )
+}
+
+/**
+ * Delay before the next attempt, in milliseconds
+ *
+ * Uses the server's Retry-After header when there is one, and jittered
+ * exponential backoff otherwise.
+ *
+ * @param attempt - Number of the attempt that failed, starting at 1
+ * @param baseDelay - Delay after the first failed attempt, before jitter
+ * @param retryAfter - Value of the Retry-After header, if any
+ */
+export function calculateRetryDelay(
+  attempt: number,
+  baseDelay: number,
+  retryAfter?: string | null,
+): number {
+  const requestedDelay = parseRetryAfter(retryAfter)
+
+  if (requestedDelay !== undefined) {
+    return Math.min(requestedDelay, MAX_RETRY_DELAY)
+  }
+
+  const backoff = Math.min(
+    baseDelay * BACKOFF_FACTOR ** (attempt - 1),
+    MAX_RETRY_DELAY,
+  )
+
+  return Math.round(backoff * (1 - JITTER_RATIO * Math.random()))
+}
+
+/**
+ * Wait for a number of milliseconds
+ */
+export function sleep(milliseconds: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, milliseconds)
+  })
+}
+
+/**
+ * Create an empty partial download
+ */
+export function createPartialDownload(): PartialDownload {
+  return { chunks: [], etag: undefined, receivedBytes: 0 }
+}
+
+/**
+ * Read a response body into a partial download and return the whole body
+ *
+ * A 206 response continues the chunks received earlier; any other response
+ * starts over. If reading fails, the chunks received so far are kept so the
+ * next attempt can ask for the rest with a Range request.
+ */
+export async function readResponseBody(
+  response: Response,
+  download: PartialDownload,
+): Promise<string> {
+  const etag = response.headers.get('etag')
+
+  if (response.status !== HTTP_PARTIAL_CONTENT) {
+    download.chunks = []
+    download.receivedBytes = 0
+  }
+
+  download.etag = etag ?? undefined
+
+  if (response.body !== null) {
+    const reader = response.body.getReader()
+
+    for (
+      let chunk = await reader.read();
+      !chunk.done;
+      chunk = await reader.read()
+    ) {
+      download.chunks.push(chunk.value)
+      download.receivedBytes += chunk.value.byteLength
+    }
+  }
+
+  return Buffer.concat(download.chunks).toString('utf-8')
+}
+
+/**
+ * Headers that ask for the rest of a partial download, if it can be resumed
+ */
+export function getResumeHeaders(
+  download: PartialDownload,
+): Record<string, string> {
+  if (download.receivedBytes === 0 || download.etag === undefined) {
+    return {}
+  }
+
+  return {
+    'If-Range': download.etag,
+    Range: `bytes=${download.receivedBytes}-`,
+  }
+}
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP date
+ */
+function parseRetryAfter(value?: string | null): number | undefined {
+  const trimmedValue = value?.trim()
+
+  if (trimmedValue === undefined || trimmedValue === '') {
+    return
+  }
+
+  if (DIGITS_REGEX.test(trimmedValue)) {
+    return Number(trimmedValue) * MS_PER_SECOND
+  }
+
+  const date = Date.parse(trimmedValue)
+
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
@@ -0,0 +1,87 @@
+/**
+ * Ignore file with app patterns to leave out of the conversion
+ */
+
+import { promises as fs } from 'node:fs'
+import { consola } from 'consola'
+import type { IgnoreRule } from './types.ts'
+import { ConvertAppsError, ErrorType } from './types.ts'
+import { findFileInParentDirectories, parseIgnoreRule } from './utils.ts'
+
+const IGNORE_FILE_NAME = '.convertappsignore'
+
+/**
+ * Load ignore rules from the nearest ignore file, followed by the --ignore patterns
+ *
+ * Command line patterns come last so that they can override the file, e.g.
+ * `--ignore '!Slack'` re-includes an app the file ignores.
+ */
+export async function loadIgnoreRules(
+  ignoredApps: string[],
+  startDirectory: string = process.cwd(),
+): Promise<IgnoreRule[]> {
+  const ignoreFile = findFileInParentDirectories(
+    IGNORE_FILE_NAME,
+    startDirectory,
+  )
+  const fileRules =
+    ignoreFile === undefined ? [] : await readIgnoreFile(ignoreFile)
+
+  return [
+    ...fileRules,
+    ...ignoredApps.map((pattern) => parseIgnoreRule(pattern, '--ignore')),
+  ]
+}
+
+/**
+ * Parse the contents of an ignore file
+ *
+ * Each line holds one pattern. Blank lines and lines starting with `#` are
+ * skipped, `!` negates a pattern and a leading backslash escapes `#` or `!`.
+ */
+export function parseIgnoreFile(
+  contents: string,
+  filePath: string,
+): IgnoreRule[] {
+  const rules: IgnoreRule[] = []
+
+  for (const [index, line] of contents.split('\n').entries()) {
+    const pattern = line.trim()
+
+    if (pattern === '' || pattern.startsWith('#')) {
+      continue
+    }
+
+    const source = `${filePath}:${index + 1}`
+
+    rules.push(
+      pattern.startsWith('\\')
+        ? { negated: false, pattern: pattern.slice(1), source }
+        : parseIgnoreRule(pattern, source),
+    )
+  }
+
+  return rules
+}
+
+/**
+ * Read and parse an ignore file
+ */
+async function readIgnoreFile(filePath: string): Promise<IgnoreRule[]> {
+  let contents: string
+
+  try {
+    contents = await fs.readFile(filePath, 'utf-8')
+  } catch (error) {
+    throw new ConvertAppsError(
+      `Failed to read ignore file: ${filePath}`,
+      ErrorType.FILE_NOT_FOUND,
+      error instanceof Error ? error : undefined,
+    )
+  }
+
+  const rules = parseIgnoreFile(contents, filePath)
+  consola.debug(`Loaded ${rules.length} ignore rules from ${filePath}`)
+
+  return rules
+}
@@ -1,5 +1,14 @@
 import { consola } from 'consola'
 import { discoverApps } from './app-scanner.ts'
+import { selectApps } from './app-selection.ts'
+import {
+  displayAppStoreMigrations,
+  generateMigrationScript,
+  getAppStoreMigrations,
+  writeMigrationScript,
+} from './app-store-migration.ts'
+import { generateBrewfile, writeBrewfile } from './brewfile.ts'
+import { runCacheCommand } from './cache-command.ts'
 import {
   displayTroubleshooting,
   displayWelcome,
@@ -13,12 +22,14 @@ import {
   ProgressTracker,
   setupGlobalErrorHandlers,
 } from './error-handler.ts'
+import { waitForBackgroundRefreshes } from './homebrew-api.ts'
 import { installApps, validateInstallationPrerequisites } from './installer.ts'
 import {
+  displayFailureDetails,
   displayFinalSummary,
   displayInstallationPlan,
-  promptAppSelection,
 } from './prompts.ts'
+import { createRunReport, outputRunReport } from './report.ts'
 import type {
   AppInfo,
   CommandOptions,
@@ -26,6 +37,7 @@ import type {
   InstallerConfig,
   OperationSummary,
   ScannerConfig,
+  SelectionConfig,
 } from './types.ts'
 import { isMainModule } from './utils.ts'
 
@@ -35,6 +47,7 @@ import { isMainModule } from './utils.ts'
 function createInstallerConfig(options: CommandOptions): InstallerConfig {
   return {
     dryRun: options.dryRun,
+    json: options.json,
     verbose: options.verbose,
   }
 }
@@ -44,31 +57,63 @@ function createInstallerConfig(options: CommandOptions): InstallerConfig {
  */
 function createScannerConfig(options: CommandOptions): ScannerConfig {
   return {
-    applicationsDir: options.applicationsDir,
+    ...(options.apiRetries !== undefined && {
+      apiRetries: options.apiRetries,
+    }),
+    ...(options.apiUrl !== undefined && { apiUrl: options.apiUrl }),
+    applicationsDirs: options.applicationsDirs,
+    ...(options.bundleIdCacheTtl !== undefined && {
+      bundleIdCacheTtl: options.bundleIdCacheTtl,
+    }),
+    ...(options.cacheTtl !== undefined && { cacheTtl: options.cacheTtl }),
     ...(options.fallbackToCli !== undefined && {
       fallbackToCli: options.fallbackToCli,
     }),
     ...(options.forceRefreshCache !== undefined && {
       forceRefreshCache: options.forceRefreshCache,
     }),
+    // The migration is about the App Store apps, so they can't be ignored
     ...(options.ignoreAppStore !== undefined && {
-      ignoreAppStore: options.ignoreAppStore,
+      ignoreAppStore: options.ignoreAppStore && !options.migrateAppStore,
     }),
     ignoredApps: options.ignore,
+    json: options.json,
+    ...(options.mappings !== undefined && {
+      mappingsFile: options.mappings,
+    }),
     ...(options.matchingThreshold !== undefined && {
       matchingThreshold: options.matchingThreshold,
     }),
+    ...(options.offline !== undefined && { offline: options.offline }),
+    ...(options.staleWhileRevalidate !== undefined && {
+      staleWhileRevalidate: options.staleWhileRevalidate,
+    }),
+    ...(options.verifySignatures !== undefined && {
+      verifySignatures: options.verifySignatures,
+    }),
     verbose: options.verbose,
   }
 }
 
+/**
+ * Create selection configuration from command options
+ */
+function createSelectionConfig(options: CommandOptions): SelectionConfig {
+  return {
+    deselect: options.deselect,
+    json: options.json,
+    select: options.select,
+    yes: options.yes,
+  }
+}
+
 /**
  * Generate operation summary statistics
  */
 function generateOperationSummary(
   allApps: AppInfo[],
   selectedApps: AppInfo[],
-  installationResult: InstallationResult,
+  installationResult: InstallationResult | undefined,
   dryRun: boolean,
 ): OperationSummary {
   const available = allApps.filter((app) => app.status === 'available')
@@ -82,15 +127,100 @@ function generateOperationSummary(
     alreadyInstalled: alreadyInstalled.length,
     availableApps: available.length,
     dryRun,
-    failed: installationResult.failed.length,
+    failed: installationResult?.failed.length ?? 0,
     ignored: ignored.length,
-    installed: installationResult.installed.length,
+    installed: installationResult?.installed.length ?? 0,
     selected: selectedApps.length,
     totalApps: allApps.length,
     unavailable: unavailable.length,
   }
 }
 
+/**
+ * Print and/or write the JSON run report when requested
+ */
+async function emitRunReport(
+  options: CommandOptions,
+  apps: AppInfo[],
+  selectedApps: AppInfo[],
+  installationResult?: InstallationResult,
+): Promise<void> {
+  if (!options.json && options.reportFile === undefined) {
+    return
+  }
+
+  const summary = generateOperationSummary(
+    apps,
+    selectedApps,
+    installationResult,
+    options.dryRun,
+  )
+  const report = createRunReport({
+    apps,
+    ...(installationResult && { installationResult }),
+    selectedApps,
+    summary,
+  })
+
+  await outputRunReport(report, options)
+}
+
+/**
+ * Exit once background cache refreshes have finished, so they aren't cut off,
+ * or once waiting for them has timed out
+ */
+async function exitAfterBackgroundRefreshes(exitCode: number): Promise<never> {
+  if (!(await waitForBackgroundRefreshes())) {
+    consola.info(
+      'Abandoned the background cask cache refresh, it will be retried next run',
+    )
+  }
+
+  process.exit(exitCode)
+}
+
+/**
+ * Run the cache command and exit, if it was given instead of a conversion
+ */
+async function handleCacheCommand(options: CommandOptions): Promise<void> {
+  if (options.cacheCommand) {
+    await runCacheCommand(options.cacheCommand, options)
+    process.exit(EXIT_CODES.SUCCESS)
+  }
+}
+
+/**
+ * List the App Store apps that can move to a cask and exit, if that was asked
+ * for instead of a conversion
+ */
+async function handleAppStoreMigration(
+  options: CommandOptions,
+  apps: AppInfo[],
+): Promise<void> {
+  if (!options.migrateAppStore) {
+    return
+  }
+
+  const migrations = getAppStoreMigrations(apps)
+  displayAppStoreMigrations(migrations)
+
+  if (migrations.length > 0) {
+    if (options.migrationScript === undefined) {
+      consola.info(
+        'Nothing was changed. Add --migration-script <path> to write the commands to a script for review.',
+      )
+    } else {
+      await writeMigrationScript(
+        options.migrationScript,
+        generateMigrationScript(migrations),
+      )
+    }
+  }
+
+  await emitRunReport(options, apps, [])
+  await exitAfterBackgroundRefreshes(EXIT_CODES.SUCCESS)
+}
+
 /**
  * Main application function
  */
@@ -114,8 +244,16 @@ async function main() {
       ? CONSOLA_VERBOSE_LEVEL
       : CONSOLA_DEFAULT_LEVEL
 
+    // Keep stdout clean for the JSON report
+    if (options.json) {
+      consola.options.stdout = process.stderr
+    }
+
     // Set up enhanced error handling
     setupGlobalErrorHandlers(options.verbose)
+
+    await handleCacheCommand(options)
+
     const progressTracker = new ProgressTracker()
 
     displayWelcome(options)
@@ -130,18 +268,35 @@ async function main() {
     const discoveredApps = await discoverApps(scannerConfig)
     progressTracker.completeOperation('Application scanning')
 
+    await handleAppStoreMigration(options, discoveredApps)
+
     if (discoveredApps.length === 0) {
       consola.warn(MESSAGES.NO_APPS_FOUND)
-      process.exit(EXIT_CODES.SUCCESS)
+      await emitRunReport(options, discoveredApps, [])
+      await exitAfterBackgroundRefreshes(EXIT_CODES.SUCCESS)
     }
 
-    // Interactive app selection
-    const selectedApps = await promptAppSelection(discoveredApps)
+    // App selection (interactive unless --yes or --select is given)
+    const selectedApps = await selectApps(
+      discoveredApps,
+      createSelectionConfig(options),
+    )
+
+    // Export mode: write a Brewfile of the plan instead of installing
+    if (options.brewfile !== undefined) {
+      await writeBrewfile(
+        options.brewfile,
+        generateBrewfile(discoveredApps, selectedApps),
+      )
+      await emitRunReport(options, discoveredApps, selectedApps)
+      await exitAfterBackgroundRefreshes(EXIT_CODES.SUCCESS)
+    }
 
     if (selectedApps.length === 0) {
       consola.info(MESSAGES.NO_APPS_SELECTED)
       consola.info('Run the command again to select different apps.')
-      process.exit(EXIT_CODES.SUCCESS)
+      await emitRunReport(options, discoveredApps, selectedApps)
+      await exitAfterBackgroundRefreshes(EXIT_CODES.SUCCESS)
     }
 
     // Display installation plan
@@ -174,6 +329,7 @@ async function main() {
     )
 
     displayFinalSummary(selectedApps, installedApps, failedApps, options.dryRun)
+    displayFailureDetails(installationResult.failed)
 
     // Generate operation summary
     const summary = generateOperationSummary(
@@ -185,12 +341,19 @@ async function main() {
 
     consola.debug(`Operation summary: ${JSON.stringify(summary, null, 2)}`)
 
+    await emitRunReport(
+      options,
+      discoveredApps,
+      selectedApps,
+      installationResult,
+    )
+
     // Exit with appropriate code
     if (installationResult.failed.length > 0) {
       consola.warn(`${installationResult.failed.length} installations failed.`)
-      process.exit(EXIT_CODES.GENERAL_ERROR)
+      await exitAfterBackgroundRefreshes(EXIT_CODES.GENERAL_ERROR)
     } else {
-      process.exit(EXIT_CODES.SUCCESS)
+      await exitAfterBackgroundRefreshes(EXIT_CODES.SUCCESS)
     }
   } catch (error: unknown) {
     // Handle user cancellation gracefully
@@ -0,0 +1,173 @@
+/**
+ * Parser for `brew install --cask` output, mapping each line to the cask it belongs to
+ */
+
+import type { CaskInstallOutcome, InstallFailureReason } from './types.ts'
+
+/**
+ * Regular expressions used in this module
+ */
+const INSTALLING_CASK_REGEX = /^==> Installing Cask (\S+)/
+const SUCCESSFULLY_INSTALLED_REGEX = /(\S+) was successfully installed/
+const CASK_REFERENCE_REGEX = /Cask '([^']+)'/
+const NOT_UPGRADING_REGEX = /Not upgrading (\S+), the latest version/
+const ERROR_LINE_REGEX = /^Error:/
+
+/**
+ * Line patterns and the failure reason they indicate, checked in order
+ */
+const FAILURE_PATTERNS: { pattern: RegExp; reason: InstallFailureReason }[] = [
+  {
+    pattern: /It seems there is already an App at/,
+    reason: 'adopt-version-mismatch',
+  },
+  {
+    pattern:
+      /It seems the existing App is different from the one being installed/,
+    reason: 'adopt-version-mismatch',
+  },
+  {
+    pattern: /It seems the App source .* is not there/,
+    reason: 'download-failed',
+  },
+  {
+    pattern: /SHA-?256 mismatch|Checksum for Cask .* does not match/i,
+    reason: 'sha-mismatch',
+  },
+  { pattern: /Download failed|curl: \(\d+\)/, reason: 'download-failed' },
+  {
+    pattern:
+      /sudo: (?:a terminal is required|a password is required|no tty present)/,
+    reason: 'needs-sudo',
+  },
+  {
+    pattern: /is already installed|the latest version is already installed/,
+    reason: 'already-installed',
+  },
+]
+
+/**
+ * Human-readable descriptions of failure reasons
+ */
+const FAILURE_REASON_DESCRIPTIONS: Record<InstallFailureReason, string> = {
+  'adopt-version-mismatch':
+    'existing app differs from the cask version and could not be adopted',
+  'already-installed': 'cask is already installed',
+  'download-failed': 'download failed',
+  'needs-sudo': 'administrator password required',
+  'sha-mismatch': 'checksum mismatch',
+  unknown: 'unknown error',
+}
+
+/**
+ * Parse the combined output of a `brew install --cask` run into per-cask outcomes
+ *
+ * Lines are attributed to the cask they name explicitly, or otherwise to the
+ * cask Homebrew was installing at that point. Every requested token gets an
+ * entry; casks the output says nothing about are neither installed nor failed.
+ */
+export function parseInstallOutput(
+  output: string,
+  tokens: string[],
+): Map<string, CaskInstallOutcome> {
+  const outcomes = new Map<string, CaskInstallOutcome>(
+    tokens.map((token) => [token, { errors: [], installed: false, token }]),
+  )
+  // A single-cask install only ever talks about that cask
+  let currentToken = tokens.length === 1 ? tokens[0] : undefined
+
+  for (const rawLine of output.split('\n')) {
+    const line = rawLine.trim()
+    const installingMatch = INSTALLING_CASK_REGEX.exec(line)
+
+    if (installingMatch?.[1]) {
+      currentToken = resolveToken(installingMatch[1], outcomes) ?? currentToken
+    } else if (line !== '') {
+      applyLine(line, currentToken, outcomes)
+    }
+  }
+
+  return outcomes
+}
+
+/**
+ * Human-readable description of a failure reason
+ */
+export function describeFailureReason(reason: InstallFailureReason): string {
+  return FAILURE_REASON_DESCRIPTIONS[reason]
+}
+
+/**
+ * Record what a single output line says about the cask it belongs to
+ */
+function applyLine(
+  line: string,
+  currentToken: string | undefined,
+  outcomes: Map<string, CaskInstallOutcome>,
+): void {
+  const successMatch = SUCCESSFULLY_INSTALLED_REGEX.exec(line)
+  const successToken = successMatch?.[1]
+    ? resolveToken(successMatch[1], outcomes)
+    : undefined
+
+  if (successToken !== undefined) {
+    const successOutcome = outcomes.get(successToken)
+
+    if (successOutcome) {
+      successOutcome.installed = true
+    }
+
+    return
+  }
+
+  const reason = classifyLine(line)
+  const token = findReferencedToken(line, outcomes) ?? currentToken
+  const outcome = token === undefined ? undefined : outcomes.get(token)
+
+  if (reason !== undefined && outcome) {
+    outcome.errors.push(line)
+    outcome.failureReason ??= reason
+  }
+}
+
+/**
+ * Classify an output line, returning undefined for lines that don't report a problem
+ */
+function classifyLine(line: string): InstallFailureReason | undefined {
+  for (const { pattern, reason } of FAILURE_PATTERNS) {
+    if (pattern.test(line)) {
+      return reason
+    }
+  }
+
+  return ERROR_LINE_REGEX.test(line) ? 'unknown' : undefined
+}
+
+/**
+ * Find a requested cask token that a line refers to explicitly
+ */
+function findReferencedToken(
+  line: string,
+  outcomes: Map<string, CaskInstallOutcome>,
+): string | undefined {
+  const referenceMatch =
+    CASK_REFERENCE_REGEX.exec(line) ?? NOT_UPGRADING_REGEX.exec(line)
+
+  if (!referenceMatch?.[1]) {
+    return
+  }
+
+  return resolveToken(referenceMatch[1], outcomes)
+}
+
+/**
+ * Resolve a (possibly tap-qualified) token from the output to a requested token
+ */
+function resolveToken(
+  value: string,
+  outcomes: Map<string, CaskInstallOutcome>,
+): string | undefined {
+  const token = value.split('/').at(-1) ?? value
+
+  return outcomes.has(token) ? token : undefined
+}
@@ -3,15 +3,30 @@
  */
 
 import { consola } from 'consola'
-import { BREW_COMMANDS, DEFAULT_CONFIG } from './constants.ts'
+import {
+  BREW_COMMANDS,
+  DEFAULT_CONFIG,
+  USER_APPLICATIONS_DIR,
+} from './constants.ts'
+import {
+  describeFailureReason,
+  parseInstallOutput,
+} from './install-output-parser.ts'
 import type {
   AppInfo,
+  CaskInstallOutcome,
   InstallationResult,
   InstallerConfig,
   PackageInstallResult,
 } from './types.ts'
 import { ConvertAppsError, ErrorType } from './types.ts'
-import { executeCommand, pluralize } from './utils.ts'
+import {
+  executeCommand,
+  expandHomeDirectory,
+  isInUserApplicationsDirectory,
+  parseCommandOutput,
+  pluralize,
+} from './utils.ts'
 
 /**
  * Summary separator length
@@ -42,8 +57,12 @@ export function getInstallationSummary(result: InstallationResult): string {
     lines.push(`Failed to install: ${result.failed.length}`)
 
     for (const app of result.failed) {
+      const reasonText = app.failureReason
+        ? ` [${describeFailureReason(app.failureReason)}]`
+        : ''
+
       lines.push(
-        `   • ${app.appName} (${app.packageName}): ${app.error ?? 'Unknown error'}`,
+        `   • ${app.appName} (${app.packageName}): ${app.error ?? 'Unknown error'}${reasonText}`,
       )
     }
   }
@@ -123,18 +142,51 @@ export async function validateInstallationPrerequisites(): Promise<void> {
 }
 
 /**
- * Install Homebrew casks in batch
+ * Install Homebrew casks, one batch per target app directory
  */
 async function installCasks(
   casks: AppInfo[],
   config: InstallerConfig,
+): Promise<PackageInstallResult[]> {
+  const batches = new Map<string | undefined, AppInfo[]>()
+
+  for (const app of casks) {
+    const appdir = getCaskAppDirectory(app)
+    batches.set(appdir, [...(batches.get(appdir) ?? []), app])
+  }
+
+  const results: PackageInstallResult[] = []
+
+  for (const [appdir, batch] of batches) {
+    results.push(...(await installCaskBatch(batch, config, appdir)))
+  }
+
+  return results
+}
+
+/**
+ * Get the app directory to pass to brew for apps outside /Applications
+ */
+function getCaskAppDirectory(app: AppInfo): string | undefined {
+  return isInUserApplicationsDirectory(app.appPath)
+    ? expandHomeDirectory(USER_APPLICATIONS_DIR)
+    : undefined
+}
+
+/**
+ * Install Homebrew casks in batch
+ */
+async function installCaskBatch(
+  casks: AppInfo[],
+  config: InstallerConfig,
+  appdir?: string,
 ): Promise<PackageInstallResult[]> {
   if (casks.length === 0) {
     return []
   }
 
   const caskNames = casks.map((app) => app.brewName)
-  const command = BREW_COMMANDS.INSTALL_CASK(caskNames)
+  const command = BREW_COMMANDS.INSTALL_CASK(caskNames, appdir)
 
   consola.debug(
     `${config.dryRun ? '[DRY RUN] ' : ''}Installing ${casks.length} ${pluralize('cask', casks.length)}: ${caskNames.join(', ')}`,
@@ -142,12 +194,12 @@ async function installCasks(
 
   consola.debug(`Command: ${command}`)
 
-  // Use streamOutput=true to show real-time output during installation
+  // Show real-time output during installation
   const result = await executeCommand(
     command,
     DEFAULT_CONFIG.BREW_COMMAND_TIMEOUT,
     config.dryRun,
-    true,
+    getOutputStream(config),
   )
 
   if (result.success) {
@@ -159,14 +211,187 @@ async function installCasks(
     }))
   }
 
-  consola.error(`Failed to install casks: ${result.stderr}`)
+  const outcomes = parseInstallOutput(result.output ?? result.stderr, caskNames)
+  const results = new Map<string, PackageInstallResult>()
+  const unresolvedCasks: AppInfo[] = []
+
+  for (const app of casks) {
+    const outcome = outcomes.get(app.brewName)
+    const outcomeResult = outcome
+      ? createResultFromOutcome(app, outcome, config)
+      : undefined
+
+    if (outcomeResult) {
+      results.set(app.brewName, outcomeResult)
+    } else {
+      unresolvedCasks.push(app)
+    }
+  }
+
+  if (unresolvedCasks.length > 0) {
+    consola.warn(
+      `Batch installation failed, checking which of the remaining ${unresolvedCasks.length} ${pluralize('cask', unresolvedCasks.length)} were installed...`,
+    )
+    consola.debug(`Batch install error: ${result.stderr}`)
+
+    for (const recoveredResult of await recoverFromBatchFailure(
+      unresolvedCasks,
+      config,
+    )) {
+      results.set(recoveredResult.packageName, recoveredResult)
+    }
+  }
+
+  return casks
+    .map((app) => results.get(app.brewName))
+    .filter(
+      (packageResult): packageResult is PackageInstallResult =>
+        packageResult !== undefined,
+    )
+}
 
-  // In case of batch failure, mark all as failed
-  return casks.map((app) => ({
+/**
+ * Create an install result from a parsed outcome, or undefined if the output
+ * doesn't tell whether the cask was installed
+ */
+function createResultFromOutcome(
+  app: AppInfo,
+  outcome: CaskInstallOutcome,
+  config: InstallerConfig,
+): PackageInstallResult | undefined {
+  if (outcome.installed || outcome.failureReason === 'already-installed') {
+    return {
+      appName: app.originalName,
+      dryRun: config.dryRun,
+      packageName: app.brewName,
+      success: true,
+    }
+  }
+
+  if (outcome.failureReason === undefined) {
+    return
+  }
+
+  return {
+    appName: app.originalName,
+    dryRun: config.dryRun,
+    error: outcome.errors.join('\n'),
+    failureReason: outcome.failureReason,
+    packageName: app.brewName,
+    success: false,
+  }
+}
+
+/**
+ * Determine per-cask results after a failed batch install
+ *
+ * Casks that Homebrew installed before the batch failed are reported as
+ * successful, the rest are retried one at a time so each one gets its own error.
+ */
+async function recoverFromBatchFailure(
+  casks: AppInfo[],
+  config: InstallerConfig,
+): Promise<PackageInstallResult[]> {
+  const installedCasks = await getInstalledCasks()
+  const results: PackageInstallResult[] = []
+
+  for (const app of casks) {
+    if (installedCasks.has(app.brewName)) {
+      consola.debug(`${app.brewName} was installed by the batch command`)
+      results.push({
+        appName: app.originalName,
+        dryRun: config.dryRun,
+        packageName: app.brewName,
+        success: true,
+      })
+      continue
+    }
+
+    results.push(await installSingleCask(app, config))
+  }
+
+  return results
+}
+
+/**
+ * Get the set of casks currently installed via Homebrew
+ */
+async function getInstalledCasks(): Promise<Set<string>> {
+  const result = await executeCommand(
+    BREW_COMMANDS.LIST_CASKS,
+    DEFAULT_CONFIG.BREW_COMMAND_TIMEOUT,
+  )
+
+  if (!result.success) {
+    consola.debug(`Failed to list installed casks: ${result.stderr}`)
+    return new Set()
+  }
+
+  return new Set(parseCommandOutput(result.stdout))
+}
+
+/**
+ * Install a single Homebrew cask
+ */
+async function installSingleCask(
+  app: AppInfo,
+  config: InstallerConfig,
+): Promise<PackageInstallResult> {
+  const command = BREW_COMMANDS.INSTALL_CASK(
+    [app.brewName],
+    getCaskAppDirectory(app),
+  )
+
+  consola.info(`Retrying ${app.originalName} (${app.brewName}) individually...`)
+  consola.debug(`Command: ${command}`)
+
+  const result = await executeCommand(
+    command,
+    DEFAULT_CONFIG.BREW_COMMAND_TIMEOUT,
+    config.dryRun,
+    getOutputStream(config),
+  )
+
+  if (result.success) {
+    return {
+      appName: app.originalName,
+      dryRun: config.dryRun,
+      packageName: app.brewName,
+      success: true,
+    }
+  }
+
+  // brew exits non-zero for a cask that is already installed, which the
+  // output tells apart from a real failure
+  const outcome = parseInstallOutput(result.output ?? result.stderr, [
+    app.brewName,
+  ]).get(app.brewName)
+  const outcomeResult = outcome
+    ? createResultFromOutcome(app, outcome, config)
+    : undefined
+
+  if (outcomeResult?.success) {
+    return outcomeResult
+  }
+
+  consola.error(`Failed to install ${app.brewName}: ${result.stderr}`)
+
+  if (outcomeResult) {
+    return outcomeResult
+  }
+
+  return {
     appName: app.originalName,
     dryRun: config.dryRun,
     error: result.stderr,
     packageName: app.brewName,
     success: false,
-  }))
+  }
+}
+
+/**
+ * Get the stream to show brew output on, keeping stdout clean for the JSON report
+ */
+function getOutputStream(config: InstallerConfig): NodeJS.WritableStream {
+  return config.json ? process.stderr : process.stdout
 }
@@ -0,0 +1,132 @@
+/**
+ * JSON Web Signature (JWS) documents, as used by Homebrew's signed API files
+ */
+
+import { Buffer } from 'node:buffer'
+import { constants, createPublicKey, verify } from 'node:crypto'
+import type { JwsDocument, JwsSignature } from './types.ts'
+import { ConvertAppsError, ErrorType } from './types.ts'
+
+/**
+ * Signature algorithm of Homebrew's API files: RSASSA-PSS with SHA-512
+ */
+const JWS_ALGORITHM = 'PS512'
+
+/**
+ * Parse a JWS document in the general JSON serialization
+ */
+export function parseJwsDocument(contents: string): JwsDocument {
+  let data: unknown
+
+  try {
+    data = JSON.parse(contents)
+  } catch (error) {
+    throw new ConvertAppsError(
+      'JWS document is not valid JSON',
+      ErrorType.INVALID_INPUT,
+      error instanceof Error ? error : undefined,
+    )
+  }
+
+  const document = data as Partial<JwsDocument> | null
+
+  if (
+    typeof document?.payload !== 'string' ||
+    !Array.isArray(document.signatures) ||
+    !document.signatures.every(isJwsSignature)
+  ) {
+    throw new ConvertAppsError(
+      'JWS document must have a payload and signatures',
+      ErrorType.INVALID_INPUT,
+    )
+  }
+
+  return { payload: document.payload, signatures: document.signatures }
+}
+
+/**
+ * Decode the protected header of a signature
+ */
+export function decodeProtectedHeader(
+  signature: JwsSignature,
+): Record<string, unknown> {
+  try {
+    return JSON.parse(
+      Buffer.from(signature.protected, 'base64url').toString('utf-8'),
+    ) as Record<string, unknown>
+  } catch (error) {
+    throw new ConvertAppsError(
+      'JWS protected header is not valid',
+      ErrorType.INVALID_INPUT,
+      error instanceof Error ? error : undefined,
+    )
+  }
+}
+
+/**
+ * Get the payload of a JWS document as text
+ *
+ * Homebrew signs with an unencoded payload (`"b64": false`); otherwise the
+ * payload is base64url-encoded as usual. The header of the given signature
+ * decides, so pass the one that was verified.
+ */
+export function decodeJwsPayload(
+  document: JwsDocument,
+  signature: JwsSignature | undefined = document.signatures[0],
+): string {
+  const isUnencoded =
+    signature !== undefined && decodeProtectedHeader(signature)['b64'] === false
+
+  return isUnencoded
+    ? document.payload
+    : Buffer.from(document.payload, 'base64url').toString('utf-8')
+}
+
+/**
+ * Find the signature of a JWS document that a PEM-encoded RSA public key verifies
+ *
+ * Only PS512 signatures are accepted, which is what Homebrew uses. When a key
+ * ID is given, only the signature with that `kid` is checked.
+ */
+export function findVerifiedSignature(
+  document: JwsDocument,
+  publicKey: string,
+  keyId?: string,
+): JwsSignature | undefined {
+  const signatures = document.signatures.filter(
+    (signature) => keyId === undefined || signature.header?.['kid'] === keyId,
+  )
+
+  return signatures.find((signature) => {
+    try {
+      if (decodeProtectedHeader(signature)['alg'] !== JWS_ALGORITHM) {
+        return false
+      }
+
+      return verify(
+        'sha512',
+        Buffer.from(`${signature.protected}.${document.payload}`),
+        {
+          key: createPublicKey(publicKey),
+          padding: constants.RSA_PKCS1_PSS_PADDING,
+          saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+        },
+        Buffer.from(signature.signature, 'base64url'),
+      )
+    } catch {
+      return false
+    }
+  })
+}
+
+/**
+ * Check that a value has the fields of a JWS signature
+ */
+function isJwsSignature(value: unknown): value is JwsSignature {
+  const signature = value as Partial<JwsSignature> | null
+
+  return (
+    typeof signature?.protected === 'string' &&
+    typeof signature.signature === 'string'
+  )
+}
@@ -0,0 +1,140 @@
+/**
+ * User-defined app to cask mappings that override automatic matching
+ */
+
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { consola } from 'consola'
+import type { AppInfo, CaskMapping } from './types.ts'
+import { ConvertAppsError, ErrorType } from './types.ts'
+import {
+  createWildcardPattern,
+  expandHomeDirectory,
+  getUserConfigDirectory,
+  hasWildcard,
+  normalizeAppName,
+} from './utils.ts'
+
+const MAPPINGS_FILE_NAME = 'mappings.json'
+
+/**
+ * Default location of the mappings file
+ */
+export function getDefaultMappingsPath(): string {
+  return path.join(getUserConfigDirectory(), MAPPINGS_FILE_NAME)
+}
+
+/**
+ * Load mappings from a file
+ *
+ * The file is a JSON object whose keys are app names, bundle IDs or wildcard
+ * patterns, and whose values are cask tokens or null to force an app to be
+ * unavailable. A missing default file means there are no mappings, while a
+ * missing file that was asked for explicitly is an error.
+ */
+export async function loadMappings(
+  mappingsFile?: string,
+): Promise<CaskMapping[]> {
+  const filePath = expandHomeDirectory(mappingsFile ?? getDefaultMappingsPath())
+  let contents: string
+
+  try {
+    contents = await fs.readFile(filePath, 'utf-8')
+  } catch (error: unknown) {
+    if (
+      mappingsFile === undefined &&
+      (error as { code?: string }).code === 'ENOENT'
+    ) {
+      return []
+    }
+
+    throw new ConvertAppsError(
+      `Failed to read mappings file: ${filePath}`,
+      ErrorType.FILE_NOT_FOUND,
+      error instanceof Error ? error : undefined,
+    )
+  }
+
+  const mappings = parseMappings(contents, filePath)
+  consola.debug(`Loaded ${mappings.length} cask mappings from ${filePath}`)
+
+  return mappings
+}
+
+/**
+ * Parse and validate the contents of a mappings file
+ */
+export function parseMappings(
+  contents: string,
+  filePath: string,
+): CaskMapping[] {
+  let data: unknown
+
+  try {
+    data = JSON.parse(contents)
+  } catch (error) {
+    throw new ConvertAppsError(
+      `Mappings file is not valid JSON: ${filePath}`,
+      ErrorType.INVALID_INPUT,
+      error instanceof Error ? error : undefined,
+    )
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new ConvertAppsError(
+      `Mappings file must contain a JSON object: ${filePath}`,
+      ErrorType.INVALID_INPUT,
+    )
+  }
+
+  const mappings: CaskMapping[] = []
+
+  for (const [pattern, token] of Object.entries(data)) {
+    if (token !== null && (typeof token !== 'string' || token.trim() === '')) {
+      throw new ConvertAppsError(
+        `Mapping for "${pattern}" must be a cask token or null in ${filePath}`,
+        ErrorType.INVALID_INPUT,
+      )
+    }
+
+    mappings.push({ pattern, token: token === null ? null : token.trim() })
+  }
+
+  // Exact names and bundle IDs take precedence over wildcard patterns
+  return [
+    ...mappings.filter((mapping) => !hasWildcard(mapping.pattern)),
+    ...mappings.filter((mapping) => hasWildcard(mapping.pattern)),
+  ]
+}
+
+/**
+ * Find the first mapping that applies to an app
+ */
+export function findMapping(
+  mappings: CaskMapping[],
+  app: AppInfo,
+): CaskMapping | undefined {
+  return mappings.find((mapping) => mappingMatchesApp(mapping, app))
+}
+
+/**
+ * Check whether a mapping's pattern matches an app's name or bundle ID
+ */
+function mappingMatchesApp(mapping: CaskMapping, app: AppInfo): boolean {
+  const values = [app.originalName, app.bundleId].filter(
+    (value): value is string => value !== undefined,
+  )
+
+  if (hasWildcard(mapping.pattern)) {
+    const regex = createWildcardPattern(mapping.pattern)
+
+    return values.some((value) => regex.test(value))
+  }
+
+  const normalizedPattern = normalizeAppName(mapping.pattern)
+
+  return (
+    normalizedPattern === normalizeAppName(app.originalName) ||
+    mapping.pattern.toLowerCase() === app.bundleId?.toLowerCase()
+  )
+}
@@ -2,16 +2,23 @@
  * Mac App Store integration using mas CLI tool
  */
 
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
 import { consola } from 'consola'
-
 import { FILE_PATTERNS } from './constants.ts'
-import type { MasAppInfo, MasIntegrationResult } from './types.ts'
-import { executeCommand } from './utils.ts'
+import type { AppInfo, MasAppInfo, MasIntegrationResult } from './types.ts'
+import { executeCommand, normalizeBundleIdentifier } from './utils.ts'
 
 /**
  * Regular expressions used in this module
  */
-const CLOSING_PAREN_REGEX = /\)$/
+const MAS_LINE_REGEX =
+  /^\s*(\d+)\s+(?:([A-Za-z][\w-]*(?:\.[\w-]+){2,})\s+)?(.+?)(?:\s+\(([^()]*)\))?\s*$/
+
+/**
+ * Receipt that the Mac App Store puts in every app it installs
+ */
+const MAS_RECEIPT_PATH = ['Contents', '_MASReceipt', 'receipt']
 
 /**
  * Mac App Store CLI commands
@@ -76,36 +83,94 @@ export async function getMacAppStoreApps(): Promise<MasIntegrationResult> {
 }
 
 /**
- * Check if an app name matches any Mac App Store app
+ * Work out whether an app was installed from the Mac App Store
+ *
+ * The receipt in the app bundle decides it; the mas app list, when there is
+ * one, adds the App Store ID and fills in a missing version.
  */
-export function isAppFromMacAppStore(
-  appName: string,
+export async function getAppStoreInfo(
+  app: Pick<
+    AppInfo,
+    'appPath' | 'bundleId' | 'displayName' | 'originalName' | 'version'
+  >,
   masApps: MasAppInfo[],
-): boolean {
-  if (masApps.length === 0) {
-    return false
+): Promise<
+  Pick<
+    AppInfo,
+    'appStoreEvidence' | 'appStoreId' | 'fromMacAppStore' | 'version'
+  >
+> {
+  const hasReceipt = await hasMacAppStoreReceipt(app.appPath)
+  const masApp = findMacAppStoreApp(app, masApps)
+
+  if (!hasReceipt && masApp === undefined) {
+    return { fromMacAppStore: false }
   }
 
-  const normalizedAppName = appName
-    .toLowerCase()
-    .replace(FILE_PATTERNS.APP_PATTERN, '')
+  return {
+    appStoreEvidence: hasReceipt ? 'receipt' : 'mas-list',
+    ...(masApp !== undefined && { appStoreId: masApp.appId }),
+    fromMacAppStore: true,
+    ...(app.version === undefined &&
+      masApp?.version !== undefined && { version: masApp.version }),
+  }
+}
 
-  return masApps.some((masApp) => {
-    const normalizedMasName = masApp.name.toLowerCase()
+/**
+ * Check whether an app bundle has a Mac App Store receipt
+ */
+async function hasMacAppStoreReceipt(appPath: string): Promise<boolean> {
+  try {
+    await fs.access(path.join(appPath, ...MAS_RECEIPT_PATH))
+    return true
+  } catch {
+    return false
+  }
+}
 
-    // Exact match
-    if (normalizedMasName === normalizedAppName) {
-      return true
-    }
+/**
+ * Find the Mac App Store app that an app is
+ *
+ * Bundle IDs are compared first. Apps without one to compare fall back to the
+ * name, which must match exactly, ignoring case, so "Notes" doesn't match
+ * "Notes Pro".
+ */
+export function findMacAppStoreApp(
+  app: Pick<AppInfo, 'bundleId' | 'displayName' | 'originalName'>,
+  masApps: MasAppInfo[],
+): MasAppInfo | undefined {
+  const bundleId =
+    app.bundleId === undefined
+      ? undefined
+      : normalizeBundleIdentifier(app.bundleId)
+  const bundleIdMatch = masApps.find(
+    (masApp) =>
+      masApp.bundleId !== undefined &&
+      normalizeBundleIdentifier(masApp.bundleId) === bundleId,
+  )
+
+  if (bundleIdMatch !== undefined) {
+    return bundleIdMatch
+  }
 
-    // Check if app name is contained in mas name or vice versa
-    // This handles cases like "App Name" vs "App Name Pro"
-    const hasNameMatch =
-      normalizedMasName.includes(normalizedAppName) ||
-      normalizedAppName.includes(normalizedMasName)
+  const names = new Set(
+    [app.originalName, app.displayName]
+      .filter((name) => name !== undefined)
+      .map((name) => normalizeMasName(name)),
+  )
+
+  return masApps.find(
+    (masApp) =>
+      (bundleId === undefined || masApp.bundleId === undefined) &&
+      names.has(normalizeMasName(masApp.name)),
+  )
+}
 
-    return Boolean(hasNameMatch)
-  })
+/**
+ * Normalize an app name for comparison with mas names
+ */
+function normalizeMasName(name: string): string {
+  return name.replace(FILE_PATTERNS.APP_PATTERN, '').trim().toLowerCase()
 }
 
 /**
@@ -122,51 +187,39 @@ async function isMasInstalled(): Promise<boolean> {
 }
 
 /**
- * Parse mas list output format: <app-id> <app-name> (<version>)
- * Example: "497799835 Xcode (15.4)"
+ * Parse mas list output: <app-id> [<bundle-id>] <app-name> [(<version>)]
+ *
+ * Older mas versions separate the columns with single spaces, newer ones pad
+ * them and can add the bundle ID. Lines that don't start with an app ID, such
+ * as warnings, are skipped.
+ *
+ * @example
+ * parseMasOutput('497799835  Xcode  (15.4)')
+ * // [{ appId: '497799835', name: 'Xcode', version: '15.4' }]
  */
-function parseMasOutput(output: string): MasAppInfo[] {
-  const lines = output
-    .trim()
-    .split('\n')
-    .filter((line) => line.trim().length > 0)
+export function parseMasOutput(output: string): MasAppInfo[] {
   const apps: MasAppInfo[] = []
 
-  for (const line of lines) {
-    try {
-      // Find the first space to separate app ID
-      const firstSpaceIndex = line.indexOf(' ')
+  for (const line of output.split('\n')) {
+    if (line.trim() === '') continue
 
-      if (firstSpaceIndex === -1) continue
+    const match = MAS_LINE_REGEX.exec(line)
+    const [, appId, bundleId, name, version] = match ?? []
 
-      const appId = line.slice(0, firstSpaceIndex).trim()
-      const remainder = line.slice(firstSpaceIndex + 1).trim()
-
-      // Find the last occurrence of " (" to separate name and version
-      const lastParenIndex = remainder.lastIndexOf(' (')
-
-      if (lastParenIndex === -1) continue
-
-      const appName = remainder.slice(0, lastParenIndex).trim()
-      const versionPart = remainder.slice(lastParenIndex + 2) // Skip " ("
-
-      // Remove trailing ")"
-      const version = versionPart.replace(CLOSING_PAREN_REGEX, '').trim()
-
-      if (appId.length > 0 && appName.length > 0 && version.length > 0) {
-        apps.push({
-          appId,
-          name: appName,
-          version,
-        })
-      } else {
-        consola.debug(`Could not parse mas line: ${line}`)
-      }
-    } catch (error) {
-      consola.debug(
-        `Error parsing mas line "${line}": ${error instanceof Error ? error.message : 'Unknown error'}`,
-      )
+    if (appId === undefined || name === undefined) {
+      consola.debug(`Could not parse mas line: ${line}`)
+      continue
     }
+
+    apps.push({
+      appId,
+      ...(bundleId !== undefined && { bundleId }),
+      name,
+      ...(version !== undefined &&
+        version.trim() !== '' && {
+          version: version.trim(),
+        }),
+    })
   }
 
   return apps
@@ -0,0 +1,590 @@
+/**
+ * Property list parser for the XML and binary (bplist00) formats
+ */
+
+import { Buffer } from 'node:buffer'
+import type { PlistDictionary, PlistValue } from './types.ts'
+import { ConvertAppsError, ErrorType } from './types.ts'
+
+const BINARY_PLIST_MAGIC = 'bplist00'
+const NIBBLE = 16
+const MS_PER_SECOND = 1000
+/** Seconds from the Unix epoch to 2001-01-01, which binary plist dates count from */
+const APPLE_EPOCH_SECONDS = 978_307_200
+/** Low nibble of a length that is stored in a following integer object */
+const EXTENDED_LENGTH = 0xf
+const FLOAT32_SIZE = 4
+const INT64_SIZE = 8
+const INT128_SIZE = 16
+
+/**
+ * Layout of the 32-byte trailer at the end of a binary plist
+ */
+const BINARY_TRAILER = {
+  OBJECT_COUNT: 8,
+  OFFSET_SIZE: 6,
+  OFFSET_TABLE_OFFSET: 24,
+  REFERENCE_SIZE: 7,
+  SIZE: 32,
+  TOP_OBJECT: 16,
+} as const
+
+/**
+ * Object types, from the high nibble of a binary plist object marker
+ */
+const BINARY_OBJECT_TYPE = {
+  ARRAY: 0xa,
+  ASCII_STRING: 0x5,
+  DATA: 0x4,
+  DATE: 0x3,
+  DICTIONARY: 0xd,
+  INTEGER: 0x1,
+  REAL: 0x2,
+  SINGLETON: 0x0,
+  UID: 0x8,
+  UTF16_STRING: 0x6,
+} as const
+
+const BINARY_SINGLETON = {
+  FALSE: 0x8,
+  NULL: 0x0,
+  TRUE: 0x9,
+} as const
+
+const XML_IGNORED_REGEX = /<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/g
+const XML_CDATA_REGEX = /<!\[CDATA\[([\s\S]*?)\]\]>/g
+const XML_TOKEN_REGEX = /<(\/?)([A-Za-z]+)[^>]*?(\/?)>|([^<]+)/g
+const XML_ENTITY_REGEX = /&(#x[\dA-Fa-f]+|#\d+|amp|apos|gt|lt|quot);/g
+const WHITESPACE_REGEX = /\s+/g
+const HEX_RADIX = 16
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  apos: "'",
+  gt: '>',
+  lt: '<',
+  quot: '"',
+}
+
+/**
+ * Element or text in an XML plist
+ */
+type XmlToken =
+  | { kind: 'close' | 'empty' | 'open'; name: string }
+  | { kind: 'text'; value: string }
+
+/**
+ * Parse a property list in the XML or binary format
+ *
+ * @throws {ConvertAppsError} If the contents aren't a valid property list
+ */
+export function parsePlist(contents: Uint8Array): PlistValue {
+  const buffer = Buffer.from(
+    contents.buffer,
+    contents.byteOffset,
+    contents.byteLength,
+  )
+
+  if (
+    buffer.toString('latin1', 0, BINARY_PLIST_MAGIC.length) ===
+    BINARY_PLIST_MAGIC
+  ) {
+    return new BinaryPlistReader(buffer).read()
+  }
+
+  return new XmlPlistReader(buffer.toString('utf-8')).read()
+}
+
+/**
+ * Error for a property list that can't be parsed
+ */
+function createPlistError(message: string): ConvertAppsError {
+  return new ConvertAppsError(
+    `Invalid property list: ${message}`,
+    ErrorType.INVALID_INPUT,
+  )
+}
+
+/**
+ * Reader for binary plists, which store objects in a table referred to by index
+ */
+class BinaryPlistReader {
+  private readonly buffer: Buffer
+  private readonly offsets: number[] = []
+  private readonly referenceSize: number
+  private readonly topObject: number
+  /** Objects being read, to catch containers that contain themselves */
+  private readonly visiting = new Set<number>()
+
+  constructor(buffer: Buffer) {
+    if (buffer.length < BINARY_PLIST_MAGIC.length + BINARY_TRAILER.SIZE) {
+      throw createPlistError('binary plist is truncated')
+    }
+
+    this.buffer = buffer
+    const trailer = buffer.length - BINARY_TRAILER.SIZE
+    const offsetSize = buffer.readUInt8(trailer + BINARY_TRAILER.OFFSET_SIZE)
+    const objectCount = this.readUnsigned(
+      trailer + BINARY_TRAILER.OBJECT_COUNT,
+      INT64_SIZE,
+    )
+    const offsetTableOffset = this.readUnsigned(
+      trailer + BINARY_TRAILER.OFFSET_TABLE_OFFSET,
+      INT64_SIZE,
+    )
+
+    this.referenceSize = buffer.readUInt8(
+      trailer + BINARY_TRAILER.REFERENCE_SIZE,
+    )
+    this.topObject = this.readUnsigned(
+      trailer + BINARY_TRAILER.TOP_OBJECT,
+      INT64_SIZE,
+    )
+
+    if (offsetTableOffset + objectCount * offsetSize > trailer) {
+      throw createPlistError('binary plist offset table is out of bounds')
+    }
+
+    for (let index = 0; index < objectCount; index++) {
+      this.offsets.push(
+        this.readUnsigned(offsetTableOffset + index * offsetSize, offsetSize),
+      )
+    }
+  }
+
+  /**
+   * Read the top-level object
+   */
+  read(): PlistValue {
+    try {
+      return this.readObject(this.topObject)
+    } catch (error) {
+      if (error instanceof ConvertAppsError) {
+        throw error
+      }
+
+      // Offsets pointing past the end of the buffer
+      throw createPlistError(
+        error instanceof Error ? error.message : 'unreadable binary plist',
+      )
+    }
+  }
+
+  private readObject(reference: number): PlistValue {
+    const offset = this.offsets[reference]
+
+    if (offset === undefined) {
+      throw createPlistError(`no object ${reference} in binary plist`)
+    }
+
+    if (this.visiting.has(reference)) {
+      throw createPlistError(`object ${reference} contains itself`)
+    }
+
+    this.visiting.add(reference)
+
+    try {
+      return this.readObjectAt(offset)
+    } finally {
+      this.visiting.delete(reference)
+    }
+  }
+
+  private readObjectAt(offset: number): PlistValue {
+    const marker = this.buffer.readUInt8(offset)
+    const type = Math.floor(marker / NIBBLE)
+    const info = marker % NIBBLE
+
+    switch (type) {
+      case BINARY_OBJECT_TYPE.SINGLETON:
+        return this.readSingleton(info)
+      case BINARY_OBJECT_TYPE.INTEGER:
+        return this.readInteger(offset + 1, 2 ** info)
+      case BINARY_OBJECT_TYPE.REAL:
+        return this.readReal(offset + 1, 2 ** info)
+      case BINARY_OBJECT_TYPE.DATE:
+        return new Date(
+          (this.buffer.readDoubleBE(offset + 1) + APPLE_EPOCH_SECONDS) *
+            MS_PER_SECOND,
+        )
+      case BINARY_OBJECT_TYPE.DATA: {
+        const { length, start } = this.readLength(offset, info)
+        return Uint8Array.from(this.readBytes(start, length))
+      }
+      case BINARY_OBJECT_TYPE.ASCII_STRING: {
+        const { length, start } = this.readLength(offset, info)
+        return this.readBytes(start, length).toString('latin1')
+      }
+      case BINARY_OBJECT_TYPE.UTF16_STRING: {
+        const { length, start } = this.readLength(offset, info)
+        // UTF-16 big endian, which Node only decodes as little endian
+        return Buffer.from(this.readBytes(start, length * 2))
+          .swap16()
+          .toString('utf16le')
+      }
+      case BINARY_OBJECT_TYPE.UID:
+        return this.readUnsigned(offset + 1, info + 1)
+      case BINARY_OBJECT_TYPE.ARRAY: {
+        const { length, start } = this.readLength(offset, info)
+        return this.readReferences(start, length).map((reference) =>
+          this.readObject(reference),
+        )
+      }
+      case BINARY_OBJECT_TYPE.DICTIONARY: {
+        const { length, start } = this.readLength(offset, info)
+        return this.readDictionary(start, length)
+      }
+      default:
+        throw createPlistError(
+          `unknown binary object type 0x${type.toString(HEX_RADIX)}`,
+        )
+    }
+  }
+
+  private readSingleton(info: number): PlistValue {
+    if (info === BINARY_SINGLETON.TRUE) return true
+    if (info === BINARY_SINGLETON.FALSE) return false
+
+    // Null has no equivalent in XML plists, so it isn't a valid value
+    throw createPlistError(
+      info === BINARY_SINGLETON.NULL
+        ? 'null values are not supported'
+        : `unknown binary singleton 0x${info.toString(HEX_RADIX)}`,
+    )
+  }
+
+  private readInteger(offset: number, size: number): number {
+    if (size === INT64_SIZE) {
+      return Number(this.buffer.readBigInt64BE(offset))
+    }
+
+    // 16-byte integers only hold 64-bit values, in their lower half
+    if (size === INT128_SIZE) {
+      return Number(this.buffer.readBigInt64BE(offset + size / 2))
+    }
+
+    return this.readUnsigned(offset, size)
+  }
+
+  private readReal(offset: number, size: number): number {
+    if (size === FLOAT32_SIZE) {
+      return this.buffer.readFloatBE(offset)
+    }
+
+    if (size === INT64_SIZE) {
+      return this.buffer.readDoubleBE(offset)
+    }
+
+    throw createPlistError(`unsupported binary real size ${size}`)
+  }
+
+  /**
+   * Read the length of an object and where its contents start
+   */
+  private readLength(
+    offset: number,
+    info: number,
+  ): { length: number; start: number } {
+    if (info !== EXTENDED_LENGTH) {
+      return { length: info, start: offset + 1 }
+    }
+
+    const lengthMarker = this.buffer.readUInt8(offset + 1)
+
+    if (Math.floor(lengthMarker / NIBBLE) !== BINARY_OBJECT_TYPE.INTEGER) {
+      throw createPlistError('binary object length is not an integer')
+    }
+
+    const size = 2 ** (lengthMarker % NIBBLE)
+
+    return {
+      length: this.readInteger(offset + 2, size),
+      start: offset + 2 + size,
+    }
+  }
+
+  private readDictionary(start: number, length: number): PlistDictionary {
+    const keys = this.readReferences(start, length)
+    const values = this.readReferences(
+      start + length * this.referenceSize,
+      length,
+    )
+    const dictionary: PlistDictionary = {}
+
+    for (const [index, keyReference] of keys.entries()) {
+      const key = this.readObject(keyReference)
+      const valueReference = values[index]
+
+      if (typeof key !== 'string' || valueReference === undefined) {
+        throw createPlistError('binary dictionary keys must be strings')
+      }
+
+      dictionary[key] = this.readObject(valueReference)
+    }
+
+    return dictionary
+  }
+
+  private readReferences(start: number, count: number): number[] {
+    return Array.from({ length: count }, (_, index) =>
+      this.readUnsigned(start + index * this.referenceSize, this.referenceSize),
+    )
+  }
+
+  private readBytes(start: number, length: number): Buffer {
+    if (start + length > this.buffer.length) {
+      throw createPlistError('binary object is out of bounds')
+    }
+
+    return this.buffer.subarray(start, start + length)
+  }
+
+  /**
+   * Read a big-endian unsigned integer of 1 to 8 bytes
+   */
+  private readUnsigned(offset: number, size: number): number {
+    if (size === INT64_SIZE) {
+      return Number(this.buffer.readBigUInt64BE(offset))
+    }
+
+    if (size < 1 || size > INT64_SIZE) {
+      throw createPlistError(`unsupported binary integer size ${size}`)
+    }
+
+    return this.buffer.readUIntBE(offset, size)
+  }
+}
+
+/**
+ * Reader for XML plists, going through their elements in order
+ */
+class XmlPlistReader {
+  private position = 0
+  private readonly tokens: XmlToken[]
+
+  constructor(xml: string) {
+    this.tokens = tokenizeXml(xml)
+  }
+
+  /**
+   * Read the value inside the plist element
+   */
+  read(): PlistValue {
+    const root = this.nextElement()
+
+    if (root.kind !== 'open' || root.name !== 'plist') {
+      throw createPlistError('missing plist element')
+    }
+
+    const value = this.readValue()
+    this.expectClose('plist')
+    return value
+  }
+
+  private readValue(): PlistValue {
+    const element = this.nextElement()
+
+    if (element.kind === 'empty') {
+      return getEmptyElementValue(element.name)
+    }
+
+    if (element.kind !== 'open') {
+      throw createPlistError(`unexpected closing tag </${element.name}>`)
+    }
+
+    switch (element.name) {
+      case 'array':
+        return this.readArray()
+      case 'dict':
+        return this.readDictionary()
+      case 'data':
+        return Uint8Array.from(
+          Buffer.from(
+            this.readText('data').replaceAll(WHITESPACE_REGEX, ''),
+            'base64',
+          ),
+        )
+      case 'date':
+        return new Date(this.readText('date'))
+      case 'false':
+      case 'true':
+        this.expectClose(element.name)
+        return element.name === 'true'
+      case 'integer':
+      case 'real':
+        return this.readNumber(element.name)
+      case 'string':
+        return this.readText('string')
+      default:
+        throw createPlistError(`unknown element <${element.name}>`)
+    }
+  }
+
+  private readArray(): PlistValue[] {
+    const array: PlistValue[] = []
+
+    while (!this.skipClose('array')) {
+      array.push(this.readValue())
+    }
+
+    return array
+  }
+
+  private readDictionary(): PlistDictionary {
+    const dictionary: PlistDictionary = {}
+
+    while (!this.skipClose('dict')) {
+      const element = this.nextElement()
+
+      if (element.kind === 'empty' && element.name === 'key') {
+        dictionary[''] = this.readValue()
+        continue
+      }
+
+      if (element.kind !== 'open' || element.name !== 'key') {
+        throw createPlistError('dictionary values must follow a <key>')
+      }
+
+      const key = this.readText('key')
+      dictionary[key] = this.readValue()
+    }
+
+    return dictionary
+  }
+
+  private readNumber(name: string): number {
+    const text = this.readText(name).trim()
+    const number = Number(text)
+
+    if (text === '' || Number.isNaN(number)) {
+      throw createPlistError(`<${name}> is not a number: ${text}`)
+    }
+
+    return number
+  }
+
+  /**
+   * Read the text of an element up to its closing tag
+   */
+  private readText(name: string): string {
+    const token = this.tokens[this.position]
+    let text = ''
+
+    if (token?.kind === 'text') {
+      text = decodeXmlEntities(token.value)
+      this.position++
+    }
+
+    this.expectClose(name)
+    return text
+  }
+
+  /**
+   * Skip a closing tag if it comes next, returning whether it did
+   */
+  private skipClose(name: string): boolean {
+    this.skipWhitespace()
+    const token = this.tokens[this.position]
+
+    if (token?.kind === 'close' && token.name === name) {
+      this.position++
+      return true
+    }
+
+    return false
+  }
+
+  private expectClose(name: string): void {
+    if (!this.skipClose(name)) {
+      throw createPlistError(`missing </${name}>`)
+    }
+  }
+
+  private nextElement(): Exclude<XmlToken, { kind: 'text' }> {
+    this.skipWhitespace()
+    const token = this.tokens[this.position]
+
+    if (token === undefined) {
+      throw createPlistError('unexpected end of XML')
+    }
+
+    if (token.kind === 'text') {
+      throw createPlistError(`unexpected text "${token.value.trim()}"`)
+    }
+
+    this.position++
+    return token
+  }
+
+  private skipWhitespace(): void {
+    const token = this.tokens[this.position]
+
+    if (token?.kind === 'text' && token.value.trim() === '') {
+      this.position++
+    }
+  }
+}
+
+/**
+ * Split XML into elements and text, leaving out the prolog, comments and doctype
+ */
+function tokenizeXml(xml: string): XmlToken[] {
+  const content = xml
+    .replaceAll(XML_IGNORED_REGEX, '')
+    .replaceAll(XML_CDATA_REGEX, (_, text: string) =>
+      text.replaceAll('&', '&amp;').replaceAll('<', '&lt;'),
+    )
+  const tokens: XmlToken[] = []
+
+  for (const match of content.matchAll(XML_TOKEN_REGEX)) {
+    const [, closing, name = '', selfClosing, text] = match
+
+    if (text !== undefined) {
+      tokens.push({ kind: 'text', value: text })
+    } else if (closing === '/') {
+      tokens.push({ kind: 'close', name })
+    } else {
+      tokens.push({ kind: selfClosing === '/' ? 'empty' : 'open', name })
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Value of a self-closing element such as <true/> or <string/>
+ */
+function getEmptyElementValue(name: string): PlistValue {
+  const values: Record<string, () => PlistValue> = {
+    array: () => [],
+    data: () => new Uint8Array(),
+    dict: () => ({}),
+    false: () => false,
+    string: () => '',
+    true: () => true,
+  }
+  const createValue = values[name]
+
+  if (createValue === undefined) {
+    throw createPlistError(`<${name}/> has no value`)
+  }
+
+  return createValue()
+}
+
+/**
+ * Replace XML character and entity references with their characters
+ */
+function decodeXmlEntities(text: string): string {
+  return text.replaceAll(XML_ENTITY_REGEX, (reference, entity: string) => {
+    if (entity.startsWith('#x')) {
+      return String.fromCodePoint(Number.parseInt(entity.slice(2), HEX_RADIX))
+    }
+
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(Number.parseInt(entity.slice(1), 10))
+    }
+
+    return XML_ENTITIES[entity] ?? reference
+  })
+}
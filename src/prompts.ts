@@ -5,8 +5,12 @@ import { consola } from 'consola'
 import { box, colors } from 'consola/utils'
 import terminalLink from 'terminal-link'
 import packageJson from '../package.json' with { type: 'json' }
-import type { AppInfo } from './types.ts'
+import { needsMatchConfirmation } from './app-matcher.ts'
+import { describeFailureReason } from './install-output-parser.ts'
+import { getDefaultMappingsPath } from './mappings.ts'
+import type { AppInfo, CaskMatch, PackageInstallResult } from './types.ts'
 import { formatList, inlineCode, pluralize } from './utils.ts'
+import { getCaskDisplayVersion } from './version.ts'
 
 /**
  * Display final summary after installation
@@ -45,6 +49,23 @@ export function displayFinalSummary(
   }
 }
 
+/**
+ * Display why each failed installation failed
+ */
+export function displayFailureDetails(failedResults: PackageInstallResult[]) {
+  for (const result of failedResults) {
+    const reason = result.failureReason
+      ? describeFailureReason(result.failureReason)
+      : 'unknown error'
+
+    consola.info(`${result.appName} (${result.packageName}): ${reason}`)
+
+    if (result.error) {
+      consola.debug(result.error)
+    }
+  }
+}
+
 /**
  * Display installation plan before execution
  */
@@ -59,12 +80,61 @@ export function displayInstallationPlan(
   if (dryRun) {
     consola.warn('This is a dry run - no actual changes will be made.')
   }
+
+  for (const app of selectedApps) {
+    const caskVersion = app.matches?.[0]?.cask.version
+
+    if (app.versionRelation === 'newer' && caskVersion !== undefined) {
+      consola.warn(
+        `${app.originalName} ${app.version ?? ''} is newer than the ${app.brewName} cask (${getCaskDisplayVersion(caskVersion)}), installing it may downgrade the app`,
+      )
+    }
+  }
+}
+
+/**
+ * Describe how an app's version compares with its cask, e.g. "1.2 → 1.3 (upgrade)"
+ */
+export function formatVersionHint(app: AppInfo): string {
+  const caskVersion = app.matches?.[0]?.cask.version
+
+  if (
+    app.version === undefined ||
+    caskVersion === undefined ||
+    app.versionRelation === undefined ||
+    app.versionRelation === 'unknown'
+  ) {
+    return ''
+  }
+
+  if (app.versionRelation === 'equal') {
+    return app.version
+  }
+
+  const change = app.versionRelation === 'older' ? 'upgrade' : 'downgrade'
+
+  return `${app.version} → ${getCaskDisplayVersion(caskVersion)} (${change})`
+}
+
+/**
+ * Get the notes shown after an app's details in the selection list
+ */
+function getNoticeHints(app: AppInfo): string[] {
+  return [
+    needsMatchConfirmation(app)
+      ? '- matched by a similar name, check the cask'
+      : '',
+    app.fromMacAppStore ? '- installed via App Store' : '',
+  ]
 }
 
 /**
  * Prompt user to select apps for installation
  */
-export async function promptAppSelection(apps: AppInfo[]): Promise<AppInfo[]> {
+export async function promptAppSelection(
+  apps: AppInfo[],
+  initialSelection?: AppInfo[],
+): Promise<AppInfo[]> {
   displayAppSummary(apps)
 
   const availableApps = apps
@@ -84,10 +154,8 @@ export async function promptAppSelection(apps: AppInfo[]): Promise<AppInfo[]> {
 
     const options = availableApps.map((app) => {
       const brewHint = app.brewName === app.originalName ? '' : app.brewName
-      const appStoreHint = app.fromMacAppStore
-        ? '- installed via App Store'
-        : ''
       const descriptionHint = app.description ? `– ${app.description}` : ''
+      const versionHint = formatVersionHint(app)
       const linkHint = app.homepage
         ? `– ${terminalLink(colors.blue('Homepage'), app.homepage)}`
         : ''
@@ -97,10 +165,11 @@ export async function promptAppSelection(apps: AppInfo[]): Promise<AppInfo[]> {
           : ''
       const combinedHint = [
         brewHint,
+        versionHint && `– ${versionHint}`,
         descriptionHint,
         linkHint,
         brewLinkHint,
-        appStoreHint,
+        ...getNoticeHints(app),
       ]
         .filter(Boolean)
         .join(' ')
@@ -120,7 +189,9 @@ export async function promptAppSelection(apps: AppInfo[]): Promise<AppInfo[]> {
       'Choose apps to convert to Homebrew:',
       {
         cancel: 'symbol',
-        initial: availableApps.map((app) => app.originalName),
+        initial: (initialSelection ?? availableApps).map(
+          (app) => app.originalName,
+        ),
         options,
         required: false,
         type: 'multiselect',
@@ -156,10 +227,51 @@ export async function promptAppSelection(apps: AppInfo[]): Promise<AppInfo[]> {
   }
 }
 
+/**
+ * Prompt user to pick the right cask for an app that matches several
+ */
+export async function promptCaskChoice(
+  app: AppInfo,
+  candidates: CaskMatch[],
+): Promise<CaskMatch | undefined> {
+  const options = candidates.map((match) => {
+    const homepageHint = match.cask.homepage
+      ? terminalLink(colors.blue('Homepage'), match.cask.homepage)
+      : ''
+    const matchHint = `${match.matchType}, confidence ${match.confidence.toFixed(2)}`
+
+    return {
+      hint: [match.cask.desc, homepageHint, matchHint]
+        .filter(Boolean)
+        .join(' – '),
+      label: match.cask.token,
+      value: match.cask.token,
+    }
+  })
+
+  const selectedToken = (await consola.prompt(
+    `${app.originalName} matches several casks. Which one should be installed?`,
+    {
+      cancel: 'symbol',
+      initial: app.brewName,
+      options,
+      type: 'select',
+    },
+  )) as string | symbol
+
+  if (typeof selectedToken === 'symbol') {
+    consola.info(`Keeping ${app.brewName} for ${app.originalName}`)
+
+    return
+  }
+
+  return candidates.find((match) => match.cask.token === selectedToken)
+}
+
 /**
  * Display summary of discovered apps before selection
  */
-function displayAppSummary(apps: AppInfo[]): void {
+export function displayAppSummary(apps: AppInfo[]): void {
   const available = apps.filter((app) => app.status === 'available')
   const alreadyInstalled = apps.filter(
     (app) => app.status === 'already-installed',
@@ -181,7 +293,7 @@ function displayAppSummary(apps: AppInfo[]): void {
     consola.info(`❌ ${unavailable.length} not available in Homebrew`)
     consola.debug(formatList(unavailable.map((app) => app.originalName)))
     consola.debug(
-      `If any of these apps actually exist in Homebrew, please file an issue at: ${colors.blue(`${packageJson.bugs.url}/new/`)}`,
+      `If any of these apps actually exist in Homebrew, map them to their cask in ${getDefaultMappingsPath()} or please file an issue at: ${colors.blue(`${packageJson.bugs.url}/new/`)}`,
     )
   }
 
@@ -0,0 +1,109 @@
+/**
+ * Machine-readable JSON report of the discovery and install run
+ */
+
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { consola } from 'consola'
+import packageJson from '../package.json' with { type: 'json' }
+import type {
+  AppInfo,
+  InstallationResult,
+  OperationSummary,
+  ReportApp,
+  RunReport,
+} from './types.ts'
+import { ConvertAppsError, ErrorType } from './types.ts'
+
+/**
+ * Version of the report format, bumped on breaking changes
+ */
+export const REPORT_SCHEMA_VERSION = 1
+
+const JSON_INDENT = 2
+
+/**
+ * Options for creating a run report
+ */
+interface RunReportInput {
+  /** Every discovered app */
+  apps: AppInfo[]
+  /** Installation results, if an installation (or dry run) took place */
+  installationResult?: InstallationResult
+  /** Apps selected for installation */
+  selectedApps: AppInfo[]
+  /** Summary statistics */
+  summary: OperationSummary
+}
+
+/**
+ * Create a versioned report document for the run
+ */
+export function createRunReport(input: RunReportInput): RunReport {
+  const { apps, installationResult, selectedApps, summary } = input
+
+  return {
+    apps: apps.map((app) => toReportApp(app)),
+    generatedAt: new Date().toISOString(),
+    ...(installationResult && {
+      installation: {
+        dryRun: installationResult.dryRun,
+        failed: installationResult.failed,
+        installed: installationResult.installed,
+      },
+    }),
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    selected: selectedApps.map((app) => app.originalName),
+    summary,
+    tool: {
+      name: packageJson.name,
+      version: packageJson.version,
+    },
+  }
+}
+
+/**
+ * Print the report to stdout and/or write it to a file
+ */
+export async function outputRunReport(
+  report: RunReport,
+  options: { json: boolean; reportFile?: string },
+): Promise<void> {
+  const serialized = `${JSON.stringify(report, null, JSON_INDENT)}\n`
+
+  if (options.json) {
+    process.stdout.write(serialized)
+  }
+
+  if (options.reportFile !== undefined) {
+    try {
+      await fs.mkdir(path.dirname(options.reportFile), { recursive: true })
+      await fs.writeFile(options.reportFile, serialized, 'utf-8')
+      consola.success(`Report written to ${options.reportFile}`)
+    } catch (error) {
+      throw new ConvertAppsError(
+        `Failed to write report file: ${options.reportFile}`,
+        ErrorType.UNKNOWN_ERROR,
+        error instanceof Error ? error : undefined,
+      )
+    }
+  }
+}
+
+/**
+ * Convert an app to its report representation, keeping only match metadata
+ */
+function toReportApp(app: AppInfo): ReportApp {
+  const { matches = [], ...appInfo } = app
+
+  return {
+    ...appInfo,
+    matches: matches.map((match) => ({
+      confidence: match.confidence,
+      matchedValue: match.matchDetails.matchedValue,
+      matchType: match.matchType,
+      source: match.matchDetails.source,
+      token: match.cask.token,
+    })),
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * String similarity scoring for fuzzy matching of app names against casks
+ */
+
+/**
+ * Jaro-Winkler tuning: prefix bonus per shared leading character, up to a limit
+ */
+const WINKLER_PREFIX_SCALE = 0.1
+const WINKLER_MAX_PREFIX_LENGTH = 4
+const JARO_COMPONENT_COUNT = 3
+
+/**
+ * Penalty per version or edition suffix that only one of the names has
+ */
+const SUFFIX_PENALTY = 0.1
+const MAX_SUFFIX_PENALTY = 0.3
+
+/**
+ * Weight of the length ratio when scoring compact names, so that a short name
+ * isn't considered similar to every longer name it happens to prefix
+ */
+const LENGTH_RATIO_WEIGHT = 0.5
+
+const TOKEN_SEPARATOR_REGEX = /[^a-z0-9]+/
+const VERSION_SUFFIX_REGEX = /^(?:v?\d+(?:\.\d+)*|20\d{2})$/
+
+/**
+ * Words that mark an edition or release channel rather than a different app
+ */
+const EDITION_SUFFIXES = new Set([
+  'alpha',
+  'beta',
+  'canary',
+  'ce',
+  'community',
+  'dev',
+  'developer',
+  'edition',
+  'ee',
+  'enterprise',
+  'free',
+  'insiders',
+  'lite',
+  'nightly',
+  'preview',
+  'pro',
+  'se',
+  'trial',
+  'ultimate',
+])
+
+/**
+ * Score how similar two names are, from 0 (unrelated) to 1 (identical)
+ *
+ * Names are compared both as compact strings (Jaro-Winkler, weighted by length
+ * ratio) and as token sets, taking the better score. Trailing version and
+ * edition suffixes are compared separately and only cost a small penalty, so
+ * "Firefox Developer Edition" stays close to "Firefox".
+ */
+export function calculateNameSimilarity(
+  name: string,
+  candidate: string,
+): number {
+  const nameParts = splitNameParts(name)
+  const candidateParts = splitNameParts(candidate)
+  const compactName = nameParts.core.join('')
+  const compactCandidate = candidateParts.core.join('')
+
+  if (compactName === '' || compactCandidate === '') {
+    return 0
+  }
+
+  const lengthRatio =
+    Math.min(compactName.length, compactCandidate.length) /
+    Math.max(compactName.length, compactCandidate.length)
+  const stringScore =
+    jaroWinklerSimilarity(compactName, compactCandidate) *
+    (1 - LENGTH_RATIO_WEIGHT + LENGTH_RATIO_WEIGHT * lengthRatio)
+  const tokenScore = tokenSetSimilarity(nameParts.core, candidateParts.core)
+  const suffixPenalty = Math.min(
+    MAX_SUFFIX_PENALTY,
+    countDifferences(nameParts.suffixes, candidateParts.suffixes) *
+      SUFFIX_PENALTY,
+  )
+
+  return Math.max(0, Math.max(stringScore, tokenScore) - suffixPenalty)
+}
+
+/**
+ * Jaro-Winkler similarity of two strings, from 0 to 1
+ */
+export function jaroWinklerSimilarity(first: string, second: string): number {
+  if (first === second) {
+    return 1
+  }
+
+  if (first.length === 0 || second.length === 0) {
+    return 0
+  }
+
+  const { firstMatched, matches, secondMatched } = findJaroMatches(
+    first,
+    second,
+  )
+
+  if (matches === 0) {
+    return 0
+  }
+
+  const transpositions =
+    countTranspositions(first, second, firstMatched, secondMatched) / 2
+  const jaro =
+    (matches / first.length +
+      matches / second.length +
+      (matches - transpositions) / matches) /
+    JARO_COMPONENT_COUNT
+
+  let prefixLength = 0
+  const maxPrefixLength = Math.min(
+    WINKLER_MAX_PREFIX_LENGTH,
+    first.length,
+    second.length,
+  )
+
+  while (
+    prefixLength < maxPrefixLength &&
+    first[prefixLength] === second[prefixLength]
+  ) {
+    prefixLength++
+  }
+
+  return jaro + prefixLength * WINKLER_PREFIX_SCALE * (1 - jaro)
+}
+
+/**
+ * Split a name into lowercase core tokens and trailing version/edition suffixes
+ */
+function splitNameParts(name: string): { core: string[]; suffixes: string[] } {
+  const tokens = name
+    .toLowerCase()
+    .split(TOKEN_SEPARATOR_REGEX)
+    .filter((token) => token !== '')
+  let coreLength = tokens.length
+
+  while (coreLength > 1 && isNameSuffix(tokens[coreLength - 1] ?? '')) {
+    coreLength--
+  }
+
+  return {
+    core: tokens.slice(0, coreLength),
+    suffixes: tokens.slice(coreLength),
+  }
+}
+
+/**
+ * Check whether a token is a version number or edition word
+ */
+function isNameSuffix(token: string): boolean {
+  return VERSION_SUFFIX_REGEX.test(token) || EDITION_SUFFIXES.has(token)
+}
+
+/**
+ * Dice coefficient of two token sets
+ */
+function tokenSetSimilarity(first: string[], second: string[]): number {
+  const firstSet = new Set(first)
+  const secondSet = new Set(second)
+  const shared = [...firstSet].filter((token) => secondSet.has(token)).length
+
+  return (2 * shared) / (firstSet.size + secondSet.size)
+}
+
+/**
+ * Count the tokens that appear in only one of two lists
+ */
+function countDifferences(first: string[], second: string[]): number {
+  const firstSet = new Set(first)
+  const secondSet = new Set(second)
+
+  return (
+    [...firstSet].filter((token) => !secondSet.has(token)).length +
+    [...secondSet].filter((token) => !firstSet.has(token)).length
+  )
+}
+
+/**
+ * Find characters the two strings have in common within the Jaro match window
+ */
+function findJaroMatches(
+  first: string,
+  second: string,
+): { firstMatched: boolean[]; matches: number; secondMatched: boolean[] } {
+  const matchWindow = Math.max(
+    0,
+    Math.floor(Math.max(first.length, second.length) / 2) - 1,
+  )
+  const firstMatched = Array.from({ length: first.length }, () => false)
+  const secondMatched = Array.from({ length: second.length }, () => false)
+  let matches = 0
+
+  for (let i = 0; i < first.length; i++) {
+    const start = Math.max(0, i - matchWindow)
+    const end = Math.min(i + matchWindow + 1, second.length)
+
+    for (let j = start; j < end; j++) {
+      if (!secondMatched[j] && first[i] === second[j]) {
+        firstMatched[i] = true
+        secondMatched[j] = true
+        matches++
+        break
+      }
+    }
+  }
+
+  return { firstMatched, matches, secondMatched }
+}
+
+/**
+ * Count matched characters that appear in a different order
+ */
+function countTranspositions(
+  first: string,
+  second: string,
+  firstMatched: boolean[],
+  secondMatched: boolean[],
+): number {
+  let transpositions = 0
+  let secondIndex = 0
+
+  for (let i = 0; i < first.length; i++) {
+    if (!firstMatched[i]) {
+      continue
+    }
+
+    while (!secondMatched[secondIndex]) {
+      secondIndex++
+    }
+
+    if (first[i] !== second[secondIndex]) {
+      transpositions++
+    }
+
+    secondIndex++
+  }
+
+  return transpositions
+}
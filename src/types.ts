@@ -10,21 +10,39 @@ export interface AppInfo {
   alreadyInstalled: boolean
   /** Full path to the .app file */
   appPath: string
+  /** What showed that the app came from the Mac App Store */
+  appStoreEvidence?: AppStoreEvidence
+  /** Mac App Store app ID (if installed via Mac App Store and known to mas) */
+  appStoreId?: string
   bundleId?: string
+  /** Build number from Info.plist (CFBundleVersion) */
+  bundleVersion?: string
   /** Normalized name for Homebrew (e.g., "google-chrome") */
   brewName: string
   /** Type of Homebrew package */
   brewType: BrewPackageType
   /** Description from Homebrew cask (if available) */
   description?: string
+  /** Name shown in Finder, from Info.plist (CFBundleDisplayName) */
+  displayName?: string
   /** Whether this app was installed via Mac App Store */
   fromMacAppStore?: boolean
   /** Homepage URL from Homebrew cask (if available) */
   homepage?: string
+  /** Cask matches found for this app, best match first */
+  matches?: CaskMatch[]
+  /** Oldest macOS version the app runs on (LSMinimumSystemVersion) */
+  minimumSystemVersion?: string
   /** Original application name (e.g., "Google Chrome") */
   originalName: string
+  /** Sparkle update feed, if the app updates itself (SUFeedURL) */
+  sparkleFeedUrl?: string
   /** Current status of the app */
   status: AppStatus
+  /** Version shown to users, from Info.plist (CFBundleShortVersionString) */
+  version?: string
+  /** How the installed version compares with the matched cask's version */
+  versionRelation?: VersionRelation
 }
 /**
  * Result of matching a local app to Homebrew casks
@@ -40,12 +58,28 @@ export interface AppMatchResult {
   strategy: MatchingStrategy
 }
 
+/**
+ * Mac App Store app that can be replaced by its matching cask
+ */
+export interface AppStoreMigration {
+  /** The Mac App Store app */
+  app: AppInfo
+  /** Whether the cask installs the same vendor build, going by bundle IDs */
+  build: AppStoreMigrationBuild
+  /** Normalized bundle IDs the cask is known to use */
+  caskBundleIds: string[]
+  /** Token of the cask that replaces the app */
+  caskToken: string
+}
+
 /**
  * Result of a Homebrew command execution
  */
 export interface BrewCommandResult {
   /** Exit code of the command */
   exitCode: number
+  /** Interleaved stdout and stderr (only collected when streaming output) */
+  output?: string
   /** Standard error */
   stderr: string
   /** Standard output */
@@ -54,29 +88,150 @@ export interface BrewCommandResult {
   success: boolean
 }
 
+/**
+ * Outcome of a single cask parsed from `brew install` output
+ */
+export interface CaskInstallOutcome {
+  /** Error lines attributed to this cask */
+  errors: string[]
+  /** Classified reason when Homebrew reported a problem with this cask */
+  failureReason?: InstallFailureReason
+  /** Whether Homebrew reported the cask as successfully installed */
+  installed: boolean
+  /** Cask token */
+  token: string
+}
+
 /**
  * Cache entry for Homebrew cask data
  */
 export interface CaskCacheEntry {
-  /** Cached cask data */
+  /** Slim cask data, empty when the signed document is stored instead */
   data: HomebrewCask[]
   /** HTTP ETag for conditional requests */
   etag?: string
-  /** When the cache was created */
+  /** Prebuilt search index of the data */
+  index?: SerializedCaskIndex
+  /** Signed API document, kept so the data can be verified again */
+  jws?: JwsDocument
+  /** HTTP Last-Modified date for conditional requests */
+  lastModified?: string
+  /** When the cache was created or last revalidated */
   timestamp: number
   /** Cache format version */
   version: string
 }
 
+/**
+ * How to treat Homebrew API data whose signature can't be verified
+ */
+export type SignatureVerificationMode = 'off' | 'strict' | 'warn'
+
+/**
+ * JSON Web Signature document in the general JSON serialization
+ */
+export interface JwsDocument {
+  /** Signed payload, unencoded or base64url-encoded */
+  payload: string
+  /** Signatures over the payload */
+  signatures: JwsSignature[]
+}
+
+/**
+ * Single signature of a JWS document
+ */
+export interface JwsSignature {
+  /** Unprotected header, e.g. the key ID */
+  header?: Record<string, unknown>
+  /** Base64url-encoded protected header */
+  protected: string
+  /** Base64url-encoded signature */
+  signature: string
+}
+
+/**
+ * Summary of a cache file, shown by the cache command
+ */
+export interface CacheInfo {
+  /** Number of casks or bundle IDs in the cache */
+  entries?: number
+  /** HTTP ETag the cached data was served with */
+  etag?: string
+  /** Whether the cache file exists */
+  exists: boolean
+  /** Whether the cache is younger than its TTL */
+  isFresh?: boolean
+  /** When the cache was last written */
+  lastModified?: Date
+  /** Path of the cache file */
+  path: string
+  /** Size of the cache file in bytes */
+  size?: number
+}
+
+/**
+ * What the cache command should do
+ */
+export interface CacheCommand {
+  /** Action to run */
+  action: 'clear' | 'info' | 'refresh'
+  /** Whether the action applies to the bundle ID cache */
+  bundleIds: boolean
+  /** Whether the action applies to the cask cache */
+  casks: boolean
+}
+
 export interface BundleIdCacheEntry {
-  /** Map of app paths to bundle IDs */
-  data: Record<string, string | null>
+  /** Map of app paths to what was read from their Info.plist */
+  data: Record<string, CachedAppBundleInfo>
   /** When the cache was created */
   timestamp: number
   /** Cache format version */
   version: string
 }
 
+/**
+ * Info.plist contents cached for one app, valid while the file is unchanged
+ */
+interface CachedAppBundleInfo {
+  /** Metadata from the Info.plist, or null if it couldn't be read */
+  info: AppBundleInfo | null
+  /** Modification time of the Info.plist, or null if it's missing */
+  modifiedAt: number | null
+}
+
+/**
+ * Metadata read from an app's Info.plist
+ */
+export type AppBundleInfo = Pick<
+  AppInfo,
+  | 'bundleId'
+  | 'bundleVersion'
+  | 'displayName'
+  | 'minimumSystemVersion'
+  | 'sparkleFeedUrl'
+  | 'version'
+>
+
+/**
+ * Value in a property list
+ */
+export type PlistValue =
+  | boolean
+  | Date
+  | number
+  | PlistDictionary
+  | PlistValue[]
+  | string
+  | Uint8Array
+
+/**
+ * Dictionary in a property list
+ */
+export interface PlistDictionary {
+  [key: string]: PlistValue
+}
+
 /**
  * Indexed lookup structures for efficient matching
  */
@@ -87,8 +242,37 @@ export interface CaskIndex {
   byBundleId: Map<string, HomebrewCask[]>
   /** Map from normalized name to casks */
   byNormalizedName: Map<string, HomebrewCask[]>
+  /** Map from a renamed cask's old token to the cask */
+  byOldToken: Map<string, HomebrewCask>
   /** Map from token to cask */
   byToken: Map<string, HomebrewCask>
+  /** Names, tokens and app bundle names for fuzzy matching, by first character */
+  fuzzyCandidates: Map<string, FuzzyCandidate[]>
+}
+
+/**
+ * Search index in plain JSON form, with casks referred to by their position
+ */
+export interface SerializedCaskIndex {
+  byAppBundle: [string, number[]][]
+  byBundleId: [string, number[]][]
+  byNormalizedName: [string, number[]][]
+  byOldToken: [string, number][]
+  byToken: [string, number][]
+  /** Cask position, source and value of each candidate, by first character */
+  fuzzyCandidates: [string, [number, string, string][]][]
+}
+
+/**
+ * Cask name, token or app bundle name to compare against in fuzzy matching
+ */
+export interface FuzzyCandidate {
+  /** Cask the value belongs to */
+  cask: HomebrewCask
+  /** Which cask field the value came from */
+  source: string
+  /** Normalized value to compare against */
+  value: string
 }
 
 /**
@@ -114,16 +298,38 @@ export interface CaskMatch {
  * Command line options parsed by Commander.js
  */
 export interface CommandOptions extends BaseConfig, HomebrewConfig {
-  /** Custom Applications directory path */
-  applicationsDir: string
+  /** Applications directories to scan */
+  applicationsDirs: string[]
+  /** Path to write a Homebrew Bundle Brewfile to instead of installing */
+  brewfile?: string
+  /** Hours cached bundle IDs stay valid */
+  bundleIdCacheTtl?: number
+  /** Cache subcommand to run instead of converting apps */
+  cacheCommand?: CacheCommand
+  /** App name patterns to leave unselected */
+  deselect: string[]
   /** Whether to run in dry-run mode (show what would happen without executing) */
   dryRun: boolean
   /** List of app names to ignore */
   ignore: string[]
   /** Whether to ignore Mac App Store apps */
   ignoreAppStore?: boolean
+  /** Whether to print a JSON report of the run to stdout */
+  json: boolean
+  /** Path to a file of app to cask mappings */
+  mappings?: string
   /** Confidence threshold for matching (0.0-1.0) */
   matchingThreshold?: number
+  /** Whether to list Mac App Store apps that can move to a cask instead of converting */
+  migrateAppStore?: boolean
+  /** Path to write the App Store migration commands to as a shell script */
+  migrationScript?: string
+  /** Path to write a JSON report of the run to */
+  reportFile?: string
+  /** App names or cask tokens to select without prompting */
+  select: string[]
+  /** Whether to select every available app without prompting */
+  yes: boolean
 }
 
 /**
@@ -144,6 +350,14 @@ export interface HomebrewApiResult<T> {
   success: boolean
 }
 
+/**
+ * Result of fetching the cask database
+ */
+export type CaskFetchResult = HomebrewApiResult<HomebrewCask[]> & {
+  /** Search index of the data, when it was loaded from the cache */
+  index?: CaskIndex
+}
+
 /**
  * Complete Homebrew cask data structure from API
  */
@@ -179,8 +393,8 @@ export interface HomebrewCask {
   homepage: string
   /** Display names for the application */
   name: string[]
-  /** Previous token names */
-  old_tokens: string[]
+  /** Previous token names, which not every cask lists */
+  old_tokens?: string[]
   /** Homebrew tap that provides this cask */
   tap: string
   /** Unique cask identifier */
@@ -207,6 +421,17 @@ export interface InstallationResult {
   unavailable: AppInfo[]
 }
 
+/**
+ * Classified reason for a cask that did not install cleanly
+ */
+export type InstallFailureReason =
+  | 'adopt-version-mismatch'
+  | 'already-installed'
+  | 'download-failed'
+  | 'needs-sudo'
+  | 'sha-mismatch'
+  | 'unknown'
+
 /**
  * Configuration for the installer
  */
@@ -221,10 +446,12 @@ export interface InstallerConfig extends BaseConfig {
 export interface MasAppInfo {
   /** App Store app ID */
   appId: string
+  /** Bundle ID, printed by newer mas versions */
+  bundleId?: string
   /** App name as reported by mas */
   name: string
-  /** App version */
-  version: string
+  /** App version, missing when mas doesn't know it */
+  version?: string
 }
 
 /**
@@ -243,12 +470,52 @@ export interface MasIntegrationResult {
  * Configuration for app matching
  */
 export interface MatchingConfig {
+  /** Whether to match apps by their bundle identifier */
+  enableBundleIdLookup: boolean
+  /** Whether to score name similarity when no exact match is found */
+  enableFuzzyMatching: boolean
+  /** User-defined mappings applied before automatic matching */
+  mappings: CaskMapping[]
   /** Maximum number of matches to return per app */
   maxMatches: number
   /** Minimum confidence threshold for matches */
   minConfidence: number
 }
 
+/**
+ * User-defined mapping from an app name, bundle ID or wildcard pattern to a cask
+ */
+export interface CaskMapping {
+  /** App name, bundle ID or wildcard pattern */
+  pattern: string
+  /** Cask token to use, or null to treat the app as unavailable */
+  token: string | null
+}
+
+/**
+ * Pattern that excludes apps from conversion
+ */
+export interface IgnoreRule {
+  /** Whether the rule re-includes apps ignored by earlier rules */
+  negated: boolean
+  /** App name, cask token, bundle ID, wildcard pattern or regex literal */
+  pattern: string
+  /** Where the rule was defined, e.g. `--ignore` or a file and line number */
+  source: string
+}
+
+/**
+ * App identifiers that ignore rules are checked against
+ */
+export interface IgnoreTarget {
+  /** Normalized app name, or the cask token once the app has been matched */
+  brewName: string
+  /** Bundle identifier, if known */
+  bundleId?: string
+  /** App name as shown in the Applications directory */
+  originalName: string
+}
+
 /**
  * Types of matching strategies
  */
@@ -264,6 +531,8 @@ export interface PackageInstallResult {
   dryRun: boolean
   /** Error message if installation failed */
   error?: string
+  /** Classified failure reason parsed from Homebrew's output */
+  failureReason?: InstallFailureReason
   /** Name of the package */
   packageName: string
   /** Whether installation was successful */
@@ -277,21 +546,103 @@ export interface ScannerConfig
   extends BaseConfig,
     FilteringConfig,
     HomebrewConfig {
-  /** Directory to scan for applications */
-  applicationsDir: string
+  /** Directories to scan for applications */
+  applicationsDirs: string[]
+  /** Hours cached bundle IDs stay valid */
+  bundleIdCacheTtl?: number
+  /** Path to a file of app to cask mappings */
+  mappingsFile?: string
   /** Confidence threshold for matching (0.0-1.0) */
   matchingThreshold?: number
 }
 
+/**
+ * App entry in the JSON run report
+ */
+export interface ReportApp extends Omit<AppInfo, 'matches'> {
+  /** Matched casks, best match first */
+  matches: ReportCaskMatch[]
+}
+
+/**
+ * Cask match entry in the JSON run report
+ */
+interface ReportCaskMatch {
+  /** Confidence score (0-1) */
+  confidence: number
+  /** What was matched against */
+  matchedValue: string
+  /** How this match was found */
+  matchType: MatchType
+  /** Original source of the match */
+  source: string
+  /** Matched cask token */
+  token: string
+}
+
+/**
+ * Machine-readable report of a discovery and install run
+ */
+export interface RunReport {
+  /** Every discovered app */
+  apps: ReportApp[]
+  /** When the report was generated (ISO 8601) */
+  generatedAt: string
+  /** Installation results, if an installation (or dry run) took place */
+  installation?: Omit<
+    InstallationResult,
+    'alreadyInstalled' | 'ignored' | 'unavailable'
+  >
+  /** Report format version */
+  schemaVersion: number
+  /** Names of the apps selected for installation */
+  selected: string[]
+  /** Summary statistics */
+  summary: OperationSummary
+  /** Tool that produced the report */
+  tool: {
+    name: string
+    version: string
+  }
+}
+
+/**
+ * Configuration for choosing which apps to install
+ */
+export interface SelectionConfig {
+  /** App name patterns to leave unselected */
+  deselect: string[]
+  /** Whether stdout is kept for the JSON report, so prompts can't be shown */
+  json: boolean
+  /** App names or cask tokens to select without prompting */
+  select: string[]
+  /** Whether to select every available app without prompting */
+  yes: boolean
+}
+
 /**
  * Status of an application in relation to Homebrew
  */
 type AppStatus = 'already-installed' | 'available' | 'ignored' | 'unavailable'
 
+/**
+ * Source that identified an app as installed from the Mac App Store: the
+ * receipt in its bundle, or the list of apps from the mas CLI
+ */
+type AppStoreEvidence = 'mas-list' | 'receipt'
+
+/**
+ * Whether a cask installs the same build as the Mac App Store, a different
+ * one, or can't be told apart because bundle IDs are missing
+ */
+type AppStoreMigrationBuild = 'different' | 'same' | 'unknown'
+
 /**
  * Base configuration shared across components
  */
 interface BaseConfig {
+  /** Whether stdout is kept for the JSON report */
+  json?: boolean
   /** Whether to include verbose output */
   verbose: boolean
 }
@@ -331,10 +682,10 @@ interface HomebrewCaskArtifact {
   uninstall?: Array<{
     /** Additional delete items */
     delete?: string[]
-    /** Launch control service to stop */
-    launchctl?: string
-    /** Bundle ID to quit during uninstall */
-    quit?: string
+    /** Launch control services to stop */
+    launchctl?: string | string[]
+    /** Bundle IDs to quit during uninstall */
+    quit?: string | string[]
   }>
   /** Files and directories to remove completely */
   zap?: Array<{
@@ -346,22 +697,41 @@ interface HomebrewCaskArtifact {
 /**
  * Configuration for Homebrew operations
  */
-interface HomebrewConfig {
+export interface HomebrewConfig {
+  /** Number of times to retry a failed cask database download */
+  apiRetries?: number
+  /** Homebrew API base URL, e.g. an internal mirror */
+  apiUrl?: string
+  /** Hours the cask database cache stays fresh */
+  cacheTtl?: number
   /** Whether to use individual brew commands instead of the Homebrew API (much slower) */
   fallbackToCli?: boolean
   /** Whether to force refresh of cask database cache */
   forceRefreshCache?: boolean
+  /** Whether to only use locally cached cask data and never the network */
+  offline?: boolean
+  /** Whether to use an expired cask cache right away and refresh it in the background */
+  staleWhileRevalidate?: boolean
+  /** Whether to verify the signature of Homebrew API data */
+  verifySignatures?: SignatureVerificationMode
 }
 
+/**
+ * How an installed app's version compares with a cask version
+ */
+export type VersionRelation = 'equal' | 'newer' | 'older' | 'unknown'
+
 /**
  * Specific match types within strategies
  */
 type MatchType =
   | 'bundle-id'
   | 'exact-app-bundle'
+  | 'fuzzy'
   | 'name-exact'
   | 'normalized-app-bundle'
   | 'token-match'
+  | 'user-override'
 
 /**
  * Error types that can occur during execution
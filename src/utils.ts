@@ -15,8 +15,22 @@ import figlet from 'figlet'
 import miniwi from 'figlet/fonts/Miniwi'
 import gradient from 'gradient-string'
 import packageJson from '../package.json' with { type: 'json' }
-import { DEFAULT_CONFIG, FILE_PATTERNS } from './constants.ts'
-import type { BrewCommandResult, BundleIdCacheEntry } from './types.ts'
+import {
+  DEFAULT_CONFIG,
+  FILE_PATTERNS,
+  USER_APPLICATIONS_DIR,
+} from './constants.ts'
+import { parsePlist } from './plist.ts'
+import type {
+  AppBundleInfo,
+  BrewCommandResult,
+  BundleIdCacheEntry,
+  CacheInfo,
+  IgnoreRule,
+  IgnoreTarget,
+  PlistValue,
+} from './types.ts'
+import { ConvertAppsError, ErrorType } from './types.ts'
 
 const MS_PER_SECOND = 1000
 const SECONDS_PER_MINUTE = 60
@@ -25,14 +39,30 @@ const MINUTES_PER_HOUR = 60
 const MS_TO_HOURS = MINUTES_PER_HOUR * MS_TO_MINUTES
 const HOURS_PER_DAY = 24
 const CACHE_TTL_DAYS = 7
+const REGEX_LITERAL_PATTERN = /^\/(.+)\/([a-z]*)$/
+// Flags that make `test()` remember where it stopped, so results would depend on earlier apps
+const STATEFUL_REGEX_FLAGS = /[gy]/g
 const BUNDLE_ID_CACHE_CONFIG = {
   CACHE_DIR: `.cache/${packageJson.name}`,
   CACHE_FILE: 'bundle-ids.json',
   TTL: CACHE_TTL_DAYS * HOURS_PER_DAY * MS_TO_HOURS,
-  VERSION: '1.0.0',
+  VERSION: '3.0.0',
 } as const
 
+/**
+ * Info.plist keys for each field of the app metadata
+ */
+const INFO_PLIST_KEYS: Record<keyof AppBundleInfo, string> = {
+  bundleId: 'CFBundleIdentifier',
+  bundleVersion: 'CFBundleVersion',
+  displayName: 'CFBundleDisplayName',
+  minimumSystemVersion: 'LSMinimumSystemVersion',
+  sparkleFeedUrl: 'SUFeedURL',
+  version: 'CFBundleShortVersionString',
+}
+
 let bundleIdCache: BundleIdCacheEntry | null = null
+let bundleIdCacheTtl: number = BUNDLE_ID_CACHE_CONFIG.TTL
 
 function getBundleIdCachePath(): string {
   const homeDirectory = os.homedir()
@@ -56,25 +86,28 @@ function loadBundleIdCache(): void {
 
     if (
       cacheEntry.version === BUNDLE_ID_CACHE_CONFIG.VERSION &&
-      Date.now() - cacheEntry.timestamp < BUNDLE_ID_CACHE_CONFIG.TTL
+      Date.now() - cacheEntry.timestamp < bundleIdCacheTtl
     ) {
       bundleIdCache = cacheEntry
       consola.debug(
         `Loaded bundle ID cache with ${Object.keys(cacheEntry.data).length} entries`,
       )
     } else {
-      bundleIdCache = {
-        data: {},
-        timestamp: 0,
-        version: BUNDLE_ID_CACHE_CONFIG.VERSION,
-      }
+      bundleIdCache = createBundleIdCache()
     }
   } catch {
-    bundleIdCache = {
-      data: {},
-      timestamp: 0,
-      version: BUNDLE_ID_CACHE_CONFIG.VERSION,
-    }
+    bundleIdCache = createBundleIdCache()
+  }
+}
+
+/**
+ * Start an empty bundle ID cache, which expires a TTL from now
+ */
+function createBundleIdCache(): BundleIdCacheEntry {
+  return {
+    data: {},
+    timestamp: Date.now(),
+    version: BUNDLE_ID_CACHE_CONFIG.VERSION,
   }
 }
 
@@ -89,7 +122,6 @@ async function saveBundleIdCache(): Promise<void> {
 
     await fsPromises.mkdir(cacheDirectory, { recursive: true })
 
-    bundleIdCache.timestamp = Date.now()
     await fsPromises.writeFile(
       cachePath,
       JSON.stringify(bundleIdCache),
@@ -102,6 +134,50 @@ async function saveBundleIdCache(): Promise<void> {
   }
 }
 
+/**
+ * Set how many hours cached bundle IDs stay valid
+ *
+ * Takes effect the next time the cache is loaded.
+ */
+export function setBundleIdCacheTtl(hours: number): void {
+  bundleIdCacheTtl = hours * MS_TO_HOURS
+}
+
+/**
+ * Get information about the bundle ID cache file
+ */
+export async function getBundleIdCacheInfo(
+  cachePath: string = getBundleIdCachePath(),
+): Promise<CacheInfo> {
+  try {
+    const stats = await fsPromises.stat(cachePath)
+    const cacheEntry = JSON.parse(
+      await fsPromises.readFile(cachePath, 'utf-8'),
+    ) as BundleIdCacheEntry
+
+    return {
+      entries: Object.keys(cacheEntry.data).length,
+      exists: true,
+      isFresh: Date.now() - cacheEntry.timestamp < bundleIdCacheTtl,
+      lastModified: new Date(cacheEntry.timestamp),
+      path: cachePath,
+      size: stats.size,
+    }
+  } catch {
+    return { exists: false, path: cachePath }
+  }
+}
+
+/**
+ * Delete the bundle ID cache file and forget the loaded entries
+ */
+export async function clearBundleIdCache(
+  cachePath: string = getBundleIdCachePath(),
+): Promise<void> {
+  bundleIdCache = null
+  await fsPromises.rm(cachePath, { force: true })
+}
+
 /**
  * Generate an ASCII art logo
  *
@@ -151,7 +227,8 @@ const execAsync = promisify(exec)
  * @param command - The shell command to execute
  * @param timeout - Maximum execution time in milliseconds (defaults to BREW_COMMAND_TIMEOUT)
  * @param dryRun - If true, don't actually execute the command, just return a dry-run message
- * @param streamOutput - If true, stream command output to console in real-time
+ * @param outputStream - Stream to show the command's output on in real time, if any;
+ *   its errors always go to stderr
  * @returns Promise that resolves to a BrewCommandResult with execution details
  * @throws {Error} When command is empty or contains only whitespace
  */
@@ -159,7 +236,7 @@ export async function executeCommand(
   command: string,
   timeout: number = DEFAULT_CONFIG.BREW_COMMAND_TIMEOUT,
   dryRun = false,
-  streamOutput = false,
+  outputStream?: NodeJS.WritableStream,
 ): Promise<BrewCommandResult> {
   if (command.trim() === '') {
     throw new Error('Command cannot be empty')
@@ -174,11 +251,12 @@ export async function executeCommand(
     }
   }
 
-  if (streamOutput) {
+  if (outputStream) {
     // Use spawn instead of exec to get real-time output
     return new Promise((resolve) => {
       let stdoutData = ''
       let stderrData = ''
+      let outputData = ''
 
       // Use shell: true to support piping and redirection
       const childProcess = spawn(command, [], { shell: true, timeout })
@@ -186,18 +264,21 @@ export async function executeCommand(
       childProcess.stdout.on('data', (data: Buffer) => {
         const output = data.toString()
         stdoutData += output
-        process.stdout.write(output)
+        outputData += output
+        outputStream.write(output)
       })
 
       childProcess.stderr.on('data', (data: Buffer) => {
         const output = data.toString()
         stderrData += output
+        outputData += output
         process.stderr.write(output)
       })
 
       childProcess.on('close', (code: number) => {
         resolve({
           exitCode: code ?? 0,
+          output: outputData.trim(),
           stderr: stderrData.trim(),
           stdout: stdoutData.trim(),
           success: code === 0,
@@ -207,6 +288,7 @@ export async function executeCommand(
       childProcess.on('error', (error: Error) => {
         resolve({
           exitCode: 1,
+          output: outputData.trim(),
           stderr: error.message,
           stdout: stdoutData.trim(),
           success: false,
@@ -254,6 +336,64 @@ export function extractAppName(appPath: string): string {
   return basename.replace(FILE_PATTERNS.APP_PATTERN, '')
 }
 
+/**
+ * Expand a leading `~` in a path to the user's home directory
+ */
+export function expandHomeDirectory(filePath: string): string {
+  if (filePath === '~') {
+    return os.homedir()
+  }
+
+  if (filePath.startsWith('~/')) {
+    return path.join(os.homedir(), filePath.slice(2))
+  }
+
+  return filePath
+}
+
+/**
+ * Directory for user configuration files, following the XDG base directory spec
+ */
+export function getUserConfigDirectory(
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  const configHome =
+    env['XDG_CONFIG_HOME'] ?? path.join(os.homedir(), '.config')
+
+  return path.join(configHome, packageJson.name)
+}
+
+/**
+ * Find a file in a directory or its nearest parent directory that has it
+ */
+export function findFileInParentDirectories(
+  fileName: string,
+  startDirectory: string,
+): string | undefined {
+  let directory = path.resolve(startDirectory)
+  let parentDirectory = path.dirname(directory)
+
+  while (!fs.existsSync(path.join(directory, fileName))) {
+    if (parentDirectory === directory) {
+      return
+    }
+
+    directory = parentDirectory
+    parentDirectory = path.dirname(directory)
+  }
+
+  return path.join(directory, fileName)
+}
+
+/**
+ * Check whether an app lives in the per-user Applications directory
+ */
+export function isInUserApplicationsDirectory(appPath: string): boolean {
+  const userApplicationsDirectory = expandHomeDirectory(USER_APPLICATIONS_DIR)
+
+  return appPath.startsWith(`${userApplicationsDirectory}${path.sep}`)
+}
+
 /**
  * Format a list of items for display
  */
@@ -261,6 +401,29 @@ export function formatList(items: string[], indent = '  '): string {
   return items.map((item) => `${indent}• ${item}`).join('\n')
 }
 
+/**
+ * Create a case-insensitive regular expression from a wildcard pattern
+ * where `*` matches any sequence of characters and `?` a single character
+ */
+export function createWildcardPattern(pattern: string): RegExp {
+  const source = [...pattern]
+    .map((character) => {
+      if (character === '*') return '.*'
+      if (character === '?') return '.'
+      return character.replaceAll(/[.+^${}()|[\]\\]/g, String.raw`\$&`)
+    })
+    .join('')
+
+  return new RegExp(`^${source}$`, 'i')
+}
+
+/**
+ * Check whether a string contains wildcard characters
+ */
+export function hasWildcard(pattern: string): boolean {
+  return pattern.includes('*') || pattern.includes('?')
+}
+
 /**
  * Normalize an application name for Homebrew package lookup
  * Converts to lowercase and replaces spaces with hyphens
@@ -278,48 +441,101 @@ export function normalizeBundleIdentifier(bundleId: string): string {
   return bundleId.trim().toLowerCase()
 }
 
-export async function readBundleIdentifier(
+/**
+ * Get the normalized bundle IDs an uninstall step quits or unloads, which
+ * casks give as a single string or as a list
+ */
+export function getUninstallBundleIds(step: {
+  launchctl?: unknown
+  quit?: unknown
+}): string[] {
+  return [step.quit, step.launchctl]
+    .flat()
+    .filter((value): value is string => typeof value === 'string')
+    .map(normalizeBundleIdentifier)
+    .filter((bundleId) => bundleId !== '')
+}
+
+/**
+ * Read an app's Info.plist, caching the result per app path
+ *
+ * Cached results are only used while the Info.plist is unchanged, so an app
+ * that updated itself is read again.
+ *
+ * @returns Metadata from the Info.plist, or null if it's missing or unreadable
+ */
+export async function readAppBundleInfo(
   appPath: string,
-): Promise<string | null> {
-  await loadBundleIdCache()
+): Promise<AppBundleInfo | null> {
+  loadBundleIdCache()
+
+  const infoPlistPath = path.join(appPath, 'Contents', 'Info.plist')
+  const modifiedAt = await getModificationTime(infoPlistPath)
+  const cachedValue = bundleIdCache?.data[appPath]
 
-  if (bundleIdCache && appPath in bundleIdCache.data) {
-    const cachedValue = bundleIdCache.data[appPath]
-    return cachedValue === undefined ? null : cachedValue
+  if (cachedValue !== undefined && cachedValue.modifiedAt === modifiedAt) {
+    return cachedValue.info
   }
 
-  const infoPlistPath = path.join(appPath, 'Contents', 'Info.plist')
+  let bundleInfo: AppBundleInfo | null = null
 
   try {
-    await fsPromises.access(infoPlistPath)
-  } catch {
-    if (bundleIdCache) {
-      bundleIdCache.data[appPath] = null
-      await saveBundleIdCache()
-    }
-    return null
+    bundleInfo = getAppBundleInfo(
+      parsePlist(await fsPromises.readFile(infoPlistPath)),
+    )
+  } catch (error) {
+    consola.debug(
+      `Could not read ${infoPlistPath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    )
   }
 
-  const command = `/usr/bin/plutil -extract CFBundleIdentifier raw -o - ${escapeShellArgument(infoPlistPath)}`
-  const result = await executeCommand(command)
+  if (bundleIdCache) {
+    bundleIdCache.data[appPath] = { info: bundleInfo, modifiedAt }
+    await saveBundleIdCache()
+  }
 
-  if (!result.success) {
-    if (bundleIdCache) {
-      bundleIdCache.data[appPath] = null
-      await saveBundleIdCache()
-    }
+  return bundleInfo
+}
+
+/**
+ * Get when a file was last modified, or null if it doesn't exist
+ */
+async function getModificationTime(filePath: string): Promise<number | null> {
+  try {
+    return (await fsPromises.stat(filePath)).mtimeMs
+  } catch {
     return null
   }
+}
 
-  const bundleId = result.stdout.trim()
-  const finalBundleId = bundleId === '' ? null : bundleId
-
-  if (bundleIdCache) {
-    bundleIdCache.data[appPath] = finalBundleId
-    await saveBundleIdCache()
+/**
+ * Pick the app metadata out of a parsed Info.plist
+ */
+export function getAppBundleInfo(plist: PlistValue): AppBundleInfo {
+  const dictionary =
+    typeof plist === 'object' &&
+    !Array.isArray(plist) &&
+    !(plist instanceof Date) &&
+    !(plist instanceof Uint8Array)
+      ? plist
+      : {}
+  const bundleInfo: AppBundleInfo = {}
+
+  for (const [field, key] of Object.entries(INFO_PLIST_KEYS) as [
+    keyof AppBundleInfo,
+    string,
+  ][]) {
+    const value = dictionary[key]
+
+    // Some apps store version numbers as integers
+    if (typeof value === 'number') {
+      bundleInfo[field] = String(value)
+    } else if (typeof value === 'string' && value.trim() !== '') {
+      bundleInfo[field] = value.trim()
+    }
   }
 
-  return finalBundleId
+  return bundleInfo
 }
 
 /**
@@ -340,43 +556,93 @@ export function pluralize(word: string, count: number, suffix = 's'): string {
 }
 
 /**
- * Check if an app should be ignored based on ignore patterns
- * Supports matching against both original app name and brew package name
+ * Parse an ignore pattern, where a leading `!` re-includes apps ignored by earlier rules
  */
-export function shouldIgnoreApp(
-  originalName: string,
-  brewName: string,
-  ignoredApps: string[],
-): boolean {
-  if (ignoredApps.length === 0) {
-    return false
+export function parseIgnoreRule(pattern: string, source: string): IgnoreRule {
+  const trimmedPattern = pattern.trim()
+  const negated = trimmedPattern.startsWith('!')
+  const rulePattern = negated ? trimmedPattern.slice(1).trim() : trimmedPattern
+  const regexLiteral = REGEX_LITERAL_PATTERN.exec(rulePattern)
+
+  if (regexLiteral) {
+    try {
+      new RegExp(regexLiteral[1] ?? '', regexLiteral[2])
+    } catch (error) {
+      throw new ConvertAppsError(
+        `Invalid regular expression in ignore pattern ${rulePattern} (${source})`,
+        ErrorType.INVALID_INPUT,
+        error instanceof Error ? error : undefined,
+      )
+    }
   }
 
-  const normalizedOriginalName = normalizeAppName(originalName)
-  const normalizedBrewName = normalizeAppName(brewName)
-
-  for (const ignoredApp of ignoredApps) {
-    const normalizedIgnoredApp = normalizeAppName(ignoredApp.trim())
+  return { negated, pattern: rulePattern, source }
+}
 
-    // Exact match against original name or brew name
-    if (
-      normalizedIgnoredApp === normalizedOriginalName ||
-      normalizedIgnoredApp === normalizedBrewName
-    ) {
-      return true
+/**
+ * Find the rule that ignores an app, if any
+ *
+ * Rules are applied in order and the last matching rule wins, so a negated
+ * rule un-ignores apps matched by earlier rules.
+ */
+export function findIgnoreRule(
+  rules: IgnoreRule[],
+  target: IgnoreTarget,
+): IgnoreRule | undefined {
+  let matchingRule: IgnoreRule | undefined
+
+  for (const rule of rules) {
+    if (matchesIgnorePattern(rule.pattern, target)) {
+      matchingRule = rule
     }
+  }
 
-    // Handle partial brew name matching (e.g., "bartender" should match "bartender-5")
-    // This allows users to specify the base package name without version suffixes
-    if (
-      normalizedBrewName.startsWith(`${normalizedIgnoredApp}-`) ||
-      normalizedOriginalName.startsWith(`${normalizedIgnoredApp}-`)
-    ) {
-      return true
-    }
+  return matchingRule?.negated ? undefined : matchingRule
+}
+
+/**
+ * Check whether an ignore pattern matches an app
+ *
+ * Patterns are regex literals like `/^Adobe/i`, wildcard patterns like
+ * `Microsoft *` or `com.jetbrains.*`, or plain names, cask tokens and bundle
+ * IDs. Plain names also match versioned names, so "bartender" matches
+ * "bartender-5".
+ */
+function matchesIgnorePattern(pattern: string, target: IgnoreTarget): boolean {
+  const values = [target.originalName, target.brewName, target.bundleId].filter(
+    (value): value is string => value !== undefined,
+  )
+  const regexLiteral = REGEX_LITERAL_PATTERN.exec(pattern)
+
+  if (regexLiteral) {
+    const regex = new RegExp(
+      regexLiteral[1] ?? '',
+      regexLiteral[2]?.replace(STATEFUL_REGEX_FLAGS, ''),
+    )
+
+    return values.some((value) => regex.test(value))
   }
 
-  return false
+  if (hasWildcard(pattern)) {
+    const regex = createWildcardPattern(pattern)
+
+    return values.some((value) => regex.test(value))
+  }
+
+  const normalizedPattern = normalizeAppName(pattern)
+  const normalizedNames = [
+    normalizeAppName(target.originalName),
+    normalizeAppName(target.brewName),
+  ]
+
+  return (
+    normalizedNames.some(
+      (name) =>
+        name === normalizedPattern ||
+        // Allow the base name without a version suffix, e.g. "bartender" for "bartender-5"
+        name.startsWith(`${normalizedPattern}-`),
+    ) || pattern.toLowerCase() === target.bundleId?.toLowerCase()
+  )
 }
 
 /**
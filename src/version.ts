@@ -0,0 +1,148 @@
+/**
+ * Tolerant comparison of app versions with Homebrew cask versions
+ */
+
+import type { AppInfo, VersionRelation } from './types.ts'
+
+/** Cask version for apps that always download the newest release */
+const LATEST_VERSION = 'latest'
+
+const LEADING_V_REGEX = /^v(?=\d)/i
+const SEGMENT_REGEX = /\d+|[a-z]+/gi
+const DIGITS_REGEX = /^\d+$/
+
+/**
+ * Compare two version strings such as "1.2.3", "v2.0b4" or "2024.10"
+ *
+ * Numbers compare numerically, trailing zeros don't count ("1.2" equals
+ * "1.2.0") and letters after the last number mark a pre-release ("1.0b1" is
+ * older than "1.0").
+ *
+ * @returns A negative number if left is older, positive if newer, 0 if equal,
+ * or undefined if either has no numbers to compare
+ */
+export function compareVersions(
+  left: string,
+  right: string,
+): number | undefined {
+  const leftSegments = splitVersion(left)
+  const rightSegments = splitVersion(right)
+
+  if (
+    !(
+      leftSegments.some((segment) => typeof segment === 'number') &&
+      rightSegments.some((segment) => typeof segment === 'number')
+    )
+  ) {
+    return
+  }
+
+  const length = Math.max(leftSegments.length, rightSegments.length)
+
+  for (let index = 0; index < length; index++) {
+    const comparison = compareSegments(
+      leftSegments[index],
+      rightSegments[index],
+    )
+
+    if (comparison !== 0) {
+      return comparison
+    }
+  }
+
+  return 0
+}
+
+/**
+ * Work out whether an installed app is newer or older than a cask version
+ *
+ * Cask versions like "1.2.3,456" carry a build number after the comma, which
+ * is compared with the app's build number when the versions are otherwise equal.
+ */
+export function getVersionRelation(
+  app: Pick<AppInfo, 'bundleVersion' | 'version'>,
+  caskVersion: string | undefined,
+): VersionRelation {
+  if (
+    app.version === undefined ||
+    caskVersion === undefined ||
+    caskVersion === LATEST_VERSION
+  ) {
+    return 'unknown'
+  }
+
+  const [caskMainVersion = '', caskBuild] = caskVersion.split(',')
+  let comparison = compareVersions(app.version, caskMainVersion)
+
+  if (
+    comparison === 0 &&
+    app.bundleVersion !== undefined &&
+    caskBuild !== undefined &&
+    DIGITS_REGEX.test(app.bundleVersion) &&
+    DIGITS_REGEX.test(caskBuild)
+  ) {
+    comparison = compareVersions(app.bundleVersion, caskBuild)
+  }
+
+  if (comparison === undefined) {
+    return 'unknown'
+  }
+
+  if (comparison > 0) return 'newer'
+  if (comparison < 0) return 'older'
+  return 'equal'
+}
+
+/**
+ * Get the version part of a cask version, without its build number
+ */
+export function getCaskDisplayVersion(caskVersion: string): string {
+  return caskVersion.split(',')[0] ?? caskVersion
+}
+
+/**
+ * Split a version into numbers and lowercase words
+ */
+function splitVersion(version: string): (number | string)[] {
+  const segments = version
+    .trim()
+    .replace(LEADING_V_REGEX, '')
+    .match(SEGMENT_REGEX)
+
+  return (segments ?? []).map((segment) =>
+    DIGITS_REGEX.test(segment)
+      ? Number.parseInt(segment, 10)
+      : segment.toLowerCase(),
+  )
+}
+
+/**
+ * Compare one segment of two versions, where either may have run out
+ */
+function compareSegments(
+  left: number | string | undefined,
+  right: number | string | undefined,
+): number {
+  if (left === right) {
+    return 0
+  }
+
+  // A missing segment counts as 0, so "1.2" equals "1.2.0" but is newer than "1.2b1"
+  const leftValue = left ?? 0
+  const rightValue = right ?? 0
+
+  if (typeof leftValue === 'number' && typeof rightValue === 'number') {
+    return leftValue - rightValue
+  }
+
+  // A word where the other version has a number marks a pre-release
+  if (typeof leftValue === 'number') {
+    return 1
+  }
+
+  if (typeof rightValue === 'number') {
+    return -1
+  }
+
+  return leftValue.localeCompare(rightValue)
+}
@@ -4,12 +4,14 @@
 
 import { expect, test } from 'bun:test'
 import { describe } from 'node:test'
-import { AppMatcher } from '../src/app-matcher.ts'
+import { AppMatcher, needsMatchConfirmation } from '../src/app-matcher.ts'
 import type { AppInfo, HomebrewCask } from '../src/types.ts'
 
 const MIN_CONFIDENCE_THRESHOLD = 0.8
 const HIGH_CONFIDENCE_THRESHOLD = 0.98
 const NO_HYPHENS_CONFIDENCE_THRESHOLD = 0.88
+const MAX_FUZZY_CONFIDENCE = 0.8
+const STRICT_CONFIDENCE_THRESHOLD = 0.75
 
 // Mock data for testing
 const mockCasks: HomebrewCask[] = [
@@ -91,6 +93,16 @@ const mockCasks: HomebrewCask[] = [
     tap: 'homebrew/cask',
     token: 'thebrowsercompany-dia',
   },
+  {
+    artifacts: [{ app: ['Sublime Text.app'] }],
+    desc: 'Text editor for code, markup and prose',
+    full_token: 'homebrew/cask/sublime-text',
+    homepage: 'https://www.sublimetext.com/',
+    name: ['Sublime Text'],
+    old_tokens: [],
+    tap: 'homebrew/cask',
+    token: 'sublime-text',
+  },
 ]
 
 const mockApp: AppInfo = {
@@ -198,7 +210,7 @@ describe('AppMatcher', () => {
     )
   })
 
-  test('should return no matches when only ambiguous names exist', () => {
+  test('should keep every cask as an alternative when only ambiguous names exist', () => {
     const matcher = new AppMatcher({})
     const ambiguousCasks: HomebrewCask[] = [
       {
@@ -236,8 +248,12 @@ describe('AppMatcher', () => {
 
     const matchResult = matcher.matchApp(diaApp, index)
 
-    expect(matchResult.bestMatch).toBeUndefined()
-    expect(matchResult.matches).toHaveLength(0)
+    expect(matchResult.matches.map((match) => match.cask.token).sort()).toEqual(
+      ['diashapes', 'thebrowsercompany-dia'],
+    )
+    expect(
+      new Set(matchResult.matches.map((match) => match.confidence)).size,
+    ).toBe(1)
   })
 
   test('should match using bundle identifier when available', () => {
@@ -322,4 +338,213 @@ describe('AppMatcher', () => {
     // Should have fewer or no matches due to high confidence threshold
     expect(matchResult.matches.length).toBeLessThanOrEqual(1)
   })
+
+  describe('fuzzy matching', () => {
+    const sublimeApp: AppInfo = {
+      alreadyInstalled: false,
+      appPath: '/Applications/Sublime Text 4.app',
+      brewName: 'sublime-text-4',
+      brewType: 'unavailable',
+      originalName: 'Sublime Text 4',
+      status: 'unavailable',
+    }
+
+    test('should match similar names with a scaled confidence', () => {
+      const matcher = new AppMatcher({})
+      const matchResult = matcher.matchApp(
+        sublimeApp,
+        matcher.buildIndex(mockCasks),
+      )
+
+      expect(matchResult.bestMatch?.cask.token).toBe('sublime-text')
+      expect(matchResult.bestMatch?.matchType).toBe('fuzzy')
+      expect(matchResult.bestMatch?.confidence).toBeLessThan(
+        MAX_FUZZY_CONFIDENCE,
+      )
+    })
+
+    test('should let the threshold decide which fuzzy matches count', () => {
+      const matcher = new AppMatcher({
+        minConfidence: STRICT_CONFIDENCE_THRESHOLD,
+      })
+      const matchResult = matcher.matchApp(
+        sublimeApp,
+        matcher.buildIndex(mockCasks),
+      )
+
+      expect(matchResult.matches).toHaveLength(0)
+    })
+
+    test('should keep casks that tie for the best score as alternatives', () => {
+      const createNamedCask = (token: string): HomebrewCask => ({
+        artifacts: [],
+        desc: '',
+        full_token: token,
+        homepage: `https://example.com/${token}`,
+        name: [token],
+        old_tokens: [],
+        tap: 'homebrew/cask',
+        token,
+      })
+      const matcher = new AppMatcher({})
+      const matchResult = matcher.matchApp(
+        {
+          alreadyInstalled: false,
+          appPath: '/Applications/Notes.app',
+          brewName: 'notes',
+          brewType: 'unavailable',
+          originalName: 'Notes',
+          status: 'unavailable',
+        },
+        matcher.buildIndex([
+          createNamedCask('notesx'),
+          createNamedCask('notesy'),
+        ]),
+      )
+
+      expect(
+        matchResult.matches.map((match) => match.cask.token).sort(),
+      ).toEqual(['notesx', 'notesy'])
+      expect(needsMatchConfirmation(matchResult)).toBe(true)
+    })
+
+    test('should not fuzzy match when disabled', () => {
+      const matcher = new AppMatcher({ enableFuzzyMatching: false })
+      const matchResult = matcher.matchApp(
+        sublimeApp,
+        matcher.buildIndex(mockCasks),
+      )
+
+      expect(matchResult.matches).toHaveLength(0)
+    })
+  })
+
+  test('should not match by bundle identifier when lookup is disabled', () => {
+    const matcher = new AppMatcher({
+      enableBundleIdLookup: false,
+      enableFuzzyMatching: false,
+    })
+    const index = matcher.buildIndex(mockCasks)
+
+    const chromeApp: AppInfo = {
+      alreadyInstalled: false,
+      appPath: '/Applications/Chrome.app',
+      brewName: 'chrome',
+      brewType: 'unavailable',
+      bundleId: 'com.google.Chrome',
+      originalName: 'Chrome',
+      status: 'unavailable',
+    }
+
+    expect(matcher.matchApp(chromeApp, index).matches).toHaveLength(0)
+  })
+
+  test('should index casks without old tokens', () => {
+    const { old_tokens: _oldTokens, ...sublimeText } = mockCasks.at(-1) ?? {}
+    const matcher = new AppMatcher({})
+    const index = matcher.buildIndex([sublimeText as HomebrewCask])
+
+    expect(index.byToken.has('sublime-text')).toBe(true)
+    expect(index.byOldToken.size).toBe(0)
+  })
+
+  describe('renamed casks', () => {
+    const renamedCasks: HomebrewCask[] = [
+      {
+        artifacts: [{ app: ['KeePassXC.app'] }],
+        desc: 'Password manager app',
+        full_token: 'homebrew/cask/keepassxc',
+        homepage: 'https://keepassxc.org/',
+        name: ['KeePassXC'],
+        old_tokens: ['keepassx-ng'],
+        tap: 'homebrew/cask',
+        token: 'keepassxc',
+      },
+    ]
+
+    test('should index old tokens', () => {
+      const matcher = new AppMatcher({})
+      const index = matcher.buildIndex(renamedCasks)
+
+      expect(index.byOldToken.get('keepassx-ng')?.token).toBe('keepassxc')
+    })
+
+    test('should match apps named after an old token', () => {
+      const matcher = new AppMatcher({})
+      const index = matcher.buildIndex(renamedCasks)
+
+      const oldApp: AppInfo = {
+        alreadyInstalled: false,
+        appPath: '/Applications/KeePassX NG.app',
+        brewName: 'keepassx-ng',
+        brewType: 'unavailable',
+        originalName: 'KeePassX NG',
+        status: 'unavailable',
+      }
+
+      const matchResult = matcher.matchApp(oldApp, index)
+
+      expect(matchResult.bestMatch?.cask.token).toBe('keepassxc')
+      expect(matchResult.bestMatch?.matchType).toBe('token-match')
+    })
+
+    test('should resolve old tokens to the current token', () => {
+      const matcher = new AppMatcher({})
+      matcher.buildIndex(renamedCasks)
+
+      expect(matcher.resolveCurrentToken('keepassx-ng')).toBe('keepassxc')
+      expect(matcher.resolveCurrentToken('keepassxc')).toBe('keepassxc')
+      expect(matcher.resolveCurrentToken('unknown-cask')).toBe('unknown-cask')
+    })
+  })
+
+  describe('user mappings', () => {
+    const vscodeApp: AppInfo = {
+      alreadyInstalled: false,
+      appPath: '/Applications/Visual Studio Code.app',
+      brewName: 'visual-studio-code',
+      brewType: 'unavailable',
+      originalName: 'Visual Studio Code',
+      status: 'unavailable',
+    }
+
+    test('should apply mappings before automatic matching', () => {
+      const matcher = new AppMatcher({
+        mappings: [{ pattern: 'Visual Studio Code', token: 'sublime-text' }],
+      })
+      const matchResult = matcher.matchApp(
+        vscodeApp,
+        matcher.buildIndex(mockCasks),
+      )
+
+      expect(matchResult.matches).toHaveLength(1)
+      expect(matchResult.bestMatch?.cask.token).toBe('sublime-text')
+      expect(matchResult.bestMatch?.matchType).toBe('user-override')
+      expect(matchResult.bestMatch?.confidence).toBe(1)
+    })
+
+    test('should treat apps mapped to null as unavailable', () => {
+      const matcher = new AppMatcher({
+        mappings: [{ pattern: 'Visual *', token: null }],
+      })
+      const matchResult = matcher.matchApp(
+        vscodeApp,
+        matcher.buildIndex(mockCasks),
+      )
+
+      expect(matchResult.matches).toHaveLength(0)
+    })
+
+    test('should ignore mappings to unknown casks', () => {
+      const matcher = new AppMatcher({
+        mappings: [{ pattern: 'Visual Studio Code', token: 'no-such-cask' }],
+      })
+      const matchResult = matcher.matchApp(
+        vscodeApp,
+        matcher.buildIndex(mockCasks),
+      )
+
+      expect(matchResult.bestMatch?.cask.token).toBe('visual-studio-code')
+    })
+  })
 })
@@ -3,8 +3,11 @@
  * These tests focus on testing the logic and error handling without external dependencies
  */
 
-import { expect, test } from 'bun:test'
-
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { scanApplicationsDirectories } from '../src/app-scanner.ts'
 import type { AppInfo } from '../src/types.ts'
 
 // Test basic functionality without calling external commands
@@ -14,3 +17,89 @@ test('app scanner module should work without external dependencies', () => {
   expect(apps.length).toBe(0)
   expect(apps).toEqual([])
 })
+
+describe('scanApplicationsDirectories', () => {
+  let rootDirectory = ''
+
+  const createAppBundle = (...segments: string[]): string => {
+    const appPath = path.join(rootDirectory, ...segments)
+    mkdirSync(path.join(appPath, 'Contents'), { recursive: true })
+    return appPath
+  }
+
+  beforeEach(() => {
+    rootDirectory = mkdtempSync(path.join(os.tmpdir(), 'app-scanner-'))
+  })
+
+  afterEach(() => {
+    rmSync(rootDirectory, { force: true, recursive: true })
+  })
+
+  test('should find apps in nested vendor folders', async () => {
+    const topLevelApp = createAppBundle('Applications', 'Slack.app')
+    const utilityApp = createAppBundle(
+      'Applications',
+      'Utilities',
+      'Terminal.app',
+    )
+    const vendorApp = createAppBundle(
+      'Applications',
+      'Adobe Creative Cloud',
+      'Adobe Photoshop 2025',
+      'Adobe Photoshop 2025.app',
+    )
+
+    const appPaths = await scanApplicationsDirectories([
+      path.join(rootDirectory, 'Applications'),
+    ])
+
+    expect(appPaths.sort()).toEqual([topLevelApp, vendorApp, utilityApp].sort())
+  })
+
+  test('should not descend into app bundles or past the depth limit', async () => {
+    createAppBundle('Applications', 'Outer.app', 'Contents', 'Helper.app')
+    createAppBundle('Applications', 'a', 'b', 'c', 'd', 'Deep.app')
+
+    const appPaths = await scanApplicationsDirectories([
+      path.join(rootDirectory, 'Applications'),
+    ])
+
+    expect(appPaths).toEqual([
+      path.join(rootDirectory, 'Applications', 'Outer.app'),
+    ])
+  })
+
+  test('should scan several roots and skip missing ones', async () => {
+    const systemApp = createAppBundle('Applications', 'Slack.app')
+    const userApp = createAppBundle('Users', 'Applications', 'Notion.app')
+
+    const appPaths = await scanApplicationsDirectories([
+      path.join(rootDirectory, 'Applications'),
+      path.join(rootDirectory, 'Missing'),
+      path.join(rootDirectory, 'Users', 'Applications'),
+    ])
+
+    expect(appPaths).toEqual([systemApp, userApp])
+  })
+
+  test('should follow symlinks once without looping', async () => {
+    const appPath = createAppBundle('Shared', 'Linked.app')
+    const applicationsDirectory = path.join(rootDirectory, 'Applications')
+    mkdirSync(applicationsDirectory)
+    symlinkSync(appPath, path.join(applicationsDirectory, 'Linked.app'))
+    symlinkSync(applicationsDirectory, path.join(applicationsDirectory, 'Loop'))
+
+    const appPaths = await scanApplicationsDirectories([
+      applicationsDirectory,
+      path.join(rootDirectory, 'Shared'),
+    ])
+
+    expect(appPaths).toEqual([path.join(applicationsDirectory, 'Linked.app')])
+  })
+
+  test('should throw when no applications directory exists', async () => {
+    await expect(
+      scanApplicationsDirectories([path.join(rootDirectory, 'Missing')]),
+    ).rejects.toThrow('Applications directory not found')
+  })
+})
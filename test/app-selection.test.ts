@@ -0,0 +1,269 @@
+/**
+ * Test file for app-selection.ts
+ */
+
+import { describe, expect, test } from 'bun:test'
+import {
+  applyCaskChoice,
+  getAmbiguousCandidates,
+  isNonInteractiveSelection,
+  matchesAppPattern,
+  resolveNonInteractiveSelection,
+  selectApps,
+} from '../src/app-selection.ts'
+import type {
+  AppInfo,
+  CaskMatch,
+  HomebrewCask,
+  SelectionConfig,
+} from '../src/types.ts'
+import { ConvertAppsError } from '../src/types.ts'
+
+const createApp = (
+  originalName: string,
+  brewName: string,
+  status: AppInfo['status'] = 'available',
+): AppInfo => ({
+  alreadyInstalled: false,
+  appPath: `/Applications/${originalName}.app`,
+  brewName,
+  brewType: 'cask',
+  originalName,
+  status,
+})
+
+const apps: AppInfo[] = [
+  createApp('Google Chrome', 'google-chrome'),
+  createApp('Microsoft Word', 'microsoft-word'),
+  createApp('Microsoft Excel', 'microsoft-excel'),
+  createApp('Visual Studio Code', 'visual-studio-code'),
+  createApp('Unavailable App', 'unavailable-app', 'unavailable'),
+]
+
+const APP_BUNDLE_CONFIDENCE = 0.98
+const NAME_CONFIDENCE = 0.9
+const FUZZY_CONFIDENCE = 0.71
+
+const createMatch = (
+  token: string,
+  confidence: number,
+  desc = '',
+): CaskMatch => {
+  const cask: HomebrewCask = {
+    artifacts: [],
+    desc,
+    full_token: token,
+    homepage: `https://example.com/${token}`,
+    name: ['Docker'],
+    old_tokens: [],
+    tap: 'homebrew/cask',
+    token,
+  }
+
+  return {
+    cask,
+    confidence,
+    matchDetails: { matchedValue: 'docker', source: 'app-bundle' },
+    matchType: 'exact-app-bundle',
+  }
+}
+
+const createConfig = (config: Partial<SelectionConfig>): SelectionConfig => ({
+  deselect: [],
+  json: false,
+  select: [],
+  yes: false,
+  ...config,
+})
+
+describe('matchesAppPattern', () => {
+  test('should match by original name regardless of case', () => {
+    expect(matchesAppPattern(apps[0] as AppInfo, 'google chrome')).toBe(true)
+  })
+
+  test('should match by cask token', () => {
+    expect(matchesAppPattern(apps[3] as AppInfo, 'visual-studio-code')).toBe(
+      true,
+    )
+  })
+
+  test('should match wildcard patterns', () => {
+    expect(matchesAppPattern(apps[1] as AppInfo, 'Microsoft *')).toBe(true)
+    expect(matchesAppPattern(apps[0] as AppInfo, 'Microsoft *')).toBe(false)
+  })
+
+  test('should not match partial names', () => {
+    expect(matchesAppPattern(apps[0] as AppInfo, 'Google')).toBe(false)
+  })
+
+  test('should not match empty patterns', () => {
+    expect(matchesAppPattern(apps[0] as AppInfo, '  ')).toBe(false)
+  })
+})
+
+describe('isNonInteractiveSelection', () => {
+  test('should be interactive by default', () => {
+    expect(isNonInteractiveSelection(createConfig({}))).toBe(false)
+  })
+
+  test('should be non-interactive with --yes or --select', () => {
+    expect(isNonInteractiveSelection(createConfig({ yes: true }))).toBe(true)
+    expect(
+      isNonInteractiveSelection(createConfig({ select: ['google-chrome'] })),
+    ).toBe(true)
+  })
+})
+
+describe('resolveNonInteractiveSelection', () => {
+  const availableApps = apps.filter((app) => app.status === 'available')
+
+  test('should select every available app with --yes', () => {
+    const result = resolveNonInteractiveSelection(
+      availableApps,
+      createConfig({ yes: true }),
+    )
+
+    expect(result).toHaveLength(availableApps.length)
+  })
+
+  test('should select only the requested apps with --select', () => {
+    const result = resolveNonInteractiveSelection(
+      availableApps,
+      createConfig({ select: ['Google Chrome', 'visual-studio-code'] }),
+    )
+
+    expect(result.map((app) => app.brewName)).toEqual([
+      'google-chrome',
+      'visual-studio-code',
+    ])
+  })
+
+  test('should only select apps matched by a similar name when their cask is named', () => {
+    const fuzzyApp: AppInfo = {
+      ...createApp('Xcode', 'xcodes'),
+      matches: [
+        {
+          ...createMatch('xcodes', FUZZY_CONFIDENCE),
+          matchType: 'fuzzy',
+        },
+      ],
+    }
+
+    expect(
+      resolveNonInteractiveSelection([fuzzyApp], createConfig({ yes: true })),
+    ).toEqual([])
+    expect(
+      resolveNonInteractiveSelection(
+        [fuzzyApp],
+        createConfig({ select: ['Xcode'] }),
+      ),
+    ).toEqual([])
+    expect(
+      resolveNonInteractiveSelection(
+        [fuzzyApp],
+        createConfig({ select: ['xcodes'] }),
+      ),
+    ).toEqual([fuzzyApp])
+  })
+
+  test('should leave deselected apps out', () => {
+    const result = resolveNonInteractiveSelection(
+      availableApps,
+      createConfig({ deselect: ['Microsoft *'], yes: true }),
+    )
+
+    expect(result.map((app) => app.brewName)).toEqual([
+      'google-chrome',
+      'visual-studio-code',
+    ])
+  })
+})
+
+describe('selectApps', () => {
+  test('should select apps without prompting when --yes is given', async () => {
+    const result = await selectApps(apps, createConfig({ yes: true }), false)
+
+    expect(result.map((app) => app.originalName)).toEqual([
+      'Google Chrome',
+      'Microsoft Excel',
+      'Microsoft Word',
+      'Visual Studio Code',
+    ])
+  })
+
+  test('should fail clearly when it would prompt without a TTY', async () => {
+    await expect(selectApps(apps, createConfig({}), false)).rejects.toThrow(
+      ConvertAppsError,
+    )
+  })
+
+  test('should not prompt when stdout is kept for the JSON report', async () => {
+    await expect(
+      selectApps(apps, createConfig({ json: true }), true),
+    ).rejects.toThrow('--json')
+  })
+
+  test('should not require a TTY when no apps are available', async () => {
+    const result = await selectApps(
+      [createApp('Unavailable App', 'unavailable-app', 'unavailable')],
+      createConfig({}),
+      false,
+    )
+
+    expect(result).toEqual([])
+  })
+})
+
+describe('getAmbiguousCandidates', () => {
+  test('should return equally good matches', () => {
+    const app: AppInfo = {
+      ...createApp('Docker', 'docker'),
+      matches: [
+        createMatch('docker', APP_BUNDLE_CONFIDENCE),
+        createMatch('docker-desktop', APP_BUNDLE_CONFIDENCE),
+        createMatch('docker-toolbox', NAME_CONFIDENCE),
+      ],
+    }
+
+    expect(
+      getAmbiguousCandidates(app).map((match) => match.cask.token),
+    ).toEqual(['docker', 'docker-desktop'])
+  })
+
+  test('should return nothing when the best match is clear', () => {
+    const app: AppInfo = {
+      ...createApp('Docker', 'docker'),
+      matches: [
+        createMatch('docker', APP_BUNDLE_CONFIDENCE),
+        createMatch('docker-toolbox', NAME_CONFIDENCE),
+      ],
+    }
+
+    expect(getAmbiguousCandidates(app)).toEqual([])
+    expect(getAmbiguousCandidates(createApp('Slack', 'slack'))).toEqual([])
+  })
+})
+
+describe('applyCaskChoice', () => {
+  test('should switch the app to the chosen cask', () => {
+    const bestMatch = createMatch('docker', APP_BUNDLE_CONFIDENCE, 'Old tools')
+    const choice = createMatch(
+      'docker-desktop',
+      APP_BUNDLE_CONFIDENCE,
+      'App to build and share containerised applications',
+    )
+    const app: AppInfo = {
+      ...createApp('Docker', 'docker'),
+      matches: [bestMatch, choice],
+    }
+
+    applyCaskChoice(app, choice)
+
+    expect(app.brewName).toBe('docker-desktop')
+    expect(app.description).toBe(
+      'App to build and share containerised applications',
+    )
+    expect(app.homepage).toBe('https://example.com/docker-desktop')
+    expect(app.matches).toEqual([choice, bestMatch])
+  })
+})
@@ -0,0 +1,190 @@
+/**
+ * Test file for app-store-migration.ts
+ */
+
+import { afterAll, describe, expect, test } from 'bun:test'
+import {
+  accessSync,
+  constants,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+} from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import {
+  describeAppStoreMigration,
+  generateMigrationScript,
+  getAppStoreMigrations,
+  writeMigrationScript,
+} from '../src/app-store-migration.ts'
+import type { AppInfo, CaskMatch, HomebrewCask } from '../src/types.ts'
+
+const NAME_CONFIDENCE = 0.9
+const BUNDLE_ID_CONFIDENCE = 0.95
+
+const createCask = (
+  token: string,
+  uninstall: { launchctl?: string | string[]; quit?: string | string[] }[] = [],
+): HomebrewCask => ({
+  artifacts: [{ app: [`${token}.app`], uninstall }],
+  desc: '',
+  full_token: token,
+  homepage: `https://example.com/${token}`,
+  name: [token],
+  old_tokens: [],
+  tap: 'homebrew/cask',
+  token,
+})
+
+const nameMatch = (cask: HomebrewCask): CaskMatch => ({
+  cask,
+  confidence: NAME_CONFIDENCE,
+  matchDetails: { matchedValue: cask.token, source: 'cask-name' },
+  matchType: 'name-exact',
+})
+
+const createApp = (
+  name: string,
+  matches: CaskMatch[],
+  overrides: Partial<AppInfo> = {},
+): AppInfo => ({
+  alreadyInstalled: false,
+  appPath: `/Applications/${name}.app`,
+  brewName: matches[0]?.cask.token ?? name.toLowerCase(),
+  brewType: 'cask',
+  fromMacAppStore: true,
+  matches,
+  originalName: name,
+  status: 'available',
+  ...overrides,
+})
+
+const slackCask = createCask('slack', [{ quit: 'com.tinyspeck.slackmacgap' }])
+const slack = createApp('Slack', [nameMatch(slackCask)], {
+  appStoreId: '803453959',
+  bundleId: 'com.tinyspeck.slackmacgap',
+})
+
+const notesCask = createCask('notes-pro', [{ quit: 'com.example.NotesPro' }])
+const notes = createApp('Notes Pro', [nameMatch(notesCask)], {
+  bundleId: 'com.example.NotesPro-AppStore',
+})
+
+const zapOnlyCask = createCask('zapper')
+const zapper = createApp(
+  'Zapper',
+  [
+    nameMatch(zapOnlyCask),
+    {
+      cask: zapOnlyCask,
+      confidence: BUNDLE_ID_CONFIDENCE,
+      matchDetails: { matchedValue: 'com.example.Zapper', source: 'bundle-id' },
+      matchType: 'bundle-id',
+    },
+  ],
+  { bundleId: 'com.example.Zapper' },
+)
+
+const noBundleId = createApp('Plain', [nameMatch(createCask('plain'))], {
+  appStoreEvidence: 'receipt',
+})
+
+describe('getAppStoreMigrations', () => {
+  test('should compare bundle IDs to tell whether the cask is the same build', () => {
+    const migrations = getAppStoreMigrations([slack, notes, zapper, noBundleId])
+
+    expect(
+      migrations.map(({ build, caskToken }) => ({ build, caskToken })),
+    ).toEqual([
+      { build: 'different', caskToken: 'notes-pro' },
+      { build: 'unknown', caskToken: 'plain' },
+      { build: 'same', caskToken: 'slack' },
+      { build: 'same', caskToken: 'zapper' },
+    ])
+  })
+
+  test('should read bundle IDs from lists of apps to quit or unload', () => {
+    const listCask = createCask('lister', [
+      { launchctl: ['com.example.Lister.helper'] },
+      { quit: ['com.example.Lister.agent', 'com.example.Lister'] },
+    ])
+    const lister = createApp('Lister', [nameMatch(listCask)], {
+      bundleId: 'com.example.Lister',
+    })
+
+    expect(getAppStoreMigrations([lister])[0]?.build).toBe('same')
+  })
+
+  test('should leave out apps that are not from the App Store or have no sure cask', () => {
+    const directDownload = { ...slack, fromMacAppStore: false }
+    const unmatched = createApp('Unmatched', [], { status: 'unavailable' })
+    const ignored = { ...slack, status: 'ignored' as const }
+    const guessed = createApp('Xcode', [
+      { ...nameMatch(createCask('xcodes')), matchType: 'fuzzy' },
+    ])
+
+    expect(
+      getAppStoreMigrations([directDownload, unmatched, ignored, guessed]),
+    ).toEqual([])
+  })
+})
+
+describe('describeAppStoreMigration', () => {
+  test('should explain the bundle ID comparison', () => {
+    const [notesMigration, plainMigration, slackMigration] =
+      getAppStoreMigrations([slack, notes, noBundleId])
+
+    expect(slackMigration && describeAppStoreMigration(slackMigration)).toBe(
+      'Slack → slack: same vendor build (com.tinyspeck.slackmacgap)',
+    )
+    expect(notesMigration && describeAppStoreMigration(notesMigration)).toBe(
+      'Notes Pro → notes-pro: different build, the App Store app is com.example.NotesPro-AppStore but the cask installs com.example.notespro',
+    )
+    expect(plainMigration && describeAppStoreMigration(plainMigration)).toBe(
+      "Plain → plain: can't tell whether it's the same build, the app has no bundle ID",
+    )
+  })
+})
+
+describe('generateMigrationScript', () => {
+  test('should uninstall each app with mas before installing its cask', () => {
+    const script = generateMigrationScript(getAppStoreMigrations([slack]))
+    const commands = script
+      .split('\n')
+      .filter((line) => line !== '' && !line.startsWith('#'))
+
+    expect(script.startsWith('#!/bin/bash\n')).toBe(true)
+    expect(commands).toEqual([
+      'set -euo pipefail',
+      'mas uninstall 803453959',
+      'brew install --cask "slack"',
+    ])
+  })
+
+  test('should comment out apps without an App Store ID', () => {
+    const script = generateMigrationScript(getAppStoreMigrations([noBundleId]))
+
+    expect(script).not.toContain('mas uninstall')
+    expect(script).toContain('# brew install --cask "plain"')
+    expect(script).toContain('remove /Applications/Plain.app by hand')
+  })
+})
+
+describe('writeMigrationScript', () => {
+  const temporaryDirectory = mkdtempSync(path.join(os.tmpdir(), 'migration-'))
+
+  afterAll(() => {
+    rmSync(temporaryDirectory, { force: true, recursive: true })
+  })
+
+  test('should write an executable script to disk', async () => {
+    const scriptPath = path.join(temporaryDirectory, 'scripts', 'migrate.sh')
+    const contents = generateMigrationScript(getAppStoreMigrations([slack]))
+
+    await writeMigrationScript(scriptPath, contents)
+
+    expect(readFileSync(scriptPath, 'utf-8')).toBe(contents)
+    expect(() => accessSync(scriptPath, constants.X_OK)).not.toThrow()
+  })
+})
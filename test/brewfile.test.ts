@@ -0,0 +1,130 @@
+/**
+ * Test file for brewfile.ts
+ */
+
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { generateBrewfile, writeBrewfile } from '../src/brewfile.ts'
+import type { AppInfo, HomebrewCask } from '../src/types.ts'
+
+const APP_BUNDLE_CONFIDENCE = 0.98
+
+const chromeCask: HomebrewCask = {
+  artifacts: [{ app: ['Google Chrome.app'] }],
+  desc: 'Web browser',
+  full_token: 'homebrew/cask/google-chrome',
+  homepage: 'https://www.google.com/chrome/',
+  name: ['Google Chrome'],
+  old_tokens: [],
+  tap: 'homebrew/cask',
+  token: 'google-chrome',
+}
+
+const selectedApp: AppInfo = {
+  alreadyInstalled: false,
+  appPath: '/Applications/Google Chrome.app',
+  brewName: 'google-chrome',
+  brewType: 'cask',
+  matches: [
+    {
+      cask: chromeCask,
+      confidence: APP_BUNDLE_CONFIDENCE,
+      matchDetails: { matchedValue: 'google-chrome', source: 'app-bundle' },
+      matchType: 'exact-app-bundle',
+    },
+  ],
+  originalName: 'Google Chrome',
+  status: 'available',
+}
+
+const unselectedApp: AppInfo = {
+  alreadyInstalled: false,
+  appPath: '/Applications/Slack.app',
+  brewName: 'slack',
+  brewType: 'cask',
+  originalName: 'Slack',
+  status: 'available',
+}
+
+const installedApp: AppInfo = {
+  alreadyInstalled: true,
+  appPath: '/Applications/iTerm.app',
+  brewName: 'iterm2',
+  brewType: 'cask',
+  originalName: 'iTerm',
+  status: 'already-installed',
+}
+
+const masApp: AppInfo = {
+  alreadyInstalled: false,
+  appPath: '/Applications/Xcode.app',
+  appStoreId: '497799835',
+  brewName: 'xcode',
+  brewType: 'unavailable',
+  fromMacAppStore: true,
+  originalName: 'Xcode',
+  status: 'unavailable',
+}
+
+describe('generateBrewfile', () => {
+  const brewfile = generateBrewfile(
+    [selectedApp, unselectedApp, installedApp, masApp],
+    [selectedApp],
+  )
+  const entries = brewfile
+    .split('\n')
+    .filter((line) => line !== '' && !line.startsWith('#'))
+
+  test('should list selected and already installed casks with their source', () => {
+    expect(entries).toContain(
+      'cask "google-chrome" # /Applications/Google Chrome.app (exact-app-bundle, confidence 0.98)',
+    )
+    expect(entries).toContain(
+      'cask "iterm2" # /Applications/iTerm.app (already installed)',
+    )
+    expect(brewfile).not.toContain('cask "slack"')
+  })
+
+  test('should list Mac App Store apps as mas entries', () => {
+    expect(entries).toContain('brew "mas"')
+    expect(entries).toContain(
+      'mas "Xcode", id: 497799835 # /Applications/Xcode.app',
+    )
+  })
+
+  test('should keep apps from ~/Applications in that directory', () => {
+    const userApp: AppInfo = {
+      ...installedApp,
+      appPath: path.join(os.homedir(), 'Applications', 'iTerm.app'),
+    }
+
+    expect(generateBrewfile([userApp], [])).toContain(
+      'cask "iterm2", args: { appdir: "~/Applications" } #',
+    )
+  })
+
+  test('should not add mas when there are no Mac App Store apps', () => {
+    expect(generateBrewfile([selectedApp], [selectedApp])).not.toContain(
+      'brew "mas"',
+    )
+  })
+})
+
+describe('writeBrewfile', () => {
+  const temporaryDirectory = mkdtempSync(path.join(os.tmpdir(), 'brewfile-'))
+
+  afterAll(() => {
+    rmSync(temporaryDirectory, { force: true, recursive: true })
+  })
+
+  test('should write the Brewfile to disk', async () => {
+    const brewfilePath = path.join(temporaryDirectory, 'Brewfile')
+    const contents = generateBrewfile([selectedApp], [selectedApp])
+
+    await writeBrewfile(brewfilePath, contents)
+
+    expect(readFileSync(brewfilePath, 'utf-8')).toBe(contents)
+  })
+})
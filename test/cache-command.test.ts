@@ -0,0 +1,129 @@
+/**
+ * Test file for cache-command.ts
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { spawnSync } from 'node:child_process'
+import { mkdtempSync, rmSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { formatCacheInfo } from '../src/cache-command.ts'
+
+const NOW = 1_792_411_200_000
+const THREE_HOURS = 10_800_000
+const TWO_DAYS = 172_800_000
+const SIZE = 2_621_440
+const CASK_COUNT = 7000
+const CONSOLA_DEFAULT_LEVEL = 3
+
+describe('formatCacheInfo', () => {
+  test('should show every detail of an existing cache', () => {
+    const text = formatCacheInfo(
+      'Cask database',
+      {
+        entries: CASK_COUNT,
+        etag: '"casks-v1"',
+        exists: true,
+        isFresh: true,
+        lastModified: new Date(NOW - THREE_HOURS),
+        path: '/cache/casks.json.gz',
+        size: SIZE,
+      },
+      'Casks',
+      NOW,
+    )
+
+    expect(text).toBe(
+      [
+        'Cask database cache',
+        '  Path: /cache/casks.json.gz',
+        '  Age: 3 hours (fresh)',
+        '  Size: 2.5 MB',
+        '  Casks: 7000',
+        '  ETag: "casks-v1"',
+      ].join('\n'),
+    )
+  })
+
+  test('should mark an expired cache', () => {
+    const text = formatCacheInfo(
+      'Bundle IDs',
+      {
+        exists: true,
+        isFresh: false,
+        lastModified: new Date(NOW - TWO_DAYS),
+        path: '/cache/bundle-ids.json',
+      },
+      'Bundle IDs',
+      NOW,
+    )
+
+    expect(text).toContain('Age: 2 days (expired)')
+  })
+
+  test('should report a missing cache', () => {
+    expect(
+      formatCacheInfo(
+        'Bundle IDs',
+        { exists: false, path: '/cache/bundle-ids.json' },
+        'Bundle IDs',
+      ),
+    ).toBe('Bundle IDs cache\n  Path: /cache/bundle-ids.json\n  Not cached yet')
+  })
+})
+
+describe('cache refresh', () => {
+  test('should fail when the API is unreachable even though a cache exists', () => {
+    const homeDirectory = mkdtempSync(path.join(os.tmpdir(), 'cache-refresh-'))
+    const cask = {
+      artifacts: [{ app: ['Example.app'] }],
+      desc: 'Example app',
+      full_token: 'example',
+      homepage: 'https://example.com',
+      name: ['Example'],
+      old_tokens: [],
+      tap: 'homebrew/cask',
+      token: 'example',
+    }
+    // The cache lives in the home directory, so the refreshes run in a separate process
+    const script = `const { createServer } = await import('node:http')
+const { consola } = await import('consola')
+const { runCacheCommand } = await import(${JSON.stringify(path.join(import.meta.dir, '..', 'src', 'cache-command.ts'))})
+consola.level = ${CONSOLA_DEFAULT_LEVEL}
+let status = 200
+const server = createServer((_request, response) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' }).end(${JSON.stringify(JSON.stringify([cask]))})
+})
+await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve))
+const options = { apiRetries: 0, apiUrl: 'http://127.0.0.1:' + server.address().port, json: true }
+const refresh = () =>
+  runCacheCommand({ action: 'refresh', bundleIds: false, casks: true }, options).then(
+    () => 'result: refreshed',
+    (error) => 'result: ' + error.message,
+  )
+console.log(await refresh())
+status = 503
+console.log(await refresh())
+server.close()`
+
+    try {
+      const { stderr, stdout } = spawnSync(process.execPath, ['-e', script], {
+        env: { ...process.env, HOME: homeDirectory },
+      })
+      const results = stdout
+        .toString()
+        .split('\n')
+        .filter((line) => line.startsWith('result: '))
+
+      expect(results).toEqual([
+        'result: refreshed',
+        'result: Failed to refresh the cask database: the Homebrew API could not be reached',
+      ])
+      expect(`${stdout}${stderr}`).toContain(
+        'Refreshed the cask database cache with 1 cask',
+      )
+    } finally {
+      rmSync(homeDirectory, { force: true, recursive: true })
+    }
+  })
+})
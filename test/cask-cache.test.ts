@@ -0,0 +1,185 @@
+/**
+ * Tests for the slim, indexed cask cache
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { AppMatcher } from '../src/app-matcher.ts'
+import {
+  createSlimCaskData,
+  deserializeCaskIndex,
+  serializeCaskIndex,
+  slimCask,
+} from '../src/cask-cache.ts'
+import type { AppInfo, HomebrewCask } from '../src/types.ts'
+
+const CACHE_CASK_COUNT = 100
+const ZAP_PATH_COUNT = 6
+const CAVEAT_REPEAT = 6
+
+/**
+ * Cask with the bulky fields the API returns but the matcher doesn't use
+ */
+function createCask(number: number): HomebrewCask {
+  const token = `example-app-${number}`
+  // Not part of HomebrewCask, so they can't be set in the literal below
+  const unusedFields = {
+    caveats: 'Restart your Mac after installing this app. '.repeat(
+      CAVEAT_REPEAT,
+    ),
+    depends_on: { macos: { '>=': ['12'] } },
+    sha256: 'no_check',
+    url: `https://example.com/${number}/download.dmg`,
+  }
+
+  return {
+    ...unusedFields,
+    artifacts: [
+      { app: [`Example App ${number}.app`] },
+      {
+        uninstall: [
+          {
+            delete: [`/Library/Example ${number}`],
+            quit: `com.example.app${number}`,
+          },
+        ],
+      },
+      {
+        zap: [
+          {
+            trash: Array.from(
+              { length: ZAP_PATH_COUNT },
+              (_, helper) =>
+                `~/Library/Preferences/com.example.helper${number}-${helper}.plist`,
+            ),
+          },
+        ],
+      },
+    ],
+    desc: `Example application number ${number}`,
+    full_token: token,
+    homepage: `https://example.com/${number}`,
+    name: [`Example App ${number}`],
+    old_tokens: [`old-example-app-${number}`],
+    tap: 'homebrew/cask',
+    token,
+    version: '1.2.3,456',
+  }
+}
+
+const app: AppInfo = {
+  alreadyInstalled: false,
+  appPath: '/Applications/Example App 1.app',
+  brewName: 'example-app-1',
+  brewType: 'unavailable',
+  bundleId: 'com.example.helper1-0',
+  originalName: 'Example App 1',
+  status: 'unavailable',
+}
+
+describe('slimCask', () => {
+  test('should keep only the fields used for matching and display', () => {
+    const cask = slimCask({ ...createCask(1), deprecated: true })
+
+    expect(Object.keys(cask).sort()).toEqual([
+      'artifacts',
+      'deprecated',
+      'desc',
+      'full_token',
+      'homepage',
+      'name',
+      'old_tokens',
+      'tap',
+      'token',
+      'version',
+    ])
+    expect(cask.artifacts).toEqual([
+      { app: ['Example App 1.app'] },
+      { uninstall: [{ quit: 'com.example.app1' }] },
+    ])
+  })
+
+  test('should keep lists of bundle IDs to quit or unload', () => {
+    const cask = slimCask({
+      ...createCask(1),
+      artifacts: [
+        {
+          uninstall: [
+            {
+              launchctl: ['com.example.app1.helper'],
+              quit: ['com.example.app1', 'com.example.app1.agent'],
+            },
+          ],
+        },
+      ],
+    })
+
+    expect(cask.artifacts).toEqual([
+      {
+        uninstall: [
+          {
+            launchctl: ['com.example.app1.helper'],
+            quit: ['com.example.app1', 'com.example.app1.agent'],
+          },
+        ],
+      },
+    ])
+  })
+})
+
+describe('cask index serialization', () => {
+  test('should match the same casks after a round trip', () => {
+    const casks = [createCask(1), createCask(2)]
+    const { data, index } = createSlimCaskData(casks)
+    const restored = deserializeCaskIndex(
+      JSON.parse(JSON.stringify(index)),
+      data,
+    )
+
+    expect(restored).toBeDefined()
+    expect([...(restored?.byToken.keys() ?? [])]).toEqual([
+      'example-app-1',
+      'example-app-2',
+    ])
+    // Bundle IDs from zap paths survive even though the slim casks drop them
+    expect(restored?.byBundleId.get('com.example.helper1-0')).toEqual([
+      data[0] as HomebrewCask,
+    ])
+
+    const fullResult = new AppMatcher().matchApp(
+      app,
+      new AppMatcher().buildIndex(casks),
+    )
+    const slimResult = new AppMatcher().matchApp(app, restored)
+
+    expect(slimResult.matches.map((match) => match.cask.token)).toEqual(
+      fullResult.matches.map((match) => match.cask.token),
+    )
+  })
+
+  test('should reject an index that refers to missing casks', () => {
+    const casks = [createCask(1), createCask(2)]
+    const index = serializeCaskIndex(new AppMatcher().buildIndex(casks), casks)
+
+    expect(deserializeCaskIndex(index, casks.slice(0, 1))).toBeUndefined()
+  })
+
+  test('should store less than the full casks and restore the index as it is', () => {
+    const casks = Array.from({ length: CACHE_CASK_COUNT }, (_, number) =>
+      createCask(number),
+    )
+    const { data, index } = createSlimCaskData(casks)
+
+    expect(JSON.stringify(data).length).toBeLessThan(
+      JSON.stringify(casks).length,
+    )
+
+    const entry = JSON.parse(JSON.stringify({ data, index }))
+    const restored = deserializeCaskIndex(entry.index, entry.data)
+
+    // Every token and bundle ID is found straight from the stored index
+    expect(restored?.byToken.size).toBe(CACHE_CASK_COUNT)
+    expect(restored?.byBundleId.get('com.example.app1')?.[0]?.token).toBe(
+      'example-app-1',
+    )
+  })
+})
@@ -0,0 +1,91 @@
+/**
+ * Tests for cask data validation
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { validateCacheEntry, validateCasks } from '../src/cask-validation.ts'
+import type { HomebrewCask } from '../src/types.ts'
+import { ConvertAppsError } from '../src/types.ts'
+
+const cask: HomebrewCask = {
+  artifacts: [{ app: ['Example.app'], uninstall: [{ quit: 'com.example' }] }],
+  desc: 'Example app',
+  full_token: 'example',
+  homepage: 'https://example.com',
+  name: ['Example'],
+  old_tokens: [],
+  tap: 'homebrew/cask',
+  token: 'example',
+}
+
+describe('validateCasks', () => {
+  test('should keep valid casks', () => {
+    expect(validateCasks([cask], 'test')).toEqual([cask])
+  })
+
+  test('should accept casks without old tokens', () => {
+    const { old_tokens: _oldTokens, ...caskWithoutOldTokens } = cask
+
+    expect(validateCasks([caskWithoutOldTokens], 'test')).toEqual([
+      caskWithoutOldTokens,
+    ])
+  })
+
+  test('should accept casks without a description', () => {
+    expect(validateCasks([{ ...cask, desc: null }], 'test')).toEqual([
+      { ...cask, desc: '' },
+    ])
+  })
+
+  test('should drop malformed casks', () => {
+    const casks = validateCasks(
+      [
+        cask,
+        null,
+        { ...cask, token: '' },
+        { ...cask, name: 'Example' },
+        { ...cask, artifacts: [{ app: 'Example.app' }] },
+        { ...cask, old_tokens: 'old-example' },
+      ],
+      'test',
+    )
+
+    expect(casks).toEqual([cask])
+  })
+
+  test('should reject data that is not a list', () => {
+    expect(() => validateCasks({ casks: [cask] }, 'test')).toThrow(
+      ConvertAppsError,
+    )
+  })
+})
+
+describe('validateCacheEntry', () => {
+  const entry = { data: [cask], timestamp: 0, version: '2.0.0' }
+
+  test('should accept a valid cache entry', () => {
+    expect(validateCacheEntry(entry)).toEqual(entry)
+  })
+
+  test('should give casks without a description an empty one', () => {
+    expect(
+      validateCacheEntry({ ...entry, data: [{ ...cask, desc: null }] }).data,
+    ).toEqual([{ ...cask, desc: '' }])
+  })
+
+  test('should reject structurally invalid cache entries', () => {
+    for (const invalidEntry of [
+      null,
+      [],
+      { ...entry, timestamp: '0' },
+      { ...entry, version: undefined },
+      { ...entry, data: [{ ...cask, artifacts: {} }] },
+      { ...entry, index: { byToken: [] } },
+      { ...entry, jws: { payload: 'payload' } },
+    ]) {
+      expect(() => validateCacheEntry(invalidEntry)).toThrow(
+        'Invalid cask cache',
+      )
+    }
+  })
+})
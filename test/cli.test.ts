@@ -24,6 +24,33 @@ describe('CLI', () => {
       expect(optionNames.has('--verbose')).toBe(true)
       expect(optionNames.has('--applications-dir')).toBe(true)
       expect(optionNames.has('--ignore-app-store')).toBe(true)
+      expect(optionNames.has('--yes')).toBe(true)
+      expect(optionNames.has('--select')).toBe(true)
+      expect(optionNames.has('--deselect')).toBe(true)
+      expect(optionNames.has('--mappings')).toBe(true)
+      expect(optionNames.has('--api-url')).toBe(true)
+      expect(optionNames.has('--offline')).toBe(true)
+      expect(optionNames.has('--api-retries')).toBe(true)
+    })
+
+    test('should have a config command', () => {
+      const program = createProgram()
+      const commandNames = program.commands.map((command) => command.name())
+
+      expect(commandNames).toContain('config')
+    })
+
+    test('should have a cache command with its actions', () => {
+      const program = createProgram()
+      const cacheCommand = program.commands.find(
+        (command) => command.name() === 'cache',
+      )
+
+      expect(cacheCommand?.commands.map((command) => command.name())).toEqual([
+        'info',
+        'clear',
+        'refresh',
+      ])
     })
 
     test('should have version information', () => {
@@ -43,7 +70,10 @@ describe('CLI', () => {
       expect(result.verbose).toBe(false)
       expect(Array.isArray(result.ignore)).toBe(true)
       expect(result.ignore).toHaveLength(0)
-      expect(result.applicationsDir).toBe('/Applications')
+      expect(result.applicationsDirs).toEqual([
+        '/Applications',
+        '~/Applications',
+      ])
       expect(result.ignoreAppStore).toBe(false)
     })
 
@@ -91,12 +121,95 @@ describe('CLI', () => {
       expect(result.ignoreAppStore).toBe(true)
     })
 
+    test('should parse the App Store migration options', () => {
+      const argv = [
+        'node',
+        'script.js',
+        '--migrate-app-store',
+        '--migration-script',
+        '/tmp/migrate.sh',
+      ]
+      const result = parseArguments(argv)
+
+      expect(result.migrateAppStore).toBe(true)
+      expect(result.migrationScript).toBe('/tmp/migrate.sh')
+    })
+
+    test('should parse non-interactive selection options', () => {
+      const argv = [
+        'node',
+        'script.js',
+        '--yes',
+        '--select',
+        'google-chrome',
+        'Visual Studio Code',
+        '--deselect',
+        'Microsoft *',
+      ]
+      const result = parseArguments(argv)
+
+      expect(result.yes).toBe(true)
+      expect(result.select).toEqual(['google-chrome', 'Visual Studio Code'])
+      expect(result.deselect).toEqual(['Microsoft *'])
+    })
+
+    test('should parse the number of API retries', () => {
+      const retries = 5
+      const argv = ['node', 'script.js', '--api-retries', String(retries)]
+      const result = parseArguments(argv)
+
+      expect(result.apiRetries).toBe(retries)
+    })
+
+    test('should parse the cache command', () => {
+      expect(
+        parseArguments(['node', 'script.js', 'cache', 'info']).cacheCommand,
+      ).toEqual({ action: 'info', bundleIds: true, casks: true })
+      expect(
+        parseArguments(['node', 'script.js', 'cache', 'clear', '--casks'])
+          .cacheCommand,
+      ).toEqual({ action: 'clear', bundleIds: false, casks: true })
+      expect(parseArguments(['node', 'script.js']).cacheCommand).toBeUndefined()
+    })
+
+    test('should parse cache options', () => {
+      const ttl = 72
+      const argv = [
+        'node',
+        'script.js',
+        '--cache-ttl',
+        String(ttl),
+        '--stale-while-revalidate',
+      ]
+      const result = parseArguments(argv)
+
+      expect(result.cacheTtl).toBe(ttl)
+      expect(result.staleWhileRevalidate).toBe(true)
+    })
+
     test('should parse custom applications directory', () => {
       const customDirectory = '/System/Applications'
       const argv = ['node', 'script.js', '--applications-dir', customDirectory]
       const result = parseArguments(argv)
 
-      expect(result.applicationsDir).toBe(customDirectory)
+      expect(result.applicationsDirs).toEqual([customDirectory])
+    })
+
+    test('should collect repeated applications directories', () => {
+      const argv = [
+        'node',
+        'script.js',
+        '--applications-dir',
+        '/Applications',
+        '--applications-dir',
+        '/Volumes/Apps',
+      ]
+      const result = parseArguments(argv)
+
+      expect(result.applicationsDirs).toEqual([
+        '/Applications',
+        '/Volumes/Apps',
+      ])
     })
 
     test('should handle multiple options together', () => {
@@ -116,7 +229,7 @@ describe('CLI', () => {
       expect(result.verbose).toBe(true)
       expect(result.dryRun).toBe(true)
       expect(result.ignore).toEqual(['Adobe Photoshop', 'Microsoft Word'])
-      expect(result.applicationsDir).toBe('/custom/path')
+      expect(result.applicationsDirs).toEqual(['/custom/path'])
     })
 
     test('should validate command options structure', () => {
@@ -127,7 +240,7 @@ describe('CLI', () => {
         'dryRun',
         'verbose',
         'ignore',
-        'applicationsDir',
+        'applicationsDirs',
         'ignoreAppStore',
       ]
 
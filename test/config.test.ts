@@ -0,0 +1,205 @@
+/**
+ * Test file for config.ts
+ */
+
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import packageJson from '../package.json' with { type: 'json' }
+import {
+  findProjectConfigFile,
+  formatResolvedConfig,
+  resolveConfig,
+  validateConfigValues,
+} from '../src/config.ts'
+import type { CommandOptions } from '../src/types.ts'
+import { ConvertAppsError } from '../src/types.ts'
+
+const DEFAULT_THRESHOLD = 0.6
+const PROJECT_THRESHOLD = 0.7
+const ENV_THRESHOLD = 0.8
+const CLI_THRESHOLD = 0.9
+
+const temporaryDirectory = mkdtempSync(path.join(os.tmpdir(), 'config-'))
+const configHome = path.join(temporaryDirectory, 'xdg')
+const userConfigDirectory = path.join(configHome, packageJson.name)
+const projectDirectory = path.join(temporaryDirectory, 'project')
+const nestedDirectory = path.join(projectDirectory, 'nested', 'deeper')
+const emptyDirectory = path.join(temporaryDirectory, 'empty')
+
+mkdirSync(userConfigDirectory, { recursive: true })
+mkdirSync(nestedDirectory, { recursive: true })
+mkdirSync(emptyDirectory, { recursive: true })
+
+const defaults: CommandOptions = {
+  applicationsDirs: ['/Applications', '~/Applications'],
+  deselect: [],
+  dryRun: false,
+  fallbackToCli: false,
+  forceRefreshCache: false,
+  ignore: [],
+  ignoreAppStore: false,
+  json: false,
+  matchingThreshold: DEFAULT_THRESHOLD,
+  select: [],
+  verbose: false,
+  yes: false,
+}
+
+const writeConfig = (filePath: string, data: unknown) => {
+  writeFileSync(filePath, JSON.stringify(data))
+}
+
+const userConfigFile = path.join(userConfigDirectory, 'config.json')
+const projectConfigFile = path.join(projectDirectory, '.convertappsrc')
+
+writeConfig(userConfigFile, { dryRun: true, ignore: ['Slack'] })
+writeConfig(projectConfigFile, {
+  ignore: ['Zoom'],
+  matchingThreshold: PROJECT_THRESHOLD,
+})
+
+afterAll(() => {
+  rmSync(temporaryDirectory, { force: true, recursive: true })
+})
+
+describe('resolveConfig', () => {
+  test('should use defaults when there is no configuration', () => {
+    const config = resolveConfig(defaults, new Set(), {
+      cwd: emptyDirectory,
+      env: { XDG_CONFIG_HOME: emptyDirectory },
+    })
+
+    expect(config.options).toEqual(defaults)
+    expect(config.sources.dryRun).toBe('default')
+  })
+
+  test('should layer user and project config files over defaults', () => {
+    const config = resolveConfig(defaults, new Set(), {
+      cwd: nestedDirectory,
+      env: { XDG_CONFIG_HOME: configHome },
+    })
+
+    expect(config.options.dryRun).toBe(true)
+    expect(config.options.ignore).toEqual(['Zoom'])
+    expect(config.options.matchingThreshold).toBe(PROJECT_THRESHOLD)
+    expect(config.sources.dryRun).toBe(`user config ${userConfigFile}`)
+    expect(config.sources.ignore).toBe(`project config ${projectConfigFile}`)
+  })
+
+  test('should let environment variables override config files', () => {
+    const config = resolveConfig(defaults, new Set(), {
+      cwd: nestedDirectory,
+      env: {
+        CONVERT_APPS_DRY_RUN: 'no',
+        CONVERT_APPS_IGNORE: 'Slack, Discord',
+        CONVERT_APPS_MATCHING_THRESHOLD: String(ENV_THRESHOLD),
+        XDG_CONFIG_HOME: configHome,
+      },
+    })
+
+    expect(config.options.dryRun).toBe(false)
+    expect(config.options.ignore).toEqual(['Slack', 'Discord'])
+    expect(config.options.matchingThreshold).toBe(ENV_THRESHOLD)
+    expect(config.sources.matchingThreshold).toBe(
+      'environment CONVERT_APPS_MATCHING_THRESHOLD',
+    )
+  })
+
+  test('should let command line options override everything else', () => {
+    const config = resolveConfig(
+      { ...defaults, matchingThreshold: CLI_THRESHOLD },
+      new Set(['matchingThreshold']),
+      {
+        cwd: nestedDirectory,
+        env: {
+          CONVERT_APPS_MATCHING_THRESHOLD: String(ENV_THRESHOLD),
+          XDG_CONFIG_HOME: configHome,
+        },
+      },
+    )
+
+    expect(config.options.matchingThreshold).toBe(CLI_THRESHOLD)
+    expect(config.sources.matchingThreshold).toBe('command line')
+    expect(config.options.dryRun).toBe(true)
+  })
+
+  test('should reject unknown and invalid environment variables', () => {
+    const resolveWithEnv = (env: NodeJS.ProcessEnv) => () =>
+      resolveConfig(defaults, new Set(), {
+        cwd: emptyDirectory,
+        env: { ...env, XDG_CONFIG_HOME: emptyDirectory },
+      })
+
+    expect(resolveWithEnv({ CONVERT_APPS_COLOR: '1' })).toThrow(
+      'Unknown configuration environment variable CONVERT_APPS_COLOR',
+    )
+    expect(resolveWithEnv({ CONVERT_APPS_YES: 'maybe' })).toThrow(
+      ConvertAppsError,
+    )
+    expect(resolveWithEnv({ CONVERT_APPS_MATCHING_THRESHOLD: '2' })).toThrow(
+      'Invalid value for "matchingThreshold"',
+    )
+  })
+
+  test('should reject config files that are not valid JSON', () => {
+    const brokenDirectory = path.join(temporaryDirectory, 'broken')
+    mkdirSync(brokenDirectory, { recursive: true })
+    writeFileSync(path.join(brokenDirectory, '.convertappsrc'), '{')
+
+    expect(() =>
+      resolveConfig(defaults, new Set(), {
+        cwd: brokenDirectory,
+        env: { XDG_CONFIG_HOME: emptyDirectory },
+      }),
+    ).toThrow('Failed to read configuration file')
+  })
+})
+
+describe('validateConfigValues', () => {
+  test('should accept known keys with valid values', () => {
+    const values = { brewfile: '~/Brewfile', select: ['Slack'], yes: true }
+
+    expect(validateConfigValues(values, 'test')).toEqual(values)
+  })
+
+  test('should reject unknown keys', () => {
+    expect(() => validateConfigValues({ colour: true }, 'test')).toThrow(
+      'Unknown configuration key "colour" in test',
+    )
+  })
+
+  test('should reject values of the wrong type', () => {
+    expect(() => validateConfigValues({ dryRun: 'yes' }, 'test')).toThrow(
+      ConvertAppsError,
+    )
+    expect(() => validateConfigValues({ ignore: 'Slack' }, 'test')).toThrow(
+      'Invalid value for "ignore"',
+    )
+    expect(() => validateConfigValues({ apiRetries: 1.5 }, 'test')).toThrow(
+      'Invalid value for "apiRetries"',
+    )
+    expect(() => validateConfigValues([], 'test')).toThrow(
+      'must be a JSON object',
+    )
+  })
+})
+
+describe('findProjectConfigFile', () => {
+  test('should find the nearest config file in parent directories', () => {
+    expect(findProjectConfigFile(nestedDirectory)).toBe(projectConfigFile)
+  })
+})
+
+describe('formatResolvedConfig', () => {
+  test('should list each option with its source', () => {
+    const output = formatResolvedConfig({
+      options: { ...defaults, yes: true },
+      sources: { yes: 'command line' },
+    })
+
+    expect(output).toContain('yes: true (command line)')
+    expect(output).toContain('dryRun: false (default)')
+  })
+})
@@ -54,6 +54,16 @@ describe('constants', () => {
       expect(result).toBe('brew install --cask --adopt ')
     })
 
+    test('INSTALL_CASK should pass a custom app directory', () => {
+      const result = BREW_COMMANDS.INSTALL_CASK(
+        ['test-app'],
+        '/Users/test/Applications',
+      )
+      expect(result).toBe(
+        'brew install --cask --adopt --appdir="/Users/test/Applications" "test-app"',
+      )
+    })
+
     test('INSTALL_CASK should quote names with spaces', () => {
       const result = BREW_COMMANDS.INSTALL_CASK(['Test App', 'another-app'])
       expect(result).toBe(
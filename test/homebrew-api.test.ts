@@ -2,9 +2,68 @@
  * Test file for homebrew-api.ts
  */
 
-import { describe, expect, test } from 'bun:test'
-import { clearHomebrewCache } from '../src/homebrew-api.ts'
-import type { HomebrewCask } from '../src/types.ts'
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  test,
+} from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { constants, generateKeyPairSync, sign } from 'node:crypto'
+import {
+  chmodSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import type {
+  IncomingHttpHeaders,
+  IncomingMessage,
+  ServerResponse,
+} from 'node:http'
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import os from 'node:os'
+import path from 'node:path'
+import { gunzipSync, gzipSync } from 'node:zlib'
+import {
+  clearHomebrewCache,
+  getCasksUrl,
+  HomebrewApiClient,
+  waitForBackgroundRefreshes,
+} from '../src/homebrew-api.ts'
+import type { CaskCacheEntry, HomebrewCask, JwsDocument } from '../src/types.ts'
+
+const HTTP_OK = 200
+const HTTP_PARTIAL_CONTENT = 206
+const HTTP_NOT_MODIFIED = 304
+const HTTP_NOT_FOUND = 404
+const HTTP_SERVICE_UNAVAILABLE = 503
+const RSA_KEY_BITS = 2048
+const EXECUTABLE_FILE_MODE = 0o755
+const SHORT_WAIT_TIMEOUT = 50
+// Long enough for the client to read the first half on a busy machine
+const RESET_DELAY = 250
+const SLOW_RESPONSE_DELAY = 500
+const HOUR = 3_600_000
+const RANGE_START_REGEX = /\d+/
+
+const createCask = (token: string): HomebrewCask => ({
+  artifacts: [{ app: [`${token}.app`] }],
+  desc: '',
+  full_token: token,
+  homepage: 'https://example.com',
+  name: [token],
+  old_tokens: [],
+  tap: 'homebrew/cask',
+  token,
+})
 
 describe('Homebrew API Functions', () => {
   describe('cache operations', () => {
@@ -56,3 +115,726 @@ describe('Homebrew API Functions', () => {
     })
   })
 })
+
+const signPayload = (payload: string, privateKey: string): JwsDocument => {
+  const protectedHeader = Buffer.from(
+    JSON.stringify({ alg: 'PS512', b64: false }),
+  ).toString('base64url')
+  const signature = sign(
+    'sha512',
+    Buffer.from(`${protectedHeader}.${payload}`),
+    {
+      key: privateKey,
+      padding: constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+    },
+  )
+
+  return {
+    payload,
+    signatures: [
+      {
+        header: { kid: 'homebrew-1' },
+        protected: protectedHeader,
+        signature: signature.toString('base64url'),
+      },
+    ],
+  }
+}
+
+describe('getCasksUrl', () => {
+  test('should default to formulae.brew.sh', () => {
+    expect(getCasksUrl(undefined, {})).toBe(
+      'https://formulae.brew.sh/api/cask.json',
+    )
+  })
+
+  test('should honour HOMEBREW_API_DOMAIN', () => {
+    expect(
+      getCasksUrl(undefined, {
+        HOMEBREW_API_DOMAIN: 'https://mirror.example.com/api/',
+      }),
+    ).toBe('https://mirror.example.com/api/cask.json')
+  })
+
+  test('should use the signed endpoint when verifying signatures', () => {
+    expect(getCasksUrl('https://mirror.example.com/api', {}, true)).toBe(
+      'https://mirror.example.com/api/cask.jws.json',
+    )
+  })
+
+  test('should prefer an explicit API URL', () => {
+    expect(
+      getCasksUrl('https://other.example.com/api', {
+        HOMEBREW_API_DOMAIN: 'https://mirror.example.com/api',
+      }),
+    ).toBe('https://other.example.com/api/cask.json')
+  })
+})
+
+describe('HomebrewApiClient conditional requests', () => {
+  const ETAG = '"casks-v1"'
+  const LAST_MODIFIED = 'Mon, 19 Oct 2026 08:00:00 GMT'
+  const cacheDirectory = mkdtempSync(path.join(os.tmpdir(), 'homebrew-api-'))
+  const requests: IncomingHttpHeaders[] = []
+  let casks: HomebrewCask[] = [createCask('first-app')]
+  let responseDelay = 0
+
+  const server = createServer((request, response) => {
+    requests.push(request.headers)
+
+    if (request.headers['if-none-match'] === ETAG) {
+      response.writeHead(HTTP_NOT_MODIFIED).end()
+      return
+    }
+
+    setTimeout(() => {
+      response
+        .writeHead(HTTP_OK, {
+          'Content-Type': 'application/json',
+          ETag: ETAG,
+          'Last-Modified': LAST_MODIFIED,
+        })
+        .end(JSON.stringify(casks))
+    }, responseDelay)
+  })
+
+  let client: HomebrewApiClient
+
+  let serverUrl: string
+
+  const getCachePath = () => {
+    const [cacheFile] = readdirSync(cacheDirectory)
+    return path.join(cacheDirectory, cacheFile ?? '')
+  }
+
+  const readCacheEntry = (): CaskCacheEntry =>
+    JSON.parse(
+      gunzipSync(readFileSync(getCachePath())).toString(),
+    ) as CaskCacheEntry
+
+  const expireCache = () => {
+    const cacheEntry = { ...readCacheEntry(), timestamp: 0 }
+    writeFileSync(getCachePath(), gzipSync(JSON.stringify(cacheEntry)))
+  }
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', resolve)
+    })
+    const { port } = server.address() as AddressInfo
+    serverUrl = `http://127.0.0.1:${port}`
+    client = new HomebrewApiClient({
+      apiUrl: serverUrl,
+      // No Homebrew cache in there, so requests always reach the server
+      brewCacheDirectory: cacheDirectory,
+      cacheDirectory,
+    })
+  })
+
+  afterAll(() => {
+    server.close()
+    rmSync(cacheDirectory, { force: true, recursive: true })
+  })
+
+  test('should store ETag and Last-Modified with the cache', async () => {
+    const result = await client.fetchAllCasks(false, false)
+
+    expect(result.success).toBe(true)
+    expect(result.fromCache).toBeUndefined()
+    expect(readCacheEntry()).toMatchObject({
+      etag: ETAG,
+      lastModified: LAST_MODIFIED,
+    })
+  })
+
+  test('should not make a request while the cache is fresh', async () => {
+    const requestCount = requests.length
+    const result = await client.fetchAllCasks(false, false)
+
+    expect(result.fromCache).toBe(true)
+    expect(result.index?.byToken.has('first-app')).toBe(true)
+    expect(requests).toHaveLength(requestCount)
+  })
+
+  test('should revalidate an expired cache and keep it on 304', async () => {
+    expireCache()
+    const result = await client.fetchAllCasks(false, false)
+
+    expect(requests.at(-1)?.['if-none-match']).toBe(ETAG)
+    expect(requests.at(-1)?.['if-modified-since']).toBe(LAST_MODIFIED)
+    expect(result.fromCache).toBe(true)
+    expect(result.data?.map((cask) => cask.token)).toEqual(['first-app'])
+    expect(readCacheEntry().timestamp).toBeGreaterThan(0)
+  })
+
+  test('should replace the cache when the data has changed', async () => {
+    casks = [createCask('second-app')]
+    const cacheEntry = { ...readCacheEntry(), etag: '"outdated"', timestamp: 0 }
+    writeFileSync(getCachePath(), gzipSync(JSON.stringify(cacheEntry)))
+
+    const result = await client.fetchAllCasks(false, false)
+
+    expect(result.data?.map((cask) => cask.token)).toEqual(['second-app'])
+    expect(readCacheEntry().etag).toBe(ETAG)
+  })
+
+  test('should fetch again when the cache is malformed', async () => {
+    const cacheEntry = { ...readCacheEntry(), data: [{ token: 'broken' }] }
+    writeFileSync(getCachePath(), gzipSync(JSON.stringify(cacheEntry)))
+    const requestCount = requests.length
+
+    const result = await client.fetchAllCasks(false, false)
+
+    expect(requests).toHaveLength(requestCount + 1)
+    expect(requests.at(-1)?.['if-none-match']).toBeUndefined()
+    expect(result.fromCache).toBeUndefined()
+  })
+
+  test('should drop malformed casks from the API', async () => {
+    casks = [
+      createCask('second-app'),
+      { ...createCask('broken-app'), name: 'Broken App' } as never,
+    ]
+
+    const result = await client.fetchAllCasks(true, false)
+
+    expect(result.data?.map((cask) => cask.token)).toEqual(['second-app'])
+    casks = [createCask('second-app')]
+  })
+
+  test('should keep a separate cache per API URL', async () => {
+    const mirrorClient = new HomebrewApiClient({
+      apiUrl: `${serverUrl}/mirror`,
+      brewCacheDirectory: cacheDirectory,
+      cacheDirectory,
+    })
+
+    await mirrorClient.fetchAllCasks(false, false)
+
+    expect(requests.at(-1)?.['if-none-match']).toBeUndefined()
+    expect(readdirSync(cacheDirectory)).toHaveLength(2)
+    await mirrorClient.clearCache()
+  })
+
+  test('should not send conditional headers when forcing a refresh', async () => {
+    await client.fetchAllCasks(true, false)
+
+    expect(requests.at(-1)?.['if-none-match']).toBeUndefined()
+  })
+
+  test('should honour a custom cache TTL', async () => {
+    const cacheEntry = { ...readCacheEntry(), timestamp: Date.now() - HOUR }
+    writeFileSync(getCachePath(), gzipSync(JSON.stringify(cacheEntry)))
+    const requestCount = requests.length
+    const shortTtlClient = new HomebrewApiClient({
+      apiUrl: serverUrl,
+      brewCacheDirectory: cacheDirectory,
+      cacheDirectory,
+      cacheTtl: HOUR / 2,
+    })
+
+    await client.fetchAllCasks(false, false)
+    expect(requests).toHaveLength(requestCount)
+
+    await shortTtlClient.fetchAllCasks(false, false)
+    expect(requests).toHaveLength(requestCount + 1)
+  })
+
+  test('should serve an expired cache and refresh it in the background', async () => {
+    const cacheEntry = { ...readCacheEntry(), etag: '"outdated"', timestamp: 0 }
+    writeFileSync(getCachePath(), gzipSync(JSON.stringify(cacheEntry)))
+    casks = [createCask('third-app')]
+    const staleClient = new HomebrewApiClient({
+      apiUrl: serverUrl,
+      brewCacheDirectory: cacheDirectory,
+      cacheDirectory,
+      staleWhileRevalidate: true,
+    })
+
+    const result = await staleClient.fetchAllCasks(false, false)
+
+    expect(result.fromCache).toBe(true)
+    expect(result.data?.map((cask) => cask.token)).toEqual(['second-app'])
+
+    await waitForBackgroundRefreshes()
+
+    expect(readCacheEntry().data.map((cask) => cask.token)).toEqual([
+      'third-app',
+    ])
+  })
+
+  test('should stop waiting for a background refresh after the timeout', async () => {
+    const cacheEntry = { ...readCacheEntry(), etag: '"outdated"', timestamp: 0 }
+    writeFileSync(getCachePath(), gzipSync(JSON.stringify(cacheEntry)))
+    responseDelay = SLOW_RESPONSE_DELAY
+    const staleClient = new HomebrewApiClient({
+      apiUrl: serverUrl,
+      brewCacheDirectory: cacheDirectory,
+      cacheDirectory,
+      staleWhileRevalidate: true,
+    })
+
+    try {
+      await staleClient.fetchAllCasks(false, false)
+
+      expect(await waitForBackgroundRefreshes(SHORT_WAIT_TIMEOUT)).toBe(false)
+      expect(await waitForBackgroundRefreshes()).toBe(true)
+    } finally {
+      responseDelay = 0
+    }
+  })
+})
+
+describe('HomebrewApiClient retries', () => {
+  const RETRIES = 2
+  const ETAG = '"casks-v2"'
+  const cacheDirectory = mkdtempSync(path.join(os.tmpdir(), 'homebrew-api-'))
+  const body = JSON.stringify([
+    createCask('first-app'),
+    createCask('second-app'),
+  ])
+  const requests: IncomingHttpHeaders[] = []
+  const responders: Array<
+    (request: IncomingMessage, response: ServerResponse) => void
+  > = []
+
+  const sendCasks = (_request: IncomingMessage, response: ServerResponse) => {
+    response
+      .writeHead(HTTP_OK, { 'Content-Type': 'application/json', ETag: ETAG })
+      .end(body)
+  }
+
+  const sendStatus =
+    (status: number) =>
+    (_request: IncomingMessage, response: ServerResponse) => {
+      response.writeHead(status).end()
+    }
+
+  const server = createServer((request, response) => {
+    requests.push(request.headers)
+    const respond = responders.shift() ?? sendCasks
+    respond(request, response)
+  })
+
+  let client: HomebrewApiClient
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', resolve)
+    })
+    const { port } = server.address() as AddressInfo
+    client = new HomebrewApiClient({
+      apiUrl: `http://127.0.0.1:${port}`,
+      brewCacheDirectory: cacheDirectory,
+      cacheDirectory,
+      retries: RETRIES,
+      retryDelay: 1,
+    })
+  })
+
+  afterEach(async () => {
+    requests.length = 0
+    responders.length = 0
+    await client.clearCache()
+  })
+
+  afterAll(() => {
+    server.close()
+    rmSync(cacheDirectory, { force: true, recursive: true })
+  })
+
+  test('should retry server errors', async () => {
+    responders.push(
+      sendStatus(HTTP_SERVICE_UNAVAILABLE),
+      sendStatus(HTTP_SERVICE_UNAVAILABLE),
+    )
+
+    const result = await client.fetchAllCasks(false, false)
+
+    expect(result.success).toBe(true)
+    expect(requests).toHaveLength(RETRIES + 1)
+  })
+
+  test('should not retry client errors', async () => {
+    responders.push(sendStatus(HTTP_NOT_FOUND))
+
+    const result = await client.fetchAllCasks(false, false)
+
+    expect(result.success).toBe(false)
+    expect(requests).toHaveLength(1)
+  })
+
+  test('should serve an expired cache when every attempt fails', async () => {
+    await client.fetchAllCasks(false, false)
+    const [cacheFile = ''] = readdirSync(cacheDirectory)
+    const cachePath = path.join(cacheDirectory, cacheFile)
+    const cacheEntry = JSON.parse(
+      gunzipSync(readFileSync(cachePath)).toString(),
+    ) as CaskCacheEntry
+    writeFileSync(
+      cachePath,
+      gzipSync(
+        JSON.stringify({ ...cacheEntry, etag: '"outdated"', timestamp: 0 }),
+      ),
+    )
+    requests.length = 0
+    responders.push(
+      sendStatus(HTTP_SERVICE_UNAVAILABLE),
+      sendStatus(HTTP_SERVICE_UNAVAILABLE),
+      sendStatus(HTTP_SERVICE_UNAVAILABLE),
+    )
+
+    const result = await client.fetchAllCasks(false, false)
+
+    expect(requests).toHaveLength(RETRIES + 1)
+    expect(result.success).toBe(true)
+    expect(result.fromCache).toBe(true)
+    expect(result.data).toHaveLength(2)
+  })
+})
+
+// A fresh server, so the interrupted request can't go out on a reused connection
+describe('HomebrewApiClient resumed downloads', () => {
+  const ETAG = '"casks-v3"'
+  const cacheDirectory = mkdtempSync(path.join(os.tmpdir(), 'homebrew-api-'))
+  const body = JSON.stringify([
+    createCask('first-app'),
+    createCask('second-app'),
+  ])
+  const half = Math.floor(body.length / 2)
+  const requests: IncomingHttpHeaders[] = []
+
+  const server = createServer((request, response) => {
+    requests.push(request.headers)
+    const { range } = request.headers
+
+    if (range === undefined) {
+      response.writeHead(HTTP_OK, {
+        'Content-Length': body.length,
+        'Content-Type': 'application/json',
+        ETag: ETAG,
+      })
+      // Give the client time to read the first half before the reset
+      response.write(body.slice(0, half), () => {
+        setTimeout(() => response.destroy(), RESET_DELAY)
+      })
+      return
+    }
+
+    const start = Number(range.match(RANGE_START_REGEX)?.[0])
+    response
+      .writeHead(HTTP_PARTIAL_CONTENT, {
+        'Content-Range': `bytes ${start}-${body.length - 1}/${body.length}`,
+        ETag: ETAG,
+      })
+      .end(body.slice(start))
+  })
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', resolve)
+    })
+  })
+
+  afterAll(() => {
+    server.close()
+    rmSync(cacheDirectory, { force: true, recursive: true })
+  })
+
+  test('should resume an interrupted download', async () => {
+    const { port } = server.address() as AddressInfo
+    const client = new HomebrewApiClient({
+      apiUrl: `http://127.0.0.1:${port}`,
+      brewCacheDirectory: cacheDirectory,
+      cacheDirectory,
+      retryDelay: 1,
+    })
+
+    const result = await client.fetchAllCasks(false, false)
+
+    expect(requests).toHaveLength(2)
+    expect(requests[1]?.range).toBe(`bytes=${half}-`)
+    expect(requests[1]?.['if-range']).toBe(ETAG)
+    expect(result.data?.map((cask) => cask.token)).toEqual([
+      'first-app',
+      'second-app',
+    ])
+  })
+})
+
+describe('HomebrewApiClient with local data', () => {
+  const temporaryDirectory = mkdtempSync(path.join(os.tmpdir(), 'brew-cache-'))
+  const brewCacheDirectory = path.join(temporaryDirectory, 'Homebrew')
+  const cacheDirectory = path.join(temporaryDirectory, 'own-cache')
+  const emptyDirectory = path.join(temporaryDirectory, 'empty')
+  // Nothing listens here, so any network request fails
+  const unreachableApiUrl = 'http://127.0.0.1:9'
+
+  mkdirSync(path.join(brewCacheDirectory, 'api'), { recursive: true })
+  mkdirSync(emptyDirectory)
+  writeFileSync(
+    path.join(brewCacheDirectory, 'api', 'cask.jws.json'),
+    JSON.stringify({
+      payload: JSON.stringify([createCask('brew-cached-app')]),
+      signatures: [
+        {
+          protected: Buffer.from(
+            JSON.stringify({ alg: 'PS512', b64: false }),
+          ).toString('base64url'),
+          signature: 'c2lnbmF0dXJl',
+        },
+      ],
+    }),
+  )
+
+  afterAll(() => {
+    rmSync(temporaryDirectory, { force: true, recursive: true })
+  })
+
+  test("should use Homebrew's own cache before the first download", async () => {
+    const client = new HomebrewApiClient({ brewCacheDirectory, cacheDirectory })
+    const result = await client.fetchAllCasks(false, false)
+
+    expect(result.success).toBe(true)
+    expect(result.fromCache).toBe(true)
+    expect(result.data?.map((cask) => cask.token)).toEqual(['brew-cached-app'])
+  })
+
+  test("should use Homebrew's cache in offline mode", async () => {
+    const client = new HomebrewApiClient({
+      brewCacheDirectory,
+      cacheDirectory,
+      offline: true,
+    })
+    const result = await client.fetchAllCasks(true, false)
+
+    expect(result.data?.map((cask) => cask.token)).toEqual(['brew-cached-app'])
+  })
+
+  test("should not use Homebrew's cache for another API URL", async () => {
+    const client = new HomebrewApiClient({
+      apiUrl: unreachableApiUrl,
+      brewCacheDirectory,
+      cacheDirectory,
+      offline: true,
+    })
+    const result = await client.fetchAllCasks(false, false)
+
+    expect(result.success).toBe(false)
+    expect(result.error?.code).toBe('NETWORK_ERROR')
+  })
+
+  test("should prefer its own cache to Homebrew's", async () => {
+    const server = createServer((_request, response) => {
+      response
+        .writeHead(HTTP_OK, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify([createCask('own-cached-app')]))
+    })
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', resolve)
+    })
+    const { port } = server.address() as AddressInfo
+    const serverClient = new HomebrewApiClient({
+      apiUrl: `http://127.0.0.1:${port}`,
+      brewCacheDirectory,
+      cacheDirectory,
+    })
+    const client = new HomebrewApiClient({ brewCacheDirectory, cacheDirectory })
+
+    try {
+      await serverClient.fetchAllCasks(false, false)
+    } finally {
+      server.close()
+    }
+
+    // Use the downloaded data as the cache of the default API
+    renameSync(
+      (await serverClient.getCacheInfo()).path,
+      (await client.getCacheInfo()).path,
+    )
+
+    for (const offline of [false, true]) {
+      const result = await new HomebrewApiClient({
+        brewCacheDirectory,
+        cacheDirectory,
+        offline,
+      }).fetchAllCasks(false, false)
+
+      expect(result.data?.map((cask) => cask.token)).toEqual(['own-cached-app'])
+    }
+  })
+
+  test('should fail with a network error offline without local data', async () => {
+    const client = new HomebrewApiClient({
+      apiUrl: unreachableApiUrl,
+      brewCacheDirectory: emptyDirectory,
+      cacheDirectory: emptyDirectory,
+      offline: true,
+    })
+    const result = await client.fetchAllCasks(false, false)
+
+    expect(result.success).toBe(false)
+    expect(result.error?.code).toBe('NETWORK_ERROR')
+  })
+})
+
+describe('HomebrewApiClient signature verification', () => {
+  const temporaryDirectory = mkdtempSync(path.join(os.tmpdir(), 'signed-api-'))
+  const keyPair = generateKeyPairSync('rsa', {
+    modulusLength: RSA_KEY_BITS,
+    privateKeyEncoding: { format: 'pem', type: 'pkcs8' },
+    publicKeyEncoding: { format: 'pem', type: 'spki' },
+  })
+  const payload = JSON.stringify([createCask('signed-app')])
+  let document = signPayload(payload, keyPair.privateKey)
+  const requestedPaths: string[] = []
+
+  const server = createServer((request, response) => {
+    requestedPaths.push(request.url ?? '')
+    response
+      .writeHead(HTTP_OK, { 'Content-Type': 'application/json' })
+      .end(JSON.stringify(document))
+  })
+
+  let serverUrl: string
+  let cacheNumber = 0
+
+  const createClient = (verifySignatures: 'strict' | 'warn') => {
+    cacheNumber++
+    const cacheDirectory = path.join(temporaryDirectory, String(cacheNumber))
+
+    return new HomebrewApiClient({
+      apiUrl: serverUrl,
+      brewCacheDirectory: temporaryDirectory,
+      cacheDirectory,
+      publicKey: keyPair.publicKey,
+      verifySignatures,
+    })
+  }
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', resolve)
+    })
+    const { port } = server.address() as AddressInfo
+    serverUrl = `http://127.0.0.1:${port}`
+  })
+
+  afterAll(() => {
+    server.close()
+    rmSync(temporaryDirectory, { force: true, recursive: true })
+  })
+
+  test('should fetch the signed endpoint and accept a valid signature', async () => {
+    document = signPayload(payload, keyPair.privateKey)
+    const result = await createClient('strict').fetchAllCasks(false, false)
+
+    expect(requestedPaths.at(-1)).toBe('/cask.jws.json')
+    expect(result.data?.map((cask) => cask.token)).toEqual(['signed-app'])
+  })
+
+  test('should decode the payload as the verified signature says', async () => {
+    const signedDocument = signPayload(payload, keyPair.privateKey)
+    // Another signature first, whose header claims a base64url payload
+    document = {
+      ...signedDocument,
+      signatures: [
+        {
+          header: { kid: 'other-key' },
+          protected: Buffer.from(JSON.stringify({ alg: 'PS512' })).toString(
+            'base64url',
+          ),
+          signature: 'c2lnbmF0dXJl',
+        },
+        ...signedDocument.signatures,
+      ],
+    }
+    const result = await createClient('strict').fetchAllCasks(false, false)
+
+    expect(result.data?.map((cask) => cask.token)).toEqual(['signed-app'])
+  })
+
+  test('should reject a tampered payload in strict mode', async () => {
+    document = {
+      ...signPayload(payload, keyPair.privateKey),
+      payload: JSON.stringify([createCask('tampered-app')]),
+    }
+    const result = await createClient('strict').fetchAllCasks(false, false)
+
+    expect(result.success).toBe(false)
+    expect(result.error?.code).toBe('SIGNATURE_MISMATCH')
+  })
+
+  test('should use a tampered payload with a warning in warn mode', async () => {
+    const result = await createClient('warn').fetchAllCasks(false, false)
+
+    expect(result.data?.map((cask) => cask.token)).toEqual(['tampered-app'])
+  })
+
+  test('should verify the cached copy again before using it', async () => {
+    document = signPayload(payload, keyPair.privateKey)
+    const client = createClient('strict')
+    await client.fetchAllCasks(false, false)
+
+    const cachePath = path.join(temporaryDirectory, String(cacheNumber))
+    const [cacheFile] = readdirSync(cachePath)
+    const cacheFilePath = path.join(cachePath, cacheFile ?? '')
+    const cacheEntry = JSON.parse(
+      gunzipSync(readFileSync(cacheFilePath)).toString(),
+    ) as CaskCacheEntry
+
+    expect(cacheEntry.jws?.payload).toBe(payload)
+
+    writeFileSync(
+      cacheFilePath,
+      gzipSync(
+        JSON.stringify({
+          ...cacheEntry,
+          jws: { ...document, payload: '[{"token":"tampered-app"}]' },
+        }),
+      ),
+    )
+    const requestCount = requestedPaths.length
+    const result = await client.fetchAllCasks(false, false)
+
+    // The tampered cache is discarded and the data fetched again
+    expect(requestedPaths).toHaveLength(requestCount + 1)
+    expect(result.data?.map((cask) => cask.token)).toEqual(['signed-app'])
+  })
+
+  test('should not read the public key from HOMEBREW_REPOSITORY', async () => {
+    // A key planted where HOMEBREW_REPOSITORY points, while brew itself is missing
+    const repository = path.join(temporaryDirectory, 'planted-repository')
+    const binDirectory = path.join(temporaryDirectory, 'bin')
+    const keyDirectory = path.join(repository, 'Library', 'Homebrew', 'api')
+    const originalPath = process.env['PATH']
+
+    mkdirSync(keyDirectory, { recursive: true })
+    writeFileSync(path.join(keyDirectory, 'homebrew-1.pem'), keyPair.publicKey)
+    mkdirSync(binDirectory)
+    writeFileSync(path.join(binDirectory, 'brew'), '#!/bin/sh\nexit 1\n')
+    chmodSync(path.join(binDirectory, 'brew'), EXECUTABLE_FILE_MODE)
+    process.env['HOMEBREW_REPOSITORY'] = repository
+    process.env['PATH'] = `${binDirectory}:${originalPath}`
+
+    try {
+      document = signPayload(payload, keyPair.privateKey)
+      cacheNumber++
+      const result = await new HomebrewApiClient({
+        apiUrl: serverUrl,
+        brewCacheDirectory: temporaryDirectory,
+        cacheDirectory: path.join(temporaryDirectory, String(cacheNumber)),
+        verifySignatures: 'strict',
+      }).fetchAllCasks(false, false)
+
+      expect(result.success).toBe(false)
+      expect(result.error?.message).toContain(
+        "Homebrew's public key was not found",
+      )
+    } finally {
+      Reflect.deleteProperty(process.env, 'HOMEBREW_REPOSITORY')
+      process.env['PATH'] = originalPath
+    }
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * Test file for http-retry.ts
+ */
+
+import { describe, expect, test } from 'bun:test'
+import {
+  calculateRetryDelay,
+  createPartialDownload,
+  getResumeHeaders,
+  isRetryableStatus,
+  MAX_RETRY_DELAY,
+} from '../src/http-retry.ts'
+
+const BASE_DELAY = 1000
+const RETRY_AFTER_SECONDS = 2
+const RECEIVED_BYTES = 100
+const HTTP_OK = 200
+const HTTP_NOT_MODIFIED = 304
+const HTTP_NOT_FOUND = 404
+const HTTP_TOO_MANY_REQUESTS = 429
+const HTTP_INTERNAL_SERVER_ERROR = 500
+const HTTP_SERVICE_UNAVAILABLE = 503
+
+describe('isRetryableStatus', () => {
+  test('should retry rate limiting and server errors only', () => {
+    const retryableStatuses = [
+      HTTP_TOO_MANY_REQUESTS,
+      HTTP_INTERNAL_SERVER_ERROR,
+      HTTP_SERVICE_UNAVAILABLE,
+    ]
+    const finalStatuses = [HTTP_OK, HTTP_NOT_MODIFIED, HTTP_NOT_FOUND]
+
+    for (const status of retryableStatuses) {
+      expect(isRetryableStatus(status)).toBe(true)
+    }
+
+    for (const status of finalStatuses) {
+      expect(isRetryableStatus(status)).toBe(false)
+    }
+  })
+})
+
+describe('calculateRetryDelay', () => {
+  test('should back off exponentially with jitter', () => {
+    const firstDelay = calculateRetryDelay(1, BASE_DELAY)
+    const secondDelay = calculateRetryDelay(2, BASE_DELAY)
+
+    expect(firstDelay).toBeGreaterThanOrEqual(BASE_DELAY / 2)
+    expect(firstDelay).toBeLessThanOrEqual(BASE_DELAY)
+    expect(secondDelay).toBeGreaterThanOrEqual(BASE_DELAY)
+    expect(secondDelay).toBeLessThanOrEqual(BASE_DELAY * 2)
+  })
+
+  test('should never exceed the maximum delay', () => {
+    const manyAttempts = 20
+    const oneHour = '3600'
+
+    expect(calculateRetryDelay(manyAttempts, BASE_DELAY)).toBeLessThanOrEqual(
+      MAX_RETRY_DELAY,
+    )
+    expect(calculateRetryDelay(1, BASE_DELAY, oneHour)).toBe(MAX_RETRY_DELAY)
+  })
+
+  test('should honour Retry-After in seconds and as a date', () => {
+    expect(
+      calculateRetryDelay(1, BASE_DELAY, String(RETRY_AFTER_SECONDS)),
+    ).toBe(RETRY_AFTER_SECONDS * BASE_DELAY)
+    expect(calculateRetryDelay(1, BASE_DELAY, new Date(0).toUTCString())).toBe(
+      0,
+    )
+  })
+
+  test('should ignore an invalid Retry-After', () => {
+    expect(calculateRetryDelay(1, BASE_DELAY, 'soon')).toBeLessThanOrEqual(
+      BASE_DELAY,
+    )
+  })
+})
+
+describe('getResumeHeaders', () => {
+  test('should only resume a partial download with an ETag', () => {
+    const download = createPartialDownload()
+
+    expect(getResumeHeaders(download)).toEqual({})
+
+    download.receivedBytes = RECEIVED_BYTES
+    expect(getResumeHeaders(download)).toEqual({})
+
+    download.etag = '"v1"'
+    expect(getResumeHeaders(download)).toEqual({
+      'If-Range': '"v1"',
+      Range: `bytes=${RECEIVED_BYTES}-`,
+    })
+  })
+})
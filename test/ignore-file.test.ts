@@ -0,0 +1,66 @@
+/**
+ * Test file for ignore-file.ts
+ */
+
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { loadIgnoreRules, parseIgnoreFile } from '../src/ignore-file.ts'
+
+describe('parseIgnoreFile', () => {
+  test('should skip comments and blank lines and keep line numbers', () => {
+    const rules = parseIgnoreFile(
+      '# Work apps\nMicrosoft *\n\n!Microsoft Word\n/^Adobe/i\n',
+      '.convertappsignore',
+    )
+
+    expect(rules).toEqual([
+      {
+        negated: false,
+        pattern: 'Microsoft *',
+        source: '.convertappsignore:2',
+      },
+      {
+        negated: true,
+        pattern: 'Microsoft Word',
+        source: '.convertappsignore:4',
+      },
+      { negated: false, pattern: '/^Adobe/i', source: '.convertappsignore:5' },
+    ])
+  })
+
+  test('should treat escaped # and ! literally', () => {
+    const rules = parseIgnoreFile('\\#1 App\n\\!Bang', 'ignore')
+
+    expect(rules.map((rule) => [rule.pattern, rule.negated])).toEqual([
+      ['#1 App', false],
+      ['!Bang', false],
+    ])
+  })
+})
+
+describe('loadIgnoreRules', () => {
+  const temporaryDirectory = mkdtempSync(path.join(os.tmpdir(), 'ignore-'))
+  const nestedDirectory = path.join(temporaryDirectory, 'nested')
+  const ignoreFile = path.join(temporaryDirectory, '.convertappsignore')
+
+  mkdirSync(nestedDirectory)
+  writeFileSync(ignoreFile, 'com.jetbrains.*\n')
+
+  afterAll(() => {
+    rmSync(temporaryDirectory, { force: true, recursive: true })
+  })
+
+  test('should load the nearest ignore file before --ignore patterns', async () => {
+    const rules = await loadIgnoreRules(
+      ['!com.jetbrains.goland'],
+      nestedDirectory,
+    )
+
+    expect(rules).toEqual([
+      { negated: false, pattern: 'com.jetbrains.*', source: `${ignoreFile}:1` },
+      { negated: true, pattern: 'com.jetbrains.goland', source: '--ignore' },
+    ])
+  })
+})
@@ -2,11 +2,26 @@
  * Test file for index.ts
  */
 
-import { describe, expect, test } from 'bun:test'
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { spawn } from 'node:child_process'
+import {
+  chmodSync,
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import os from 'node:os'
+import path from 'node:path'
 
 const EXPECTED_APP_COUNT = 5
+const EXECUTABLE_FILE_MODE = 0o755
+const HTTP_OK = 200
+const RUN_TIMEOUT_MS = 30_000
 
-import type { AppInfo, InstallationResult } from '../src/types.ts'
+import type { AppInfo, InstallationResult, RunReport } from '../src/types.ts'
 
 describe('main entry point', () => {
   test('should handle direct execution check', () => {
@@ -191,7 +206,7 @@ describe('application flow validation', () => {
   test('should validate configuration creation logic', () => {
     // Test the logic used by createInstallerConfig and createScannerConfig
     const mockOptions = {
-      applicationsDir: '/custom/apps',
+      applicationsDirs: ['/custom/apps'],
       dryRun: true,
       ignore: ['app1', 'app2'],
       verbose: true,
@@ -208,12 +223,12 @@ describe('application flow validation', () => {
 
     // Test scanner config logic
     const scannerConfig = {
-      applicationsDir: mockOptions.applicationsDir,
+      applicationsDirs: mockOptions.applicationsDirs,
       ignoredApps: mockOptions.ignore,
       verbose: mockOptions.verbose,
     }
 
-    expect(scannerConfig.applicationsDir).toBe('/custom/apps')
+    expect(scannerConfig.applicationsDirs).toEqual(['/custom/apps'])
     expect(scannerConfig.ignoredApps).toEqual(['app1', 'app2'])
     expect(scannerConfig.verbose).toBe(true)
   })
@@ -349,3 +364,145 @@ describe('module execution validation', () => {
     expect(typeof process.argv[1]).toBe('string')
   })
 })
+
+describe('--json run', () => {
+  // Fake brew with nothing installed that prints install progress to stdout
+  const fakeBrewScript = `#!/bin/sh
+case "$1" in
+  --version) echo "Homebrew 4.4.0" ;;
+  --cache) echo "$HOME/brew-cache" ;;
+  ls) ;;
+  install)
+    echo "==> Installing Cask json-app"
+    echo "🍺  json-app was successfully installed!" ;;
+  *) exit 1 ;;
+esac
+`
+  const infoPlist = `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0"><dict>
+<key>CFBundleIdentifier</key><string>com.example.JsonApp</string>
+<key>CFBundleShortVersionString</key><string>1.0</string>
+</dict></plist>`
+  const cask = {
+    artifacts: [{ app: ['Json App.app'] }],
+    desc: 'App for the JSON report test',
+    full_token: 'json-app',
+    homepage: 'https://example.com/json-app',
+    name: ['Json App'],
+    old_tokens: [],
+    tap: 'homebrew/cask',
+    token: 'json-app',
+    version: '1.0',
+  }
+
+  const homeDirectory = mkdtempSync(path.join(os.tmpdir(), 'json-run-'))
+  const applicationsDirectory = path.join(homeDirectory, 'Applications')
+  const binDirectory = path.join(homeDirectory, 'bin')
+  const runnerPath = path.join(homeDirectory, 'run.ts')
+  const server = createServer((_request, response) => {
+    response
+      .writeHead(HTTP_OK, { 'Content-Type': 'application/json' })
+      .end(JSON.stringify([cask]))
+  })
+  let serverUrl = ''
+
+  beforeAll(async () => {
+    const contentsDirectory = path.join(
+      applicationsDirectory,
+      'Json App.app',
+      'Contents',
+    )
+    mkdirSync(contentsDirectory, { recursive: true })
+    writeFileSync(path.join(contentsDirectory, 'Info.plist'), infoPlist)
+
+    mkdirSync(binDirectory)
+    writeFileSync(path.join(binDirectory, 'brew'), fakeBrewScript)
+    chmodSync(path.join(binDirectory, 'brew'), EXECUTABLE_FILE_MODE)
+
+    // The tool only runs on macOS, so pretend to be one
+    writeFileSync(
+      runnerPath,
+      `Object.defineProperty(process, 'platform', { value: 'darwin' })
+const { main } = await import(${JSON.stringify(path.join(import.meta.dir, '..', 'src', 'index.ts'))})
+await main()
+`,
+    )
+
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', resolve)
+    })
+    const { port } = server.address() as AddressInfo
+    serverUrl = `http://127.0.0.1:${port}`
+  })
+
+  afterAll(() => {
+    server.close()
+    rmSync(homeDirectory, { force: true, recursive: true })
+  })
+
+  const runWithJson = async (extraArguments: string[]) => {
+    const child = spawn(
+      process.execPath,
+      [
+        runnerPath,
+        '--json',
+        ...extraArguments,
+        '--applications-dir',
+        applicationsDirectory,
+        '--api-url',
+        serverUrl,
+      ],
+      {
+        cwd: homeDirectory,
+        env: {
+          ...process.env,
+          HOME: homeDirectory,
+          PATH: `${binDirectory}:${process.env['PATH']}`,
+        },
+      },
+    )
+    let stdout = ''
+    let stderr = ''
+    child.stdout.on('data', (data: Buffer) => {
+      stdout += data.toString()
+    })
+    child.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString()
+    })
+    const exitCode = await new Promise((resolve) => {
+      child.on('close', resolve)
+    })
+
+    return { exitCode, stderr, stdout }
+  }
+
+  test(
+    'should keep stdout to the JSON report while installing',
+    async () => {
+      const { exitCode, stderr, stdout } = await runWithJson(['--yes'])
+
+      expect({ exitCode, stderr }).toMatchObject({ exitCode: 0 })
+      expect(stderr).toContain('json-app was successfully installed')
+
+      const report = JSON.parse(stdout) as RunReport
+
+      expect(
+        report.installation?.installed.map((result) => result.packageName),
+      ).toEqual(['json-app'])
+      expect(report.summary.installed).toBe(1)
+    },
+    RUN_TIMEOUT_MS,
+  )
+
+  test(
+    'should refuse to prompt for a selection instead of mixing it into the report',
+    async () => {
+      const { exitCode, stderr, stdout } = await runWithJson([])
+
+      expect(exitCode).not.toBe(0)
+      expect(stderr).toContain('Cannot prompt for app selection with --json')
+      expect(stdout).toBe('')
+    },
+    RUN_TIMEOUT_MS,
+  )
+})
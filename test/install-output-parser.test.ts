@@ -0,0 +1,104 @@
+/**
+ * Test file for install-output-parser.ts
+ */
+
+import { describe, expect, test } from 'bun:test'
+import {
+  describeFailureReason,
+  parseInstallOutput,
+} from '../src/install-output-parser.ts'
+
+const BATCH_OUTPUT = `==> Downloading https://example.com/firefox.dmg
+==> Installing Cask firefox
+==> Adopting existing App at '/Applications/Firefox.app'
+🍺  firefox was successfully installed!
+==> Installing Cask slack
+Error: It seems there is already an App at '/Applications/Slack.app'.
+==> Installing Cask zoom
+Error: SHA256 mismatch
+Expected: 1234
+  Actual: 5678
+Error: Download failed on Cask 'vlc' with message: curl: (22) The requested URL returned error: 404
+Warning: Not upgrading iterm2, the latest version is already installed
+==> Installing Cask docker
+sudo: a terminal is required to read the password; either use the -S option to read from standard input or configure an askpass helper`
+
+describe('parseInstallOutput', () => {
+  const tokens = [
+    'firefox',
+    'slack',
+    'zoom',
+    'vlc',
+    'iterm2',
+    'docker',
+    'rectangle',
+  ]
+  const outcomes = parseInstallOutput(BATCH_OUTPUT, tokens)
+
+  test('should create an outcome for every requested token', () => {
+    expect([...outcomes.keys()]).toEqual(tokens)
+  })
+
+  test('should detect successful installs', () => {
+    expect(outcomes.get('firefox')?.installed).toBe(true)
+    expect(outcomes.get('firefox')?.failureReason).toBeUndefined()
+  })
+
+  test('should attribute errors to the cask being installed', () => {
+    expect(outcomes.get('slack')?.failureReason).toBe('adopt-version-mismatch')
+    expect(outcomes.get('slack')?.errors).toEqual([
+      "Error: It seems there is already an App at '/Applications/Slack.app'.",
+    ])
+    expect(outcomes.get('zoom')?.failureReason).toBe('sha-mismatch')
+    expect(outcomes.get('docker')?.failureReason).toBe('needs-sudo')
+  })
+
+  test('should attribute errors to casks referenced by name', () => {
+    expect(outcomes.get('vlc')?.failureReason).toBe('download-failed')
+    expect(outcomes.get('zoom')?.errors).toHaveLength(1)
+    expect(outcomes.get('iterm2')?.failureReason).toBe('already-installed')
+  })
+
+  test('should leave casks without output undetermined', () => {
+    expect(outcomes.get('rectangle')).toEqual({
+      errors: [],
+      installed: false,
+      token: 'rectangle',
+    })
+  })
+
+  test('should detect a missing app source', () => {
+    const result = parseInstallOutput(
+      "Error: It seems the App source '/opt/homebrew/Caskroom/foo/1.0/Foo.app' is not there.",
+      ['foo'],
+    )
+
+    expect(result.get('foo')?.failureReason).toBe('download-failed')
+  })
+
+  test('should attribute all errors to the only cask of a single install', () => {
+    const result = parseInstallOutput('Error: Something unexpected', ['foo'])
+
+    expect(result.get('foo')?.failureReason).toBe('unknown')
+    expect(result.get('foo')?.errors).toEqual(['Error: Something unexpected'])
+  })
+
+  test('should resolve tap-qualified tokens', () => {
+    const result = parseInstallOutput(
+      '🍺  homebrew/cask/foo was successfully installed!',
+      ['foo'],
+    )
+
+    expect(result.get('foo')?.installed).toBe(true)
+  })
+})
+
+describe('describeFailureReason', () => {
+  test('should describe every failure reason', () => {
+    expect(describeFailureReason('sha-mismatch')).toBe('checksum mismatch')
+    expect(describeFailureReason('needs-sudo')).toBe(
+      'administrator password required',
+    )
+    expect(describeFailureReason('unknown')).toBe('unknown error')
+  })
+})
@@ -2,11 +2,15 @@
  * Test file for installer.ts
  */
 
-import { describe, expect, test } from 'bun:test'
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
 
 const SUMMARY_SEPARATOR_LENGTH = 50
+const EXECUTABLE_FILE_MODE = 0o755
 
-import { getInstallationSummary } from '../src/installer.ts'
+import { getInstallationSummary, installApps } from '../src/installer.ts'
 import type {
   AppInfo,
   InstallationResult,
@@ -275,3 +279,108 @@ describe('getInstallationSummary', () => {
     expect(summary).not.toContain('No packages were processed')
   })
 })
+
+describe('installApps', () => {
+  // Fake brew: the batch install fails with a checksum error for "checksum-app",
+  // "installed-app" landed anyway, "retry-app" installs on its own and
+  // "broken-app" keeps failing, while "present-app" fails only because it's
+  // already installed.
+  const fakeBrewScript = `#!/bin/sh
+case "$*" in
+  "ls -1 --cask") echo "installed-app" ;;
+  "install --cask --adopt retry-app") exit 0 ;;
+  "install --cask --adopt --appdir=$HOME/Applications user-app") exit 0 ;;
+  "install --cask --adopt checksum-app") exit 0 ;;
+  "install --cask --adopt broken-app")
+    echo "Error: It seems the existing App is different from the one being installed." >&2
+    exit 1 ;;
+  "install --cask --adopt present-app")
+    echo "Warning: Not upgrading present-app, the latest version is already installed" >&2
+    exit 1 ;;
+  *)
+    # Keep the output order deterministic by writing it all to one stream
+    exec 1>&2
+    echo "Error: batch failed"
+    echo "==> Installing Cask checksum-app"
+    echo "Error: SHA256 mismatch"
+    exit 1 ;;
+esac
+`
+  const originalPath = process.env['PATH']
+  let binDirectory = ''
+
+  const createApp = (
+    name: string,
+    applicationsDirectory = '/Applications',
+  ): AppInfo => ({
+    alreadyInstalled: false,
+    appPath: `${applicationsDirectory}/${name}.app`,
+    brewName: name,
+    brewType: 'cask',
+    originalName: name,
+    status: 'available',
+  })
+
+  beforeAll(() => {
+    binDirectory = mkdtempSync(path.join(os.tmpdir(), 'fake-brew-'))
+    const brewPath = path.join(binDirectory, 'brew')
+    writeFileSync(brewPath, fakeBrewScript)
+    chmodSync(brewPath, EXECUTABLE_FILE_MODE)
+    process.env['PATH'] = `${binDirectory}:${originalPath}`
+  })
+
+  afterAll(() => {
+    process.env['PATH'] = originalPath
+    rmSync(binDirectory, { force: true, recursive: true })
+  })
+
+  test('should resolve per-cask results after a batch failure', async () => {
+    const result = await installApps(
+      [
+        createApp('installed-app'),
+        createApp('retry-app'),
+        createApp('broken-app'),
+        createApp('checksum-app'),
+      ],
+      { dryRun: false, verbose: false },
+    )
+
+    expect(result.installed.map((app) => app.packageName)).toEqual([
+      'installed-app',
+      'retry-app',
+    ])
+    expect(result.failed.map((app) => app.packageName)).toEqual([
+      'broken-app',
+      'checksum-app',
+    ])
+    expect(result.failed[0]?.error).toContain(
+      'existing App is different from the one being installed',
+    )
+    expect(result.failed[0]?.failureReason).toBe('adopt-version-mismatch')
+    expect(result.failed[1]?.failureReason).toBe('sha-mismatch')
+  })
+
+  test('should count a retried cask that is already installed as installed', async () => {
+    const result = await installApps(
+      [createApp('present-app'), createApp('checksum-app')],
+      { dryRun: false, verbose: false },
+    )
+
+    expect(result.installed.map((app) => app.packageName)).toEqual([
+      'present-app',
+    ])
+    expect(result.failed.map((app) => app.packageName)).toEqual([
+      'checksum-app',
+    ])
+  })
+
+  test('should pass --appdir for apps in ~/Applications', async () => {
+    const result = await installApps(
+      [createApp('user-app', path.join(os.homedir(), 'Applications'))],
+      { dryRun: false, verbose: false },
+    )
+
+    expect(result.installed.map((app) => app.packageName)).toEqual(['user-app'])
+    expect(result.failed).toHaveLength(0)
+  })
+})
@@ -29,7 +29,7 @@ describe('Integration Tests', () => {
       expect(options.dryRun).toBe(true)
       expect(options.verbose).toBe(true)
       expect(options.ignore).toEqual(['Adobe Photoshop', 'Microsoft Word'])
-      expect(options.applicationsDir).toBe('/Applications')
+      expect(options.applicationsDirs).toEqual(['/Applications'])
     })
   })
 
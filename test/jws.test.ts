@@ -0,0 +1,176 @@
+/**
+ * Test file for jws.ts
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { constants, generateKeyPairSync, sign } from 'node:crypto'
+import {
+  decodeJwsPayload,
+  decodeProtectedHeader,
+  findVerifiedSignature,
+  parseJwsDocument,
+} from '../src/jws.ts'
+import type { JwsDocument } from '../src/types.ts'
+import { ConvertAppsError } from '../src/types.ts'
+
+const RSA_KEY_BITS = 2048
+
+const generateKeyPair = () =>
+  generateKeyPairSync('rsa', {
+    modulusLength: RSA_KEY_BITS,
+    privateKeyEncoding: { format: 'pem', type: 'pkcs8' },
+    publicKeyEncoding: { format: 'pem', type: 'spki' },
+  })
+
+const encodeHeader = (header: Record<string, unknown>) =>
+  Buffer.from(JSON.stringify(header)).toString('base64url')
+
+const signDocument = (payload: string, privateKey: string): JwsDocument => {
+  const protectedHeader = encodeHeader({ alg: 'PS512', b64: false })
+  const signature = sign(
+    'sha512',
+    Buffer.from(`${protectedHeader}.${payload}`),
+    {
+      key: privateKey,
+      padding: constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+    },
+  )
+
+  return {
+    payload,
+    signatures: [
+      {
+        header: { kid: 'homebrew-1' },
+        protected: protectedHeader,
+        signature: signature.toString('base64url'),
+      },
+    ],
+  }
+}
+
+describe('parseJwsDocument', () => {
+  test('should parse the general JSON serialization', () => {
+    const document = parseJwsDocument(
+      JSON.stringify({
+        payload: '[]',
+        signatures: [{ protected: 'e30', signature: 'c2ln' }],
+      }),
+    )
+
+    expect(document.payload).toBe('[]')
+    expect(document.signatures).toHaveLength(1)
+  })
+
+  test('should reject documents without a payload or signatures', () => {
+    expect(() => parseJwsDocument('[]')).toThrow(ConvertAppsError)
+    expect(() => parseJwsDocument('{"payload": "[]"}')).toThrow(
+      'must have a payload and signatures',
+    )
+    expect(() => parseJwsDocument('{')).toThrow('not valid JSON')
+  })
+})
+
+describe('decodeJwsPayload', () => {
+  const payload = JSON.stringify([{ token: 'firefox' }])
+
+  test('should return unencoded payloads as they are', () => {
+    const document = {
+      payload,
+      signatures: [
+        {
+          protected: encodeHeader({ alg: 'PS512', b64: false }),
+          signature: '',
+        },
+      ],
+    }
+
+    expect(decodeJwsPayload(document)).toBe(payload)
+  })
+
+  test('should decode base64url payloads', () => {
+    const document = {
+      payload: Buffer.from(payload).toString('base64url'),
+      signatures: [
+        { protected: encodeHeader({ alg: 'PS512' }), signature: '' },
+      ],
+    }
+
+    expect(decodeJwsPayload(document)).toBe(payload)
+  })
+
+  test('should follow the header of the given signature', () => {
+    const unencodedSignature = {
+      protected: encodeHeader({ alg: 'PS512', b64: false }),
+      signature: '',
+    }
+    const document = {
+      payload,
+      signatures: [
+        { protected: encodeHeader({ alg: 'PS512' }), signature: '' },
+        unencodedSignature,
+      ],
+    }
+
+    expect(decodeJwsPayload(document, unencodedSignature)).toBe(payload)
+  })
+})
+
+describe('decodeProtectedHeader', () => {
+  test('should reject headers that are not base64url JSON', () => {
+    expect(() =>
+      decodeProtectedHeader({ protected: '!!!', signature: '' }),
+    ).toThrow('JWS protected header is not valid')
+  })
+})
+
+describe('findVerifiedSignature', () => {
+  const { privateKey, publicKey } = generateKeyPair()
+  const otherKeyPair = generateKeyPair()
+  const document = signDocument('[{"token":"firefox"}]', privateKey)
+
+  test('should accept a PS512 signature from the matching key', () => {
+    expect(
+      findVerifiedSignature(document, publicKey, 'homebrew-1')?.signature,
+    ).toBe(document.signatures[0]?.signature ?? '')
+  })
+
+  test('should reject a tampered payload', () => {
+    expect(
+      findVerifiedSignature(
+        { ...document, payload: '[{"token":"malware"}]' },
+        publicKey,
+      ),
+    ).toBeUndefined()
+  })
+
+  test('should reject other keys and key IDs', () => {
+    expect(
+      findVerifiedSignature(document, otherKeyPair.publicKey),
+    ).toBeUndefined()
+    expect(
+      findVerifiedSignature(document, publicKey, 'homebrew-2'),
+    ).toBeUndefined()
+  })
+
+  test('should reject other algorithms', () => {
+    const [signature] = document.signatures
+
+    expect(
+      findVerifiedSignature(
+        {
+          ...document,
+          signatures: [
+            {
+              header: { kid: 'homebrew-1' },
+              protected: encodeHeader({ alg: 'none', b64: false }),
+              signature: signature?.signature ?? '',
+            },
+          ],
+        },
+        publicKey,
+      ),
+    ).toBeUndefined()
+  })
+})
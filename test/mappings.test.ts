@@ -0,0 +1,103 @@
+/**
+ * Test file for mappings.ts
+ */
+
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { findMapping, loadMappings, parseMappings } from '../src/mappings.ts'
+import type { AppInfo } from '../src/types.ts'
+import { ConvertAppsError } from '../src/types.ts'
+
+const createApp = (originalName: string, bundleId?: string): AppInfo => ({
+  alreadyInstalled: false,
+  appPath: `/Applications/${originalName}.app`,
+  brewName: originalName.toLowerCase(),
+  brewType: 'unavailable',
+  ...(bundleId !== undefined && { bundleId }),
+  originalName,
+  status: 'unavailable',
+})
+
+describe('parseMappings', () => {
+  test('should parse tokens and null overrides', () => {
+    const mappings = parseMappings(
+      JSON.stringify({ 'Adobe *': null, Docker: ' docker-desktop ' }),
+      'mappings.json',
+    )
+
+    expect(mappings).toEqual([
+      { pattern: 'Docker', token: 'docker-desktop' },
+      { pattern: 'Adobe *', token: null },
+    ])
+  })
+
+  test('should reject invalid files', () => {
+    expect(() => parseMappings('{', 'mappings.json')).toThrow(ConvertAppsError)
+    expect(() => parseMappings('[]', 'mappings.json')).toThrow(
+      'must contain a JSON object',
+    )
+    expect(() => parseMappings('{"Docker": 1}', 'mappings.json')).toThrow(
+      'must be a cask token or null',
+    )
+  })
+})
+
+describe('findMapping', () => {
+  const mappings = parseMappings(
+    JSON.stringify({
+      'Adobe *': null,
+      'Adobe Photoshop 2025': 'adobe-photoshop',
+      'com.microsoft.VSCodeInsiders': 'visual-studio-code@insiders',
+    }),
+    'mappings.json',
+  )
+
+  test('should match app names and prefer them over patterns', () => {
+    expect(
+      findMapping(mappings, createApp('Adobe Photoshop 2025'))?.token,
+    ).toBe('adobe-photoshop')
+    expect(findMapping(mappings, createApp('Adobe Illustrator'))?.token).toBe(
+      null,
+    )
+  })
+
+  test('should match bundle IDs regardless of case', () => {
+    const app = createApp(
+      'Visual Studio Code - Insiders',
+      'com.microsoft.vscodeinsiders',
+    )
+
+    expect(findMapping(mappings, app)?.token).toBe(
+      'visual-studio-code@insiders',
+    )
+  })
+
+  test('should return undefined when nothing applies', () => {
+    expect(findMapping(mappings, createApp('Slack'))).toBeUndefined()
+  })
+})
+
+describe('loadMappings', () => {
+  const temporaryDirectory = mkdtempSync(path.join(os.tmpdir(), 'mappings-'))
+
+  afterAll(() => {
+    rmSync(temporaryDirectory, { force: true, recursive: true })
+  })
+
+  test('should load mappings from an explicit file', async () => {
+    const mappingsPath = path.join(temporaryDirectory, 'mappings.json')
+    writeFileSync(mappingsPath, JSON.stringify({ Docker: 'docker-desktop' }))
+
+    expect(await loadMappings(mappingsPath)).toEqual([
+      { pattern: 'Docker', token: 'docker-desktop' },
+    ])
+  })
+
+  test('should fail when an explicit file is missing', async () => {
+    await expect(
+      loadMappings(path.join(temporaryDirectory, 'missing.json')),
+    ).rejects.toThrow('Failed to read mappings file')
+  })
+})
@@ -0,0 +1,220 @@
+/**
+ * Tests for Mac App Store detection
+ */
+
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import {
+  findMacAppStoreApp,
+  getAppStoreInfo,
+  parseMasOutput,
+} from '../src/mas-integration.ts'
+import type { MasAppInfo } from '../src/types.ts'
+
+const masApps: MasAppInfo[] = [
+  { appId: '409183694', name: 'Keynote', version: '14.1' },
+  {
+    appId: '1333542190',
+    name: '1Password 7 - Password Manager',
+    version: '7.9.11',
+  },
+  { appId: '1006087419', name: 'Notes Pro', version: '2.0' },
+]
+
+/** mas list output with single spaces between the columns, as older versions print it */
+const UNPADDED_OUTPUT = `497799835 Xcode (9.4.1)
+409183694 Keynote (8.1)
+1333542190 1Password 7 - Password Manager (7.2.5)
+`
+
+/** mas list output with padded columns, as newer versions print it */
+const PADDED_OUTPUT = `  497799835  Xcode                           (15.4)
+  409183694  Keynote                         (14.1)
+ 1333542190  1Password 7 - Password Manager  (7.9.11)
+`
+
+/** mas list output with bundle IDs */
+const BUNDLE_ID_OUTPUT = `497799835   com.apple.dt.Xcode            Xcode                           (15.4)
+409183694   com.apple.iWork.Keynote       Keynote                         (14.1)
+1333542190  com.agilebits.onepassword7    1Password 7 - Password Manager  (7.9.11)
+`
+
+/** mas list output for apps whose version mas doesn't know, among warnings */
+const MISSING_VERSION_OUTPUT = `Warning: Found a likely App Store app that is not indexed in Spotlight
+497799835  Xcode
+1176895641  Spark – Email App by Readdle  ()
+409183694  Microsoft Word (Legacy)  (16.1)
+`
+
+describe('parseMasOutput', () => {
+  test('should parse output with single spaces', () => {
+    expect(parseMasOutput(UNPADDED_OUTPUT)).toEqual([
+      { appId: '497799835', name: 'Xcode', version: '9.4.1' },
+      { appId: '409183694', name: 'Keynote', version: '8.1' },
+      {
+        appId: '1333542190',
+        name: '1Password 7 - Password Manager',
+        version: '7.2.5',
+      },
+    ])
+  })
+
+  test('should parse output with padded columns', () => {
+    expect(parseMasOutput(PADDED_OUTPUT)).toEqual([
+      { appId: '497799835', name: 'Xcode', version: '15.4' },
+      { appId: '409183694', name: 'Keynote', version: '14.1' },
+      {
+        appId: '1333542190',
+        name: '1Password 7 - Password Manager',
+        version: '7.9.11',
+      },
+    ])
+  })
+
+  test('should parse bundle IDs', () => {
+    expect(parseMasOutput(BUNDLE_ID_OUTPUT)).toEqual([
+      {
+        appId: '497799835',
+        bundleId: 'com.apple.dt.Xcode',
+        name: 'Xcode',
+        version: '15.4',
+      },
+      {
+        appId: '409183694',
+        bundleId: 'com.apple.iWork.Keynote',
+        name: 'Keynote',
+        version: '14.1',
+      },
+      {
+        appId: '1333542190',
+        bundleId: 'com.agilebits.onepassword7',
+        name: '1Password 7 - Password Manager',
+        version: '7.9.11',
+      },
+    ])
+  })
+
+  test('should parse apps without a version and skip other lines', () => {
+    expect(parseMasOutput(MISSING_VERSION_OUTPUT)).toEqual([
+      { appId: '497799835', name: 'Xcode' },
+      { appId: '1176895641', name: 'Spark – Email App by Readdle' },
+      { appId: '409183694', name: 'Microsoft Word (Legacy)', version: '16.1' },
+    ])
+  })
+})
+
+describe('findMacAppStoreApp', () => {
+  test('should match by bundle ID before the name', () => {
+    const apps = parseMasOutput(BUNDLE_ID_OUTPUT)
+
+    expect(
+      findMacAppStoreApp(
+        { bundleId: 'com.apple.iwork.keynote', originalName: 'Keynote 14' },
+        apps,
+      )?.appId,
+    ).toBe('409183694')
+    // Same name, but a different app
+    expect(
+      findMacAppStoreApp(
+        { bundleId: 'com.example.Keynote', originalName: 'Keynote' },
+        apps,
+      ),
+    ).toBeUndefined()
+  })
+
+  test('should match names exactly, ignoring case and the .app suffix', () => {
+    expect(
+      findMacAppStoreApp({ originalName: 'keynote.app' }, masApps)?.appId,
+    ).toBe('409183694')
+  })
+
+  test('should not match names that only contain each other', () => {
+    expect(
+      findMacAppStoreApp({ originalName: 'Notes' }, masApps),
+    ).toBeUndefined()
+    expect(
+      findMacAppStoreApp({ originalName: 'Keynote Helper' }, masApps),
+    ).toBeUndefined()
+  })
+
+  test('should match the display name from Info.plist', () => {
+    expect(
+      findMacAppStoreApp(
+        {
+          displayName: '1Password 7 - Password Manager',
+          originalName: '1Password 7',
+        },
+        masApps,
+      )?.appId,
+    ).toBe('1333542190')
+  })
+})
+
+describe('getAppStoreInfo', () => {
+  const applicationsDirectory = mkdtempSync(
+    path.join(os.tmpdir(), 'mas-integration-'),
+  )
+
+  const createApp = (name: string, withReceipt: boolean): string => {
+    const appPath = path.join(applicationsDirectory, `${name}.app`)
+    const receiptDirectory = path.join(appPath, 'Contents', '_MASReceipt')
+    mkdirSync(withReceipt ? receiptDirectory : path.join(appPath, 'Contents'), {
+      recursive: true,
+    })
+
+    if (withReceipt) {
+      writeFileSync(path.join(receiptDirectory, 'receipt'), '')
+    }
+
+    return appPath
+  }
+
+  afterAll(() => {
+    rmSync(applicationsDirectory, { force: true, recursive: true })
+  })
+
+  test('should detect App Store apps from their receipt without mas', async () => {
+    const appPath = createApp('Things 3', true)
+
+    expect(
+      await getAppStoreInfo({ appPath, originalName: 'Things 3' }, []),
+    ).toEqual({ appStoreEvidence: 'receipt', fromMacAppStore: true })
+  })
+
+  test('should add the App Store ID and version from mas', async () => {
+    const appPath = createApp('Keynote', true)
+
+    expect(
+      await getAppStoreInfo({ appPath, originalName: 'Keynote' }, masApps),
+    ).toEqual({
+      appStoreEvidence: 'receipt',
+      appStoreId: '409183694',
+      fromMacAppStore: true,
+      version: '14.1',
+    })
+    expect(
+      await getAppStoreInfo(
+        { appPath, originalName: 'Keynote', version: '14.2' },
+        masApps,
+      ),
+    ).not.toHaveProperty('version')
+  })
+
+  test('should fall back to the mas list without a receipt', async () => {
+    const appPath = createApp('Notes Pro', false)
+
+    expect(
+      await getAppStoreInfo({ appPath, originalName: 'Notes Pro' }, masApps),
+    ).toMatchObject({ appStoreEvidence: 'mas-list', fromMacAppStore: true })
+  })
+
+  test('should not flag other apps', async () => {
+    const appPath = createApp('Notes', false)
+
+    expect(
+      await getAppStoreInfo({ appPath, originalName: 'Notes' }, masApps),
+    ).toEqual({ fromMacAppStore: false })
+  })
+})
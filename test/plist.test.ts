@@ -0,0 +1,108 @@
+/**
+ * Tests for the property list parser
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { Buffer } from 'node:buffer'
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import { parsePlist } from '../src/plist.ts'
+import { ConvertAppsError } from '../src/types.ts'
+
+const FIXTURES_DIRECTORY = path.join(import.meta.dir, 'fixtures')
+const SCHEDULED_CHECK_INTERVAL = 86_400
+const EXAMPLE_RATIO = 1.5
+const CHECKSUM_HEX = '000102ff'
+
+/** Binary plist whose only object is an array that contains itself */
+const CYCLIC_BINARY_PLIST =
+  '62706c6973743030a10008000000000000010100000000000000010000000000000000000000000000000a'
+
+const readFixture = (name: string) =>
+  parsePlist(readFileSync(path.join(FIXTURES_DIRECTORY, name)))
+
+const xml = (body: string) =>
+  Buffer.from(
+    `<?xml version="1.0" encoding="UTF-8"?>\n<plist version="1.0">${body}</plist>`,
+  )
+
+const expectedInfo = {
+  CFBundleDisplayName: 'Café Viewer',
+  CFBundleDocumentTypes: [
+    {
+      CFBundleTypeExtensions: ['cafe', 'latte'],
+      CFBundleTypeRole: 'Viewer',
+      LSHandlerRank: 'Owner',
+    },
+  ],
+  CFBundleExecutable: 'Cafe Viewer',
+  CFBundleIdentifier: 'com.example.CafeViewer',
+  CFBundleShortVersionString: '2.4.1',
+  CFBundleVersion: '2041',
+  ExampleBuildDate: new Date('2026-10-01T12:00:00Z'),
+  ExampleChecksum: Uint8Array.from(Buffer.from(CHECKSUM_HEX, 'hex')),
+  ExampleRatio: EXAMPLE_RATIO,
+  LSApplicationCategoryType: 'public.app-category.productivity',
+  LSMinimumSystemVersion: '12.0',
+  LSUIElement: false,
+  NSHighResolutionCapable: true,
+  NSHumanReadableCopyright:
+    'Copyright © 2026 Example & Co. <hello@example.com>',
+  SUEnableAutomaticChecks: true,
+  SUFeedURL: 'https://example.com/appcast.xml',
+  SUScheduledCheckInterval: SCHEDULED_CHECK_INTERVAL,
+}
+
+describe('parsePlist', () => {
+  test('should parse an XML Info.plist', () => {
+    expect(readFixture('Info.plist')).toEqual(expectedInfo)
+  })
+
+  test('should parse a binary Info.plist', () => {
+    expect(readFixture('Info.binary.plist')).toEqual(expectedInfo)
+  })
+
+  test('should parse empty elements, CDATA and character references', () => {
+    expect(
+      parsePlist(
+        xml(`
+          <dict>
+            <!-- comment -->
+            <key>empty</key><string/>
+            <key>list</key><array/>
+            <key>cdata</key><string><![CDATA[a < b & c]]></string>
+            <key>escaped</key><string>&#x2713; &#169; &lt;tag&gt;</string>
+          </dict>`),
+      ),
+    ).toEqual({
+      cdata: 'a < b & c',
+      empty: '',
+      escaped: '✓ © <tag>',
+      list: [],
+    })
+  })
+
+  test('should reject malformed XML plists', () => {
+    for (const body of [
+      '<dict><key>a</key></dict>',
+      '<dict><string>no key</string></dict>',
+      '<integer>twelve</integer>',
+      '<unknown/>',
+    ]) {
+      expect(() => parsePlist(xml(body))).toThrow(ConvertAppsError)
+    }
+
+    expect(() => parsePlist(Buffer.from('<html></html>'))).toThrow(
+      'missing plist element',
+    )
+  })
+
+  test('should reject truncated and cyclic binary plists', () => {
+    expect(() => parsePlist(Buffer.from('bplist00'))).toThrow(
+      'binary plist is truncated',
+    )
+    expect(() => parsePlist(Buffer.from(CYCLIC_BINARY_PLIST, 'hex'))).toThrow(
+      'contains itself',
+    )
+  })
+})
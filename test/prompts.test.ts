@@ -9,9 +9,10 @@ const EXPECTED_OPTIONS_COUNT = 3
 import {
   displayFinalSummary,
   displayInstallationPlan,
+  formatVersionHint,
   promptAppSelection,
 } from '../src/prompts.ts'
-import type { AppInfo } from '../src/types.ts'
+import type { AppInfo, HomebrewCask } from '../src/types.ts'
 
 describe('displayFinalSummary', () => {
   test('should display dry run summary with no apps', () => {
@@ -332,3 +333,52 @@ describe('Mac App Store labeling integration', () => {
     expect(options[2]?.value).toBe('Different Name')
   })
 })
+
+describe('formatVersionHint', () => {
+  const cask: HomebrewCask = {
+    artifacts: [],
+    desc: 'Test app',
+    full_token: 'test-app',
+    homepage: 'https://example.com',
+    name: ['Test App'],
+    old_tokens: [],
+    tap: 'homebrew/cask',
+    token: 'test-app',
+    version: '2.0.0,200',
+  }
+  const app: AppInfo = {
+    alreadyInstalled: false,
+    appPath: '/Applications/Test App.app',
+    brewName: 'test-app',
+    brewType: 'cask',
+    matches: [
+      {
+        cask,
+        confidence: 1,
+        matchDetails: { matchedValue: 'Test App', source: 'app-bundle' },
+        matchType: 'exact-app-bundle',
+      },
+    ],
+    originalName: 'Test App',
+    status: 'available',
+    version: '1.5.0',
+    versionRelation: 'older',
+  }
+
+  test('should show upgrades and downgrades', () => {
+    expect(formatVersionHint(app)).toBe('1.5.0 → 2.0.0 (upgrade)')
+    expect(
+      formatVersionHint({ ...app, version: '3.0', versionRelation: 'newer' }),
+    ).toBe('3.0 → 2.0.0 (downgrade)')
+  })
+
+  test('should show only the version when it matches the cask', () => {
+    expect(
+      formatVersionHint({ ...app, version: '2.0.0', versionRelation: 'equal' }),
+    ).toBe('2.0.0')
+  })
+
+  test('should show nothing when the versions can not be compared', () => {
+    expect(formatVersionHint({ ...app, versionRelation: 'unknown' })).toBe('')
+  })
+})
@@ -0,0 +1,151 @@
+/**
+ * Test file for report.ts
+ */
+
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import packageJson from '../package.json' with { type: 'json' }
+import {
+  createRunReport,
+  outputRunReport,
+  REPORT_SCHEMA_VERSION,
+} from '../src/report.ts'
+import type {
+  AppInfo,
+  HomebrewCask,
+  InstallationResult,
+  OperationSummary,
+} from '../src/types.ts'
+
+const BUNDLE_ID_CONFIDENCE = 0.99
+
+const chromeCask: HomebrewCask = {
+  artifacts: [{ app: ['Google Chrome.app'] }],
+  desc: 'Web browser',
+  full_token: 'homebrew/cask/google-chrome',
+  homepage: 'https://www.google.com/chrome/',
+  name: ['Google Chrome'],
+  old_tokens: [],
+  tap: 'homebrew/cask',
+  token: 'google-chrome',
+}
+
+const chromeApp: AppInfo = {
+  alreadyInstalled: false,
+  appPath: '/Applications/Google Chrome.app',
+  brewName: 'google-chrome',
+  brewType: 'cask',
+  bundleId: 'com.google.Chrome',
+  fromMacAppStore: false,
+  matches: [
+    {
+      cask: chromeCask,
+      confidence: BUNDLE_ID_CONFIDENCE,
+      matchDetails: { matchedValue: 'com.google.Chrome', source: 'bundle-id' },
+      matchType: 'bundle-id',
+    },
+  ],
+  originalName: 'Google Chrome',
+  status: 'available',
+}
+
+const installationResult: InstallationResult = {
+  alreadyInstalled: [],
+  dryRun: true,
+  failed: [],
+  ignored: [],
+  installed: [
+    {
+      appName: 'Google Chrome',
+      dryRun: true,
+      packageName: 'google-chrome',
+      success: true,
+    },
+  ],
+  unavailable: [],
+}
+
+const summary: OperationSummary = {
+  alreadyInstalled: 0,
+  availableApps: 1,
+  dryRun: true,
+  failed: 0,
+  ignored: 0,
+  installed: 1,
+  selected: 1,
+  totalApps: 1,
+  unavailable: 0,
+}
+
+describe('createRunReport', () => {
+  const report = createRunReport({
+    apps: [chromeApp],
+    installationResult,
+    selectedApps: [chromeApp],
+    summary,
+  })
+
+  test('should include schema and tool metadata', () => {
+    expect(report.schemaVersion).toBe(REPORT_SCHEMA_VERSION)
+    expect(report.tool).toEqual({
+      name: packageJson.name,
+      version: packageJson.version,
+    })
+    expect(Number.isNaN(Date.parse(report.generatedAt))).toBe(false)
+  })
+
+  test('should include app details with slim match entries', () => {
+    expect(report.apps[0]?.bundleId).toBe('com.google.Chrome')
+    expect(report.apps[0]?.status).toBe('available')
+    expect(report.apps[0]?.matches).toEqual([
+      {
+        confidence: BUNDLE_ID_CONFIDENCE,
+        matchedValue: 'com.google.Chrome',
+        matchType: 'bundle-id',
+        source: 'bundle-id',
+        token: 'google-chrome',
+      },
+    ])
+  })
+
+  test('should include installation results and summary', () => {
+    expect(report.selected).toEqual(['Google Chrome'])
+    expect(report.installation?.installed).toHaveLength(1)
+    expect(report.summary).toEqual(summary)
+  })
+
+  test('should omit installation when nothing was installed', () => {
+    const emptyReport = createRunReport({
+      apps: [chromeApp],
+      selectedApps: [],
+      summary,
+    })
+
+    expect(emptyReport.installation).toBeUndefined()
+  })
+})
+
+describe('outputRunReport', () => {
+  const temporaryDirectory = mkdtempSync(path.join(os.tmpdir(), 'report-'))
+
+  afterAll(() => {
+    rmSync(temporaryDirectory, { force: true, recursive: true })
+  })
+
+  test('should write the report to a file', async () => {
+    const reportFile = path.join(temporaryDirectory, 'nested', 'report.json')
+    const report = createRunReport({
+      apps: [chromeApp],
+      selectedApps: [],
+      summary,
+    })
+
+    await outputRunReport(report, { json: false, reportFile })
+
+    const written = JSON.parse(readFileSync(reportFile, 'utf-8'))
+    expect(written.schemaVersion).toBe(REPORT_SCHEMA_VERSION)
+    expect(written.apps[0].originalName).toBe('Google Chrome')
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * Test file for string-similarity.ts
+ */
+
+import { describe, expect, test } from 'bun:test'
+import {
+  calculateNameSimilarity,
+  jaroWinklerSimilarity,
+} from '../src/string-similarity.ts'
+
+const PRECISION = 3
+const MARTHA_SIMILARITY = 0.961
+const DIXON_SIMILARITY = 0.813
+const SUFFIX_ONLY_SIMILARITY = 0.9
+
+describe('jaroWinklerSimilarity', () => {
+  test('should return 1 for identical strings and 0 for unrelated ones', () => {
+    expect(jaroWinklerSimilarity('slack', 'slack')).toBe(1)
+    expect(jaroWinklerSimilarity('abc', 'xyz')).toBe(0)
+    expect(jaroWinklerSimilarity('', 'slack')).toBe(0)
+  })
+
+  test('should match the reference values', () => {
+    expect(jaroWinklerSimilarity('MARTHA', 'MARHTA')).toBeCloseTo(
+      MARTHA_SIMILARITY,
+      PRECISION,
+    )
+    expect(jaroWinklerSimilarity('DIXON', 'DICKSONX')).toBeCloseTo(
+      DIXON_SIMILARITY,
+      PRECISION,
+    )
+  })
+})
+
+describe('calculateNameSimilarity', () => {
+  test('should only lightly penalize version and edition suffixes', () => {
+    expect(
+      calculateNameSimilarity('sublime-text-4', 'sublime-text'),
+    ).toBeCloseTo(SUFFIX_ONLY_SIMILARITY, PRECISION)
+    expect(
+      calculateNameSimilarity('microsoft-word-2019', 'microsoft-word'),
+    ).toBeCloseTo(SUFFIX_ONLY_SIMILARITY, PRECISION)
+  })
+
+  test('should prefer the same edition over a different one', () => {
+    const sameEdition = calculateNameSimilarity(
+      'firefox-developer-edition',
+      'firefox-developer-edition',
+    )
+    const otherEdition = calculateNameSimilarity(
+      'firefox-developer-edition',
+      'firefox',
+    )
+
+    expect(sameEdition).toBe(1)
+    expect(otherEdition).toBeLessThan(sameEdition)
+  })
+
+  test('should score short names low against longer names they prefix', () => {
+    expect(calculateNameSimilarity('iterm', 'iterm2')).toBeGreaterThan(
+      calculateNameSimilarity('notes', 'notesnook'),
+    )
+    expect(calculateNameSimilarity('dia', 'diashapes')).toBeLessThan(
+      calculateNameSimilarity('notes', 'notesnook'),
+    )
+  })
+
+  test('should return 0 for empty names', () => {
+    expect(calculateNameSimilarity('', 'slack')).toBe(0)
+  })
+})
@@ -3,21 +3,40 @@
  */
 
 import { describe, expect, test } from 'bun:test'
+import { spawnSync } from 'node:child_process'
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
 
 const COMMAND_NOT_FOUND_EXIT_CODE = 127
 const SHORT_TIMEOUT_MS = 500
 const DEFAULT_TIMEOUT_MS = 5000
 const CUSTOM_ERROR_EXIT_CODE = 42
 
+import { parsePlist } from '../src/plist.ts'
+import type { BundleIdCacheEntry } from '../src/types.ts'
+import { ConvertAppsError } from '../src/types.ts'
 import {
+  clearBundleIdCache,
   escapeShellArgument,
   executeCommand,
   extractAppName,
+  findIgnoreRule,
   formatList,
+  getAppBundleInfo,
+  getBundleIdCacheInfo,
   normalizeAppName,
   parseCommandOutput,
+  parseIgnoreRule,
   pluralize,
-  shouldIgnoreApp,
 } from '../src/utils.ts'
 
 describe('utils', () => {
@@ -296,33 +315,66 @@ describe('utils', () => {
     })
   })
 
-  describe('shouldIgnoreApp', () => {
+  describe('parseIgnoreRule', () => {
+    test('should record negation and source', () => {
+      expect(parseIgnoreRule(' !Slack ', '--ignore')).toEqual({
+        negated: true,
+        pattern: 'Slack',
+        source: '--ignore',
+      })
+    })
+
+    test('should reject invalid regular expressions', () => {
+      expect(() => parseIgnoreRule('/[a-/', '--ignore')).toThrow(
+        ConvertAppsError,
+      )
+    })
+  })
+
+  describe('findIgnoreRule', () => {
+    const isIgnored = (
+      originalName: string,
+      brewName: string,
+      patterns: string[],
+      bundleId?: string,
+    ): boolean =>
+      findIgnoreRule(
+        patterns.map((pattern) => parseIgnoreRule(pattern, '--ignore')),
+        { brewName, originalName, ...(bundleId !== undefined && { bundleId }) },
+      ) !== undefined
+
+    test('should return the last matching rule', () => {
+      const rules = [
+        parseIgnoreRule('google-*', '--ignore'),
+        parseIgnoreRule('google-chrome', '.convertappsignore:2'),
+      ]
+
+      expect(
+        findIgnoreRule(rules, {
+          brewName: 'google-chrome',
+          originalName: 'Chrome',
+        })?.source,
+      ).toBe('.convertappsignore:2')
+    })
+
     test('should return false when ignore list is empty', () => {
-      const result = shouldIgnoreApp('Bartender 5', 'bartender-5', [])
+      const result = isIgnored('Bartender 5', 'bartender-5', [])
       expect(result).toBe(false)
     })
 
     test('should ignore app by original name', () => {
-      const result = shouldIgnoreApp('Bartender 5', 'bartender-5', [
-        'Bartender 5',
-      ])
+      const result = isIgnored('Bartender 5', 'bartender-5', ['Bartender 5'])
       expect(result).toBe(true)
     })
 
     test('should ignore app by brew name', () => {
-      const result = shouldIgnoreApp('Bartender 5', 'bartender-5', [
-        'bartender',
-      ])
+      const result = isIgnored('Bartender 5', 'bartender-5', ['bartender'])
       expect(result).toBe(true)
     })
 
     test('should ignore app case insensitively', () => {
-      const result1 = shouldIgnoreApp('Bartender 5', 'bartender-5', [
-        'BARTENDER 5',
-      ])
-      const result2 = shouldIgnoreApp('Bartender 5', 'bartender-5', [
-        'BARTENDER',
-      ])
+      const result1 = isIgnored('Bartender 5', 'bartender-5', ['BARTENDER 5'])
+      const result2 = isIgnored('Bartender 5', 'bartender-5', ['BARTENDER'])
       expect(result1).toBe(true)
       expect(result2).toBe(true)
     })
@@ -330,32 +382,28 @@ describe('utils', () => {
     test('should handle multiple ignore patterns', () => {
       const ignoreList = ['chrome', 'Visual Studio Code', 'bartender']
 
+      expect(isIgnored('Google Chrome', 'google-chrome', ignoreList)).toBe(
+        false,
+      )
+      expect(isIgnored('Chrome', 'chrome', ignoreList)).toBe(true)
       expect(
-        shouldIgnoreApp('Google Chrome', 'google-chrome', ignoreList),
-      ).toBe(false)
-      expect(shouldIgnoreApp('Chrome', 'chrome', ignoreList)).toBe(true)
-      expect(
-        shouldIgnoreApp('Visual Studio Code', 'visual-studio-code', ignoreList),
+        isIgnored('Visual Studio Code', 'visual-studio-code', ignoreList),
       ).toBe(true)
-      expect(shouldIgnoreApp('Bartender 5', 'bartender-5', ignoreList)).toBe(
-        true,
-      )
+      expect(isIgnored('Bartender 5', 'bartender-5', ignoreList)).toBe(true)
     })
 
     test('should not ignore when no match found', () => {
-      const result = shouldIgnoreApp('Firefox', 'firefox', ['chrome', 'safari'])
+      const result = isIgnored('Firefox', 'firefox', ['chrome', 'safari'])
       expect(result).toBe(false)
     })
 
     test('should handle whitespace in ignore patterns', () => {
-      const result = shouldIgnoreApp('Bartender 5', 'bartender-5', [
-        ' bartender ',
-      ])
+      const result = isIgnored('Bartender 5', 'bartender-5', [' bartender '])
       expect(result).toBe(true)
     })
 
     test('should handle special characters', () => {
-      const result = shouldIgnoreApp('App with (parens)', 'app-with-parens', [
+      const result = isIgnored('App with (parens)', 'app-with-parens', [
         'app with (parens)',
       ])
       expect(result).toBe(true)
@@ -363,10 +411,8 @@ describe('utils', () => {
 
     test('should match exact normalized names only', () => {
       // "bartender" should match "bartender-5" (prefix matching)
-      const result1 = shouldIgnoreApp('Bartender', 'bartender', ['bartender-5'])
-      const result2 = shouldIgnoreApp('Bartender 5', 'bartender-5', [
-        'bartender',
-      ])
+      const result1 = isIgnored('Bartender', 'bartender', ['bartender-5'])
+      const result2 = isIgnored('Bartender 5', 'bartender-5', ['bartender'])
 
       expect(result1).toBe(false) // "bartender" != "bartender-5"
       expect(result2).toBe(true) // "bartender" matches "bartender-5" via prefix
@@ -374,11 +420,9 @@ describe('utils', () => {
 
     test('should handle prefix matching for versioned apps', () => {
       // Test the key use case: --ignore bartender should ignore "Bartender 5"
-      const result1 = shouldIgnoreApp('Bartender 5', 'bartender-5', [
-        'bartender',
-      ])
-      const result2 = shouldIgnoreApp('Chrome 110', 'chrome-110', ['chrome'])
-      const result3 = shouldIgnoreApp('App 2.0', 'app-2.0', ['app'])
+      const result1 = isIgnored('Bartender 5', 'bartender-5', ['bartender'])
+      const result2 = isIgnored('Chrome 110', 'chrome-110', ['chrome'])
+      const result3 = isIgnored('App 2.0', 'app-2.0', ['app'])
 
       expect(result1).toBe(true)
       expect(result2).toBe(true)
@@ -387,8 +431,179 @@ describe('utils', () => {
 
     test('should not match unrelated prefixes', () => {
       // "bart" should not match "bartender-5"
-      const result = shouldIgnoreApp('Bartender 5', 'bartender-5', ['bart'])
+      const result = isIgnored('Bartender 5', 'bartender-5', ['bart'])
       expect(result).toBe(false)
     })
+
+    test('should match wildcard patterns against names', () => {
+      expect(
+        isIgnored('Microsoft Word', 'microsoft-word', ['Microsoft *']),
+      ).toBe(true)
+      expect(isIgnored('Word', 'word', ['Microsoft *'])).toBe(false)
+    })
+
+    test('should match regex literals', () => {
+      expect(
+        isIgnored('Adobe Photoshop', 'adobe-photoshop', ['/^adobe/i']),
+      ).toBe(true)
+      expect(
+        isIgnored('Adobe Photoshop', 'adobe-photoshop', ['/^Photo/']),
+      ).toBe(false)
+    })
+
+    test('should match regex literals with g or y flags the same for every app', () => {
+      const rules = [parseIgnoreRule('/adobe/gy', '--ignore')]
+
+      for (const name of ['Adobe Photoshop', 'Adobe Illustrator', 'Adobe XD']) {
+        expect(
+          findIgnoreRule(rules, { brewName: 'adobe', originalName: name })
+            ?.pattern,
+        ).toBe('/adobe/gy')
+      }
+    })
+
+    test('should match bundle IDs exactly and with wildcards', () => {
+      expect(
+        isIgnored(
+          'IntelliJ IDEA',
+          'intellij-idea',
+          ['com.jetbrains.*'],
+          'com.jetbrains.intellij',
+        ),
+      ).toBe(true)
+      expect(
+        isIgnored(
+          'Slack',
+          'slack',
+          ['COM.TINYSPECK.SLACKMACGAP'],
+          'com.tinyspeck.slackmacgap',
+        ),
+      ).toBe(true)
+    })
+
+    test('should let negated patterns re-include apps', () => {
+      const ignoreList = ['Microsoft *', '!Microsoft Word']
+
+      expect(isIgnored('Microsoft Word', 'microsoft-word', ignoreList)).toBe(
+        false,
+      )
+      expect(isIgnored('Microsoft Excel', 'microsoft-excel', ignoreList)).toBe(
+        true,
+      )
+    })
+  })
+
+  describe('bundle ID cache', () => {
+    const cachePath = path.join(
+      mkdtempSync(path.join(os.tmpdir(), 'bundle-ids-')),
+      'bundle-ids.json',
+    )
+
+    test('should describe the cache file', async () => {
+      writeFileSync(
+        cachePath,
+        JSON.stringify({
+          data: { '/Applications/Slack.app': 'com.tinyspeck.slackmacgap' },
+          timestamp: Date.now(),
+          version: '1.0.0',
+        }),
+      )
+
+      expect(await getBundleIdCacheInfo(cachePath)).toMatchObject({
+        entries: 1,
+        exists: true,
+        isFresh: true,
+        path: cachePath,
+      })
+    })
+
+    test('should read an Info.plist again once it changes', () => {
+      const homeDirectory = mkdtempSync(path.join(os.tmpdir(), 'bundle-home-'))
+      const appPath = path.join(homeDirectory, 'Example.app')
+      const infoPlistPath = path.join(appPath, 'Contents', 'Info.plist')
+      const homeCachePath = path.join(
+        homeDirectory,
+        '.cache',
+        'convert-apps-to-homebrew',
+        'bundle-ids.json',
+      )
+      const writeVersion = (version: string, modifiedAt: Date) => {
+        writeFileSync(
+          infoPlistPath,
+          `<plist><dict><key>CFBundleShortVersionString</key><string>${version}</string></dict></plist>`,
+        )
+        utimesSync(infoPlistPath, modifiedAt, modifiedAt)
+      }
+      // Each run reads the cache from a separate process with its own home directory
+      const readInNewRun = () =>
+        JSON.parse(
+          spawnSync(
+            process.execPath,
+            [
+              '-e',
+              `const { readAppBundleInfo } = await import(${JSON.stringify(path.join(import.meta.dir, '..', 'src', 'utils.ts'))})
+console.log(JSON.stringify(await readAppBundleInfo(${JSON.stringify(appPath)})))`,
+            ],
+            { env: { ...process.env, HOME: homeDirectory } },
+          ).stdout.toString(),
+        ) as unknown
+      const readCreatedAt = () =>
+        (JSON.parse(readFileSync(homeCachePath, 'utf-8')) as BundleIdCacheEntry)
+          .timestamp
+
+      mkdirSync(path.dirname(infoPlistPath), { recursive: true })
+
+      try {
+        writeVersion('1.0', new Date('2026-10-01T00:00:00Z'))
+        expect(readInNewRun()).toEqual({ version: '1.0' })
+        const createdAt = readCreatedAt()
+
+        writeVersion('1.1', new Date('2026-10-02T00:00:00Z'))
+        expect(readInNewRun()).toEqual({ version: '1.1' })
+        expect(readCreatedAt()).toBe(createdAt)
+      } finally {
+        rmSync(homeDirectory, { force: true, recursive: true })
+      }
+    })
+
+    test('should clear the cache file', async () => {
+      await clearBundleIdCache(cachePath)
+
+      expect(existsSync(cachePath)).toBe(false)
+      expect(await getBundleIdCacheInfo(cachePath)).toEqual({
+        exists: false,
+        path: cachePath,
+      })
+    })
+  })
+
+  describe('getAppBundleInfo', () => {
+    test('should read app metadata from an Info.plist', () => {
+      const plist = parsePlist(
+        readFileSync(path.join(import.meta.dir, 'fixtures', 'Info.plist')),
+      )
+
+      expect(getAppBundleInfo(plist)).toEqual({
+        bundleId: 'com.example.CafeViewer',
+        bundleVersion: '2041',
+        displayName: 'Café Viewer',
+        minimumSystemVersion: '12.0',
+        sparkleFeedUrl: 'https://example.com/appcast.xml',
+        version: '2.4.1',
+      })
+    })
+
+    test('should skip missing and non-string values', () => {
+      const buildNumber = 42
+
+      expect(
+        getAppBundleInfo({
+          CFBundleIdentifier: '  ',
+          CFBundleShortVersionString: ['1.0'],
+          CFBundleVersion: buildNumber,
+        }),
+      ).toEqual({ bundleVersion: '42' })
+      expect(getAppBundleInfo('not a dictionary')).toEqual({})
+    })
   })
 })
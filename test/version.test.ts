@@ -0,0 +1,67 @@
+/**
+ * Tests for version comparison
+ */
+
+import { describe, expect, test } from 'bun:test'
+import { compareVersions, getVersionRelation } from '../src/version.ts'
+
+describe('compareVersions', () => {
+  test('should compare numeric segments numerically', () => {
+    expect(compareVersions('1.10', '1.9')).toBeGreaterThan(0)
+    expect(compareVersions('2.0', '10.0')).toBeLessThan(0)
+    expect(compareVersions('2024.10.1', '2024.10.1')).toBe(0)
+  })
+
+  test('should ignore trailing zeros and a leading v', () => {
+    expect(compareVersions('1.2', '1.2.0')).toBe(0)
+    expect(compareVersions('v3.1', '3.1')).toBe(0)
+  })
+
+  test('should treat letters after a number as a pre-release', () => {
+    expect(compareVersions('1.0b1', '1.0')).toBeLessThan(0)
+    expect(compareVersions('1.0b2', '1.0b1')).toBeGreaterThan(0)
+    expect(compareVersions('1.0beta', '1.0alpha')).toBeGreaterThan(0)
+  })
+
+  test('should not compare versions without numbers', () => {
+    expect(compareVersions('latest', '1.0')).toBeUndefined()
+    expect(compareVersions('1.0', '')).toBeUndefined()
+  })
+})
+
+describe('getVersionRelation', () => {
+  test('should compare the installed version with the cask version', () => {
+    expect(getVersionRelation({ version: '1.2.3' }, '1.2.3')).toBe('equal')
+    expect(getVersionRelation({ version: '1.2.3' }, '1.3.0')).toBe('older')
+    expect(getVersionRelation({ version: '2.0' }, '1.9.9')).toBe('newer')
+  })
+
+  test('should use build numbers after a comma to break ties', () => {
+    expect(
+      getVersionRelation(
+        { bundleVersion: '455', version: '1.2.3' },
+        '1.2.3,456',
+      ),
+    ).toBe('older')
+    expect(
+      getVersionRelation(
+        { bundleVersion: '456', version: '1.2.3' },
+        '1.2.3,456',
+      ),
+    ).toBe('equal')
+    expect(getVersionRelation({ version: '1.2.3' }, '1.2.3,456')).toBe('equal')
+    expect(
+      getVersionRelation(
+        { bundleVersion: '9', version: '1.2.3' },
+        '1.2.3,a1b2',
+      ),
+    ).toBe('equal')
+  })
+
+  test('should not know how latest or missing versions compare', () => {
+    expect(getVersionRelation({ version: '1.0' }, 'latest')).toBe('unknown')
+    expect(getVersionRelation({ version: '1.0' }, undefined)).toBe('unknown')
+    expect(getVersionRelation({}, '1.0')).toBe('unknown')
+    expect(getVersionRelation({ version: 'Release' }, '1.0')).toBe('unknown')
+  })
+})